@@ -1,8 +1,13 @@
-import { dirname, basename } from 'path';
+import { dirname, basename, sep } from 'path';
 import { stat } from 'fs/promises';
-import { hashFile, hashFileQuick } from '../utils/file-hash.js';
+import type { Stats } from 'fs';
+import { hashFile, hashFileQuick, hammingDistance } from '../utils/file-hash.js';
+import { analyzeImage, computeDHash } from '../analyzers/image.js';
+import { getFileCategory } from '../utils/mime.js';
+import { contractTilde } from '../utils/paths.js';
 import { deleteFile, type DeleteResult } from './delete.js';
 import { exists } from '../utils/fs-safe.js';
+import type { Database } from '../storage/database.js';
 
 export interface DuplicateGroup {
   hash: string;
@@ -17,8 +22,49 @@ export interface DuplicateFile {
   isOriginal: boolean;
 }
 
+export interface SimilarImage extends DuplicateFile {
+  hash: string;  // dHash
+  width: number;
+  height: number;
+}
+
+export interface SimilarImageGroup {
+  // Highest resolution first; that one is marked as the original
+  files: SimilarImage[];
+}
+
+export type KeepPreference =
+  | 'destinations'    // inside a configured destination
+  | 'not-avoided'     // outside avoided folders like ~/Downloads
+  | 'exif'            // image still has its EXIF data
+  | 'readable-name'   // name isn't camera or messenger gibberish
+  | 'shortest-name'
+  | 'oldest'
+  | 'newest'
+  | 'largest';
+
+export interface KeepPreferences {
+  // Applied in order; each one narrows down the copies that are left
+  order: KeepPreference[];
+  destinations?: string[];
+  avoid?: string[];
+  // Copies in these folders are never deleted
+  protected?: string[];
+  isUnreadable?: (filename: string) => boolean;
+}
+
+export interface KeepDecision {
+  keep: DuplicateFile;
+  remove: DuplicateFile[];
+  // Other copies kept because they are in a protected folder
+  protected: DuplicateFile[];
+  reasons: string[];
+}
+
 export interface DeduplicateOptions {
   keepStrategy: 'oldest' | 'newest' | 'first' | 'largest';
+  // Overrides keepStrategy when set
+  preferences?: KeepPreferences;
   toTrash?: boolean;
   dryRun?: boolean;
 }
@@ -33,68 +79,71 @@ export interface DeduplicateResult {
   keptFiles: string[];
 }
 
+export interface FindDuplicatesOptions {
+  // Cache confirmed full hashes in the files table
+  db?: Database;
+}
+
+/**
+ * Find files with identical content. Files are grouped by size, then by a
+ * sampled quick hash, and only reported once a full hash confirms the match,
+ * so different files with identical samples are never treated as duplicates.
+ */
 export async function findDuplicates(
   files: string[],
-  useQuickHash = true
+  options: FindDuplicatesOptions = {}
 ): Promise<DuplicateGroup[]> {
   // First, group by size
-  const sizeGroups = new Map<number, string[]>();
+  const sizeGroups = new Map<number, DuplicateFile[]>();
 
   for (const file of files) {
     try {
       const stats = await stat(file);
-      const size = stats.size;
 
-      const group = sizeGroups.get(size) || [];
-      group.push(file);
-      sizeGroups.set(size, group);
+      const group = sizeGroups.get(stats.size) || [];
+      group.push({
+        path: file,
+        size: stats.size,
+        modified: stats.mtime,
+        isOriginal: false,
+      });
+      sizeGroups.set(stats.size, group);
     } catch {
       // Skip inaccessible files
     }
   }
 
-  // Then, hash files with same size
-  const duplicateGroups: DuplicateGroup[] = [];
+  // Then, quick-hash files with same size
+  const candidates: DuplicateFile[][] = [];
 
-  for (const [size, group] of sizeGroups) {
+  for (const group of sizeGroups.values()) {
     if (group.length < 2) continue;
 
     const hashGroups = new Map<string, DuplicateFile[]>();
 
-    for (const filePath of group) {
+    for (const file of group) {
       try {
-        const hash = useQuickHash
-          ? await hashFileQuick(filePath)
-          : await hashFile(filePath);
-
-        const stats = await stat(filePath);
-        const fileInfo: DuplicateFile = {
-          path: filePath,
-          size: stats.size,
-          modified: stats.mtime,
-          isOriginal: false,
-        };
+        const hash = await hashFileQuick(file.path);
 
         const existing = hashGroups.get(hash) || [];
-        existing.push(fileInfo);
+        existing.push(file);
         hashGroups.set(hash, existing);
       } catch {
         // Skip files that can't be hashed
       }
     }
 
-    // Keep only groups with duplicates
-    for (const [hash, fileGroup] of hashGroups) {
+    for (const fileGroup of hashGroups.values()) {
       if (fileGroup.length > 1) {
-        duplicateGroups.push({
-          hash,
-          size,
-          files: fileGroup,
-        });
+        candidates.push(fileGroup);
       }
     }
   }
 
+  // Finally, confirm with the full hash
+  const duplicateGroups: DuplicateGroup[] = (await verifyDuplicates(candidates, options.db))
+    .map(({ hash, files: fileGroup }) => ({ hash, size: fileGroup[0].size, files: fileGroup }));
+
   // Sort by total wasted space
   duplicateGroups.sort((a, b) => {
     const wastedA = a.size * (a.files.length - 1);
@@ -105,6 +154,317 @@ export async function findDuplicates(
   return duplicateGroups;
 }
 
+/**
+ * Split candidate groups by full content hash, keeping only real duplicates
+ */
+export async function verifyDuplicates<T extends { path: string }>(
+  candidates: T[][],
+  db?: Database
+): Promise<{ hash: string; files: T[] }[]> {
+  const confirmed: { hash: string; files: T[] }[] = [];
+
+  for (const group of candidates) {
+    const hashGroups = new Map<string, T[]>();
+
+    for (const file of group) {
+      try {
+        const hash = await fullHash(file.path, db);
+
+        const existing = hashGroups.get(hash) || [];
+        existing.push(file);
+        hashGroups.set(hash, existing);
+      } catch {
+        // Skip files that can't be read
+      }
+    }
+
+    for (const [hash, files] of hashGroups) {
+      if (files.length > 1) {
+        confirmed.push({ hash, files });
+      }
+    }
+  }
+
+  return confirmed;
+}
+
+async function fullHash(filePath: string, db?: Database): Promise<string> {
+  const stats = await stat(filePath);
+  const mtimeMs = Math.trunc(stats.mtimeMs);
+
+  const cached = db?.getCachedFullHash(filePath, stats.size, mtimeMs);
+  if (cached) {
+    return cached;
+  }
+
+  const hash = await hashFile(filePath);
+  db?.cacheFullHash(filePath, stats.size, mtimeMs, hash);
+  return hash;
+}
+
+export interface FindSimilarImagesOptions {
+  // Most dHash bits (of 64) two images may differ in to count as the same picture
+  threshold?: number;
+  // Cache perceptual hashes in the files table
+  db?: Database;
+}
+
+/**
+ * Group resized, recompressed or re-encoded copies of the same picture by
+ * perceptual hash. The highest-resolution copy of each group is kept.
+ */
+export async function findSimilarImages(
+  files: string[],
+  options: FindSimilarImagesOptions = {}
+): Promise<SimilarImageGroup[]> {
+  const { threshold = 10, db } = options;
+  const images: SimilarImage[] = [];
+
+  for (const file of files) {
+    try {
+      const stats = await stat(file);
+      const hash = await perceptualHash(file, stats, db);
+      const { width = 0, height = 0 } = await analyzeImage(file);
+
+      images.push({
+        path: file,
+        size: stats.size,
+        modified: stats.mtime,
+        isOriginal: false,
+        hash,
+        width,
+        height,
+      });
+    } catch {
+      // Skip files that can't be decoded as images
+    }
+  }
+
+  // Join images that are within the threshold of each other
+  const parent = images.map((_, i) => i);
+  const root = (i: number): number => parent[i] === i ? i : (parent[i] = root(parent[i]));
+
+  for (let i = 0; i < images.length; i++) {
+    for (let j = i + 1; j < images.length; j++) {
+      if (hammingDistance(images[i].hash, images[j].hash) <= threshold) {
+        parent[root(i)] = root(j);
+      }
+    }
+  }
+
+  const clusters = new Map<number, SimilarImage[]>();
+  images.forEach((image, i) => {
+    const cluster = clusters.get(root(i)) || [];
+    cluster.push(image);
+    clusters.set(root(i), cluster);
+  });
+
+  const groups: SimilarImageGroup[] = [];
+
+  for (const cluster of clusters.values()) {
+    if (cluster.length < 2) continue;
+
+    cluster.sort((a, b) => (b.width * b.height) - (a.width * a.height) || b.size - a.size);
+    cluster[0].isOriginal = true;
+    groups.push({ files: cluster });
+  }
+
+  // Most space to recover first
+  const wasted = (group: SimilarImageGroup) =>
+    group.files.slice(1).reduce((sum, file) => sum + file.size, 0);
+  groups.sort((a, b) => wasted(b) - wasted(a));
+
+  return groups;
+}
+
+async function perceptualHash(filePath: string, stats: Stats, db?: Database): Promise<string> {
+  const mtimeMs = Math.trunc(stats.mtimeMs);
+
+  const cached = db?.getCachedPerceptualHash(filePath, stats.size, mtimeMs);
+  if (cached) {
+    return cached;
+  }
+
+  const hash = await computeDHash(filePath);
+  db?.cachePerceptualHash(filePath, stats.size, mtimeMs, hash);
+  return hash;
+}
+
+export interface DuplicateFolder {
+  path: string;
+  files: number;
+  size: number;
+  // Files with no identical copy in the other folder of the pair
+  unique: number;
+}
+
+export interface DuplicateFolderPair {
+  keep: DuplicateFolder;
+  copy: DuplicateFolder;
+  // Files the folders have in common, as a share of the larger one
+  overlap: number;
+  reasons: string[];
+}
+
+export interface FindDuplicateFoldersOptions {
+  // Only folders below this one are compared
+  root: string;
+  // Smallest overlap (0-1) reported, 1 for identical folders only
+  minOverlap?: number;
+  // Folders with fewer files are ignored
+  minFiles?: number;
+  preferences?: KeepPreferences;
+  db?: Database;
+}
+
+interface FolderContent {
+  path: string;
+  files: number;
+  size: number;
+  modified: Date;
+  // Content signature: hash of each file with a duplicate, and how often
+  hashes: Map<string, number>;
+}
+
+/**
+ * Find folders with the same content, such as a camera import done twice.
+ * Each folder's signature is the set of file hashes in its tree, built from
+ * the confirmed duplicates, so names and layout don't matter. Only the
+ * topmost pair of nested duplicate folders is reported.
+ */
+export async function findDuplicateFolders(
+  files: string[],
+  options: FindDuplicateFoldersOptions
+): Promise<DuplicateFolderPair[]> {
+  const { root, minOverlap = 0.95, minFiles = 2, db } = options;
+
+  // Files without a duplicate can't be shared by two folders
+  const hashOf = new Map<string, string>();
+  for (const group of await findDuplicates(files, { db })) {
+    for (const file of group.files) {
+      hashOf.set(file.path, group.hash);
+    }
+  }
+
+  const folders = new Map<string, FolderContent>();
+
+  for (const file of files) {
+    let stats: Stats;
+    try {
+      stats = await stat(file);
+    } catch {
+      continue;
+    }
+
+    for (let dir = dirname(file); isInside(dir, root); dir = dirname(dir)) {
+      let folder = folders.get(dir);
+      if (!folder) {
+        folder = { path: dir, files: 0, size: 0, modified: stats.mtime, hashes: new Map() };
+        folders.set(dir, folder);
+      }
+
+      folder.files++;
+      folder.size += stats.size;
+      if (stats.mtime > folder.modified) {
+        folder.modified = stats.mtime;
+      }
+
+      const hash = hashOf.get(file);
+      if (hash) {
+        folder.hashes.set(hash, (folder.hashes.get(hash) ?? 0) + 1);
+      }
+    }
+  }
+
+  // Index folders by the hashes they contain to only compare related ones
+  const byHash = new Map<string, FolderContent[]>();
+  for (const folder of folders.values()) {
+    if (folder.files < minFiles) continue;
+    for (const hash of folder.hashes.keys()) {
+      const list = byHash.get(hash) || [];
+      list.push(folder);
+      byHash.set(hash, list);
+    }
+  }
+
+  const matches: { a: FolderContent; b: FolderContent; common: number; overlap: number }[] = [];
+
+  for (const a of folders.values()) {
+    if (a.files < minFiles) continue;
+    const common = new Map<FolderContent, number>();
+
+    for (const [hash, count] of a.hashes) {
+      for (const b of byHash.get(hash) ?? []) {
+        if (b.path <= a.path) continue;
+        common.set(b, (common.get(b) ?? 0) + Math.min(count, b.hashes.get(hash)!));
+      }
+    }
+
+    for (const [b, shared] of common) {
+      const overlap = shared / Math.max(a.files, b.files);
+      if (overlap >= minOverlap && !isInside(a.path, b.path) && !isInside(b.path, a.path)) {
+        matches.push({ a, b, common: shared, overlap });
+      }
+    }
+  }
+
+  // Largest trees first, so their subfolders are covered by them
+  matches.sort((x, y) => Math.max(y.a.size, y.b.size) - Math.max(x.a.size, x.b.size));
+
+  const pairs: DuplicateFolderPair[] = [];
+  const reported: [string, string][] = [];
+  const within = (path: string, dir: string) => path === dir || isInside(path, dir);
+
+  for (const { a, b, common, overlap } of matches) {
+    const nested = reported.some(([p, q]) =>
+      (within(a.path, p) && within(b.path, q)) || (within(a.path, q) && within(b.path, p)));
+    if (nested) continue;
+
+    reported.push([a.path, b.path]);
+    pairs.push({ ...await decideFolderKeep(a, b, common, options.preferences), overlap });
+  }
+
+  return pairs;
+}
+
+/**
+ * The folder with more files is kept, so the copy has as little as possible
+ * of its own; folders of the same size go by the keep preferences
+ */
+async function decideFolderKeep(
+  a: FolderContent,
+  b: FolderContent,
+  common: number,
+  preferences?: KeepPreferences
+): Promise<Omit<DuplicateFolderPair, 'overlap'>> {
+  const toFolder = (folder: FolderContent): DuplicateFolder => ({
+    path: folder.path,
+    files: folder.files,
+    size: folder.size,
+    unique: folder.files - common,
+  });
+
+  if (a.files !== b.files || !preferences) {
+    const [keep, copy] = a.files >= b.files ? [a, b] : [b, a];
+    return {
+      keep: toFolder(keep),
+      copy: toFolder(copy),
+      reasons: [a.files !== b.files ? 'more files' : 'kept the first'],
+    };
+  }
+
+  const asFile = (folder: FolderContent): DuplicateFile => ({
+    path: folder.path,
+    size: folder.size,
+    modified: folder.modified,
+    isOriginal: false,
+  });
+  const decision = await decideKeep([asFile(a), asFile(b)], preferences);
+  const [keep, copy] = decision.keep.path === a.path ? [a, b] : [b, a];
+
+  return { keep: toFolder(keep), copy: toFolder(copy), reasons: decision.reasons };
+}
+
 export async function deduplicate(
   groups: DuplicateGroup[],
   options: DeduplicateOptions
@@ -123,8 +483,11 @@ export async function deduplicate(
     result.duplicatesFound += group.files.length - 1;
 
     // Determine which file to keep
-    const fileToKeep = selectFileToKeep(group.files, options.keepStrategy);
-    result.keptFiles.push(fileToKeep.path);
+    const decision = options.preferences
+      ? await decideKeep(group.files, options.preferences)
+      : null;
+    const fileToKeep = decision?.keep ?? selectFileToKeep(group.files, options.keepStrategy);
+    result.keptFiles.push(fileToKeep.path, ...(decision?.protected ?? []).map(f => f.path));
 
     // Mark the original
     for (const file of group.files) {
@@ -132,7 +495,7 @@ export async function deduplicate(
     }
 
     // Remove duplicates
-    for (const file of group.files) {
+    for (const file of decision ? decision.remove : group.files) {
       if (file.isOriginal) continue;
 
       if (options.dryRun) {
@@ -159,6 +522,117 @@ export async function deduplicate(
   return result;
 }
 
+function isInside(path: string, dir: string): boolean {
+  return path.startsWith(dir.endsWith(sep) ? dir : dir + sep);
+}
+
+/**
+ * Pick the copy to keep by applying the preferences in order. A preference
+ * only decides when some copies meet it and others don't; the reasons say
+ * which ones did.
+ */
+export async function decideKeep(
+  files: DuplicateFile[],
+  preferences: KeepPreferences
+): Promise<KeepDecision> {
+  const reasons: string[] = [];
+  const protectedDirs = preferences.protected ?? [];
+  const protectedFiles = files.filter(f => protectedDirs.some(dir => isInside(f.path, dir)));
+
+  // A copy in a protected folder stays anyway, so it is the best one to keep
+  let remaining = files;
+  if (protectedFiles.length > 0 && protectedFiles.length < files.length) {
+    remaining = protectedFiles;
+    reasons.push('in a protected folder');
+  }
+
+  const narrow = (keep: (file: DuplicateFile) => boolean, reason: string) => {
+    const matching = remaining.filter(keep);
+    if (matching.length > 0 && matching.length < remaining.length) {
+      remaining = matching;
+      reasons.push(reason);
+    }
+  };
+
+  const pickBy = (score: (file: DuplicateFile) => number, reason: string) => {
+    const best = Math.min(...remaining.map(score));
+    narrow(file => score(file) === best, reason);
+  };
+
+  for (const preference of preferences.order) {
+    if (remaining.length === 1) break;
+
+    switch (preference) {
+      case 'destinations': {
+        const dirs = preferences.destinations ?? [];
+        const dir = dirs.find(d => remaining.some(f => isInside(f.path, d)));
+        if (dir) {
+          narrow(f => dirs.some(d => isInside(f.path, d)), `inside destination ${contractTilde(dir)}`);
+        }
+        break;
+      }
+      case 'not-avoided': {
+        const avoid = preferences.avoid ?? [];
+        const dir = avoid.find(d => remaining.some(f => isInside(f.path, d)));
+        if (dir) {
+          narrow(f => !avoid.some(d => isInside(f.path, d)), `not in ${contractTilde(dir)}`);
+        }
+        break;
+      }
+      case 'exif': {
+        const withExif = new Set<string>();
+        for (const file of remaining) {
+          if (await hasExif(file.path)) {
+            withExif.add(file.path);
+          }
+        }
+        narrow(f => withExif.has(f.path), 'has EXIF data');
+        break;
+      }
+      case 'readable-name': {
+        const isUnreadable = preferences.isUnreadable;
+        if (isUnreadable) {
+          narrow(f => !isUnreadable(basename(f.path)), 'readable name');
+        }
+        break;
+      }
+      case 'shortest-name':
+        pickBy(f => basename(f.path).length, 'shortest name');
+        break;
+      case 'oldest':
+        pickBy(f => f.modified.getTime(), 'oldest copy');
+        break;
+      case 'newest':
+        pickBy(f => -f.modified.getTime(), 'newest copy');
+        break;
+      case 'largest':
+        pickBy(f => -f.size, 'largest copy');
+        break;
+    }
+  }
+
+  if (reasons.length === 0) {
+    reasons.push('copies are equally good, kept the first');
+  }
+
+  const keep = remaining[0];
+
+  return {
+    keep,
+    remove: files.filter(f => f !== keep && !protectedFiles.includes(f)),
+    protected: protectedFiles.filter(f => f !== keep),
+    reasons,
+  };
+}
+
+async function hasExif(filePath: string): Promise<boolean> {
+  if (getFileCategory(basename(filePath)) !== 'image') {
+    return false;
+  }
+  const metadata = await analyzeImage(filePath);
+  return Boolean(metadata.dateTaken || metadata.camera);
+}
+
 function selectFileToKeep(
   files: DuplicateFile[],
   strategy: DeduplicateOptions['keepStrategy']
@@ -1,11 +1,24 @@
 import { basename, join } from 'path';
-import { unlink, rename } from 'fs/promises';
-import { platform, homedir } from 'os';
-import { exists, ensureDir } from '../utils/fs-safe.js';
+import { unlink, rm, stat, readdir } from 'fs/promises';
+import { exists, safeDelete, safeMove, removeTrashInfo } from '../utils/fs-safe.js';
+import type { Database } from '../storage/database.js';
 
 export interface DeleteOptions {
   toTrash?: boolean;
   permanent?: boolean;
+  // Record trashed files so they can be restored in a later run
+  db?: Database;
+}
+
+export interface TrashEntry {
+  id: number;
+  name: string;
+  originalName: string;
+  originalPath: string;
+  trashPath: string;
+  deletedAt: Date;
+  size: number;
+  operationId: number | null;
 }
 
 export interface DeleteResult {
@@ -42,7 +55,7 @@ export async function deleteFile(
     }
 
     // Move to trash
-    const trashPath = await moveToTrash(path);
+    const trashPath = await moveToTrash(path, options.db);
 
     return {
       success: true,
@@ -72,159 +85,149 @@ export async function deleteFiles(
   return results;
 }
 
-async function moveToTrash(filePath: string): Promise<string> {
-  const trashDir = getTrashDirectory();
-  await ensureDir(trashDir);
-
-  const filename = basename(filePath);
-  const timestamp = Date.now();
-  const trashPath = join(trashDir, `${timestamp}-${filename}`);
-
-  // Try atomic rename first
-  try {
-    await rename(filePath, trashPath);
-  } catch (error) {
-    // Cross-device: copy then delete would be needed
-    // For simplicity, just throw the error
-    throw error;
-  }
-
-  return trashPath;
-}
-
-function getTrashDirectory(): string {
-  const os = platform();
-
-  if (os === 'darwin') {
-    // macOS
-    return join(homedir(), '.Trash');
+async function moveToTrash(filePath: string, db?: Database): Promise<string> {
+  const trashInfo = await safeDelete(filePath, true);
+  if (!trashInfo) {
+    throw new Error('File does not exist');
   }
 
-  if (os === 'linux') {
-    // Linux - follow XDG spec
-    const xdgDataHome = process.env.XDG_DATA_HOME || join(homedir(), '.local', 'share');
-    return join(xdgDataHome, 'Trash', 'files');
-  }
-
-  if (os === 'win32') {
-    // Windows - use app-specific trash
-    return join(homedir(), '.sortora-trash');
-  }
+  db?.insertTrashEntry({
+    originalPath: filePath,
+    trashPath: trashInfo.trashPath,
+    deletedAt: Math.floor(trashInfo.timestamp / 1000),
+  });
 
-  // Fallback
-  return join(homedir(), '.sortora-trash');
+  return trashInfo.trashPath;
 }
 
-export async function emptyTrash(): Promise<{ deleted: number; errors: string[] }> {
-  const trashDir = getTrashDirectory();
-
-  if (!await exists(trashDir)) {
-    return { deleted: 0, errors: [] };
-  }
-
-  const { readdir } = await import('fs/promises');
-  const files = await readdir(trashDir);
+/**
+ * Permanently delete what sortora moved to the trash, optionally only
+ * entries trashed before a date. Other files in the trash are left alone.
+ */
+export async function emptyTrash(
+  db: Database,
+  options: { olderThan?: Date } = {}
+): Promise<{ deleted: number; freed: number; errors: string[] }> {
+  const { files } = await getTrashContents(db);
+  const cutoff = options.olderThan?.getTime() ?? Infinity;
 
   let deleted = 0;
+  let freed = 0;
   const errors: string[] = [];
 
-  for (const file of files) {
-    const filePath = join(trashDir, file);
+  for (const entry of files) {
+    if (entry.deletedAt.getTime() >= cutoff) continue;
 
     try {
-      await unlink(filePath);
+      await rm(entry.trashPath, { recursive: true, force: true });
+      await removeTrashInfo(entry.trashPath);
+      db.deleteTrashEntry(entry.id);
       deleted++;
+      freed += entry.size;
     } catch (error) {
-      errors.push(`${file}: ${error instanceof Error ? error.message : 'Unknown error'}`);
+      errors.push(`${entry.name}: ${error instanceof Error ? error.message : 'Unknown error'}`);
     }
   }
 
-  return { deleted, errors };
+  return { deleted, freed, errors };
 }
 
-export async function getTrashContents(): Promise<{
-  files: { name: string; originalName: string; deletedAt: Date }[];
+/**
+ * Files sortora moved to the trash, newest first. Entries whose file was
+ * removed from the trash some other way are forgotten.
+ */
+export async function getTrashContents(db: Database): Promise<{
+  files: TrashEntry[];
   totalSize: number;
 }> {
-  const trashDir = getTrashDirectory();
-
-  if (!await exists(trashDir)) {
-    return { files: [], totalSize: 0 };
-  }
-
-  const { readdir, stat } = await import('fs/promises');
-  const entries = await readdir(trashDir);
-
-  const files: { name: string; originalName: string; deletedAt: Date }[] = [];
+  const files: TrashEntry[] = [];
   let totalSize = 0;
 
-  for (const entry of entries) {
-    const filePath = join(trashDir, entry);
-
+  for (const record of db.getTrashEntries()) {
+    let size: number;
     try {
-      const stats = await stat(filePath);
-      totalSize += stats.size;
-
-      // Parse timestamp and original name from trash filename
-      const match = entry.match(/^(\d+)-(.+)$/);
-      if (match) {
-        const timestamp = parseInt(match[1]);
-        const originalName = match[2];
-
-        files.push({
-          name: entry,
-          originalName,
-          deletedAt: new Date(timestamp),
-        });
-      } else {
-        files.push({
-          name: entry,
-          originalName: entry,
-          deletedAt: stats.mtime,
-        });
-      }
+      size = await getSize(record.trashPath);
     } catch {
-      // Skip inaccessible files
+      db.deleteTrashEntry(record.id);
+      continue;
     }
-  }
 
-  // Sort by deletion date, newest first
-  files.sort((a, b) => b.deletedAt.getTime() - a.deletedAt.getTime());
+    totalSize += size;
+    files.push({
+      id: record.id,
+      name: basename(record.trashPath),
+      originalName: basename(record.originalPath),
+      originalPath: record.originalPath,
+      trashPath: record.trashPath,
+      deletedAt: new Date(record.deletedAt * 1000),
+      size,
+      operationId: record.operationId,
+    });
+  }
 
   return { files, totalSize };
 }
 
+async function getSize(path: string): Promise<number> {
+  const stats = await stat(path);
+  if (!stats.isDirectory()) {
+    return stats.size;
+  }
+
+  let total = 0;
+  for (const entry of await readdir(path)) {
+    total += await getSize(join(path, entry));
+  }
+  return total;
+}
+
+/**
+ * Put a trashed file back where it was, or at `destination`. The delete
+ * operation that trashed it is marked as undone.
+ */
 export async function restoreFromTrash(
-  trashFilename: string,
-  destination: string
+  db: Database,
+  entryId: number,
+  destination?: string
 ): Promise<DeleteResult> {
-  const trashDir = getTrashDirectory();
-  const trashPath = join(trashDir, trashFilename);
+  const entry = db.getTrashEntry(entryId);
+
+  if (!entry) {
+    return {
+      success: false,
+      path: String(entryId),
+      error: 'No such trash entry',
+    };
+  }
 
   try {
-    if (!await exists(trashPath)) {
+    if (!await exists(entry.trashPath)) {
+      db.deleteTrashEntry(entry.id);
       return {
         success: false,
-        path: trashPath,
+        path: entry.trashPath,
         error: 'File not found in trash',
       };
     }
 
-    // Ensure destination directory exists
-    const { dirname } = await import('path');
-    await ensureDir(dirname(destination));
+    // safeMove picks a new name if something took the original place
+    const restoredPath = await safeMove(entry.trashPath, destination ?? entry.originalPath);
 
-    // Move from trash to destination
-    await rename(trashPath, destination);
+    await removeTrashInfo(entry.trashPath);
+    db.deleteTrashEntry(entry.id);
+    if (entry.operationId) {
+      db.markOperationUndone(entry.operationId);
+    }
 
     return {
       success: true,
-      path: destination,
+      path: restoredPath,
+      trashPath: entry.trashPath,
     };
   } catch (error) {
     return {
       success: false,
-      path: trashPath,
+      path: entry.trashPath,
       error: error instanceof Error ? error.message : 'Unknown error',
     };
   }
@@ -0,0 +1,131 @@
+import { dirname, basename, join } from 'path';
+import { link, symlink, copyFile, rename, unlink, lstat, stat, constants } from 'fs/promises';
+import { exists } from '../utils/fs-safe.js';
+import { hashFile } from '../utils/file-hash.js';
+
+export type LinkMode = 'hard' | 'symlink' | 'reflink';
+
+export const LINK_MODES: LinkMode[] = ['hard', 'symlink', 'reflink'];
+
+export interface LinkResult {
+  success: boolean;
+  path: string;
+  target: string;
+  // Bytes no longer stored twice
+  saved: number;
+  // Set when the file was left as it was
+  skipped?: string;
+  error?: string;
+}
+
+// Errors meaning the filesystem can't make this kind of link here
+const UNSUPPORTED_CODES: Record<string, string> = {
+  EXDEV: 'on a different filesystem',
+  ENOTSUP: 'not supported by the filesystem',
+  EOPNOTSUPP: 'not supported by the filesystem',
+  ENOSYS: 'not supported by the filesystem',
+  EPERM: 'not permitted by the filesystem',
+  EMLINK: 'too many links to the file',
+};
+
+/**
+ * Replace a duplicate with a link to the copy that is kept. The link is made
+ * next to the duplicate and renamed over it, so the duplicate is only gone
+ * once the link exists; if the link can't be made, the duplicate is left as is.
+ * The contents are compared right before linking, since either file may have
+ * changed since the duplicates were found.
+ */
+export async function linkFile(
+  path: string,
+  target: string,
+  mode: LinkMode
+): Promise<LinkResult> {
+  const result: LinkResult = { success: false, path, target, saved: 0 };
+
+  try {
+    if (!await exists(path) || !await exists(target)) {
+      return { ...result, error: 'File does not exist' };
+    }
+
+    const [pathStats, targetStats] = await Promise.all([lstat(path), stat(target)]);
+
+    if (pathStats.isSymbolicLink() || (pathStats.dev === targetStats.dev && pathStats.ino === targetStats.ino)) {
+      return { ...result, skipped: 'already linked' };
+    }
+    if (pathStats.size !== targetStats.size) {
+      return { ...result, error: 'Files differ in size' };
+    }
+
+    const [pathHash, targetHash] = await Promise.all([hashFile(path), hashFile(target)]);
+    if (pathHash !== targetHash) {
+      return { ...result, error: 'Files differ in content' };
+    }
+
+    const tempPath = join(dirname(path), `.${basename(path)}.sortora-link`);
+
+    try {
+      await makeLink(target, tempPath, mode);
+      await rename(tempPath, path);
+    } catch (error) {
+      await unlink(tempPath).catch(() => {});
+
+      const code = (error as NodeJS.ErrnoException).code;
+      if (code && UNSUPPORTED_CODES[code]) {
+        return { ...result, skipped: `${mode} link ${UNSUPPORTED_CODES[code]}` };
+      }
+      throw error;
+    }
+
+    return { ...result, success: true, saved: pathStats.size };
+  } catch (error) {
+    return {
+      ...result,
+      error: error instanceof Error ? error.message : 'Unknown error',
+    };
+  }
+}
+
+async function makeLink(target: string, linkPath: string, mode: LinkMode): Promise<void> {
+  switch (mode) {
+    case 'hard':
+      await link(target, linkPath);
+      break;
+    case 'symlink':
+      await symlink(target, linkPath);
+      break;
+    case 'reflink':
+      // Fails instead of silently making a full copy
+      await copyFile(target, linkPath, constants.COPYFILE_FICLONE_FORCE);
+      break;
+  }
+}
+
+/**
+ * Turn a link back into a file of its own. A symlink gets a copy of its
+ * target, a hard link a copy of the shared data; a reflink already is an
+ * independent file and is left alone.
+ */
+export async function unlinkFile(path: string, target: string): Promise<void> {
+  const info = await lstat(path);
+
+  let source: string;
+  if (info.isSymbolicLink()) {
+    if (!await exists(target)) {
+      throw new Error(`Linked file no longer exists: ${target}`);
+    }
+    source = target;
+  } else if (info.nlink > 1) {
+    source = path;
+  } else {
+    return;
+  }
+
+  const tempPath = join(dirname(path), `.${basename(path)}.sortora-unlink`);
+  try {
+    await copyFile(source, tempPath);
+    await rename(tempPath, path);
+  } catch (error) {
+    await unlink(tempPath).catch(() => {});
+    throw error;
+  }
+}
@@ -1,7 +1,12 @@
-import { rename, copyFile, unlink } from 'fs/promises';
-import { exists, ensureDir } from '../utils/fs-safe.js';
+import { unlink } from 'fs/promises';
+import { createReadStream, createWriteStream } from 'fs';
+import { pipeline } from 'stream/promises';
+import { createGunzip } from 'zlib';
+import { exists, ensureDir, safeMove, removeTrashInfo } from '../utils/fs-safe.js';
 import { dirname } from 'path';
 import { Database, type OperationRecord } from '../storage/database.js';
+import { PatternTracker } from '../learning/pattern-tracker.js';
+import { unlinkFile } from './link.js';
 
 export interface UndoResult {
   success: boolean;
@@ -10,7 +15,62 @@ export interface UndoResult {
   error?: string;
 }
 
+export interface UndoOptions {
+  // Learn from the undo; off for rollbacks, which say nothing about the rule
+  recordFeedback?: boolean;
+}
+
+// Operations whose destination says where a rule sent the file
+const PLACING_TYPES = ['move', 'rename', 'copy', 'archive'];
+
 export async function undoOperation(
+  db: Database,
+  operationId: number,
+  options: UndoOptions = {}
+): Promise<UndoResult> {
+  const result = await revertOperation(db, operationId);
+
+  if (result.success && options.recordFeedback !== false) {
+    recordUndoFeedback(db, db.getOperation(operationId)!);
+  }
+
+  return result;
+}
+
+/**
+ * Undoing an action chain is one undo of its rule, for where the chain put
+ * the file in the end. Its steps are reverted without feedback of their own.
+ */
+export function recordChainUndoFeedback(db: Database, chain: OperationRecord[]): void {
+  if (chain.length === 0) return;
+
+  // A copy leaves the file where it was
+  const placing = [...chain].reverse().find(op => PLACING_TYPES.includes(op.type) && op.type !== 'copy');
+  recordUndoFeedback(db, { ...(placing ?? chain[chain.length - 1]), source: chain[0].source });
+}
+
+/**
+ * An undone operation is negative feedback for the rule that made it and
+ * for the learned patterns that point to its destination
+ */
+function recordUndoFeedback(db: Database, operation: OperationRecord): void {
+  const placed = PLACING_TYPES.includes(operation.type) && operation.destination;
+
+  if (operation.ruleName) {
+    db.insertRuleFeedback({
+      ruleName: operation.ruleName,
+      type: 'undo',
+      filePath: operation.source,
+      destination: placed ? operation.destination : null,
+    });
+  }
+
+  if (placed && operation.type !== 'copy') {
+    new PatternTracker(db).trackUndo(operation.source, operation.destination!);
+  }
+}
+
+async function revertOperation(
   db: Database,
   operationId: number
 ): Promise<UndoResult> {
@@ -48,6 +108,15 @@ export async function undoOperation(
       case 'delete':
         return await undoDelete(db, operation);
 
+      case 'archive':
+        return await undoArchive(db, operation);
+
+      case 'tag':
+        return undoTag(db, operation);
+
+      case 'link':
+        return await undoLink(db, operation);
+
       default:
         return {
           success: false,
@@ -91,20 +160,17 @@ async function undoMove(
     };
   }
 
-  // Ensure original directory exists
-  await ensureDir(dirname(source));
-
   // Move back to original location
-  await rename(destination, source);
+  const restoredPath = await safeMove(destination, source);
 
   // Update database
   db.markOperationUndone(id);
-  db.updateFilePath(destination, source);
+  db.updateFilePath(destination, restoredPath);
 
   return {
     success: true,
     operationId: id,
-    type: 'move',
+    type: operation.type,
   };
 }
 
@@ -184,14 +250,16 @@ async function undoDelete(
 
   const { source } = operation;
 
-  // Ensure original directory exists
-  await ensureDir(dirname(source));
-
   // Restore from trash
-  await rename(destination, source);
+  await safeMove(destination, source);
+  await removeTrashInfo(destination);
 
   // Update database
   db.markOperationUndone(id);
+  const entry = db.getTrashEntryByPath(destination);
+  if (entry) {
+    db.deleteTrashEntry(entry.id);
+  }
 
   return {
     success: true,
@@ -200,6 +268,101 @@ async function undoDelete(
   };
 }
 
+async function undoArchive(
+  db: Database,
+  operation: OperationRecord
+): Promise<UndoResult> {
+  const { id, source, destination } = operation;
+
+  // Archives made without compression are plain moves
+  if (!destination || !operation.compressed) {
+    return undoMove(db, operation);
+  }
+
+  if (!await exists(destination)) {
+    return {
+      success: false,
+      operationId: id,
+      type: 'archive',
+      error: 'Archive no longer exists',
+    };
+  }
+
+  // The original is only missing if it was deleted after compressing
+  if (!await exists(source)) {
+    await ensureDir(dirname(source));
+    await pipeline(
+      createReadStream(destination),
+      createGunzip(),
+      createWriteStream(source)
+    );
+  }
+
+  await unlink(destination);
+  db.markOperationUndone(id);
+
+  return {
+    success: true,
+    operationId: id,
+    type: 'archive',
+  };
+}
+
+function undoTag(
+  db: Database,
+  operation: OperationRecord
+): UndoResult {
+  const { id, source, destination } = operation;
+
+  // destination holds the tags that were added
+  if (destination) {
+    db.removeTags(source, destination.split(','));
+  }
+  db.markOperationUndone(id);
+
+  return {
+    success: true,
+    operationId: id,
+    type: 'tag',
+  };
+}
+
+async function undoLink(
+  db: Database,
+  operation: OperationRecord
+): Promise<UndoResult> {
+  const { id, source, destination } = operation;
+
+  // destination is the kept copy the duplicate was linked to
+  if (!destination) {
+    return {
+      success: false,
+      operationId: id,
+      type: 'link',
+      error: 'No link target recorded',
+    };
+  }
+
+  if (!await exists(source)) {
+    return {
+      success: false,
+      operationId: id,
+      type: 'link',
+      error: 'Linked file no longer exists',
+    };
+  }
+
+  // Give the duplicate its own copy of the data again
+  await unlinkFile(source, destination);
+  db.markOperationUndone(id);
+
+  return {
+    success: true,
+    operationId: id,
+    type: 'link',
+  };
+}
+
 export async function undoLast(db: Database): Promise<UndoResult | null> {
   const operations = db.getOperations(1);
 
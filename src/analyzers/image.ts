@@ -108,6 +108,32 @@ export async function analyzeImage(filePath: string): Promise<ImageMetadata> {
   return metadata;
 }
 
+/**
+ * Difference hash (dHash) of an image as 16 hex digits. Resized,
+ * recompressed or re-encoded copies of a picture get the same or a very
+ * close hash; compare with hammingDistance.
+ */
+export async function computeDHash(filePath: string): Promise<string> {
+  // 9x8 grayscale pixels give 8 left/right comparisons per row
+  const pixels = await sharp(filePath)
+    .rotate()
+    .grayscale()
+    .resize(9, 8, { fit: 'fill' })
+    .raw()
+    .toBuffer();
+
+  let hash = 0n;
+  for (let y = 0; y < 8; y++) {
+    for (let x = 0; x < 8; x++) {
+      const left = pixels[y * 9 + x];
+      const right = pixels[y * 9 + x + 1];
+      hash = (hash << 1n) | (left < right ? 1n : 0n);
+    }
+  }
+
+  return hash.toString(16).padStart(16, '0');
+}
+
 function convertGPSCoord(coord: number[]): number {
   if (!coord || coord.length < 3) return NaN;
   const [degrees, minutes, seconds] = coord;
@@ -0,0 +1,221 @@
+import { Command } from 'commander';
+import chalk from 'chalk';
+import { existsSync, readFileSync } from 'fs';
+import { basename } from 'path';
+
+import { loadConfig, getAppPaths, expandPath, type AppPaths, type Config } from '../config.js';
+import { watchDirectories } from '../core/watcher.js';
+import { getDaemonStatus, startDaemon, stopDaemon, writePidFile, removePidFile } from '../core/daemon.js';
+import { getServiceCommand, installService, uninstallService, getInstalledService } from '../core/service.js';
+import { Database } from '../storage/database.js';
+import { parseRulesFile } from '../rules/parser.js';
+import { formatDate } from '../ui/colors.js';
+import { reportWatchEvents } from './watch.js';
+
+export function registerDaemonCommand(program: Command): void {
+  program
+    .command('daemon')
+    .description('Watch the directories from the config in the background')
+    .argument('[action]', 'start, stop, status, run (in the foreground), install, uninstall')
+    .option('--lines <n>', 'Log lines to show with status', '10')
+    .option('--cron', 'Install as a crontab @reboot entry instead of a systemd service')
+    .action(async (action, options) => {
+      const config = loadConfig();
+      const paths = getAppPaths();
+
+      if (!action || action === 'status') {
+        printStatus(config, paths, parseInt(options.lines, 10) || 0);
+        return;
+      }
+
+      if (action === 'start') {
+        const status = getDaemonStatus(paths.daemonPidFile);
+        if (status.running) {
+          console.log(chalk.yellow(`\n  The daemon is already running (PID ${status.pid}).\n`));
+          return;
+        }
+
+        if (config.watch.directories.length === 0) {
+          console.error(chalk.red('\n  No directories to watch. Add them to the watch section of the config.\n'));
+          process.exit(1);
+        }
+
+        const pid = startDaemon(paths);
+        console.log(chalk.green(`\n  Daemon started (PID ${pid}), watching ${config.watch.directories.length} director${config.watch.directories.length === 1 ? 'y' : 'ies'}.`));
+        console.log(chalk.dim(`  Log: ${paths.daemonLogFile}\n`));
+        return;
+      }
+
+      if (action === 'stop') {
+        const status = getDaemonStatus(paths.daemonPidFile);
+        if (!status.running) {
+          console.log(chalk.yellow('\n  The daemon is not running.\n'));
+          return;
+        }
+
+        if (await stopDaemon(paths.daemonPidFile)) {
+          console.log(chalk.green(`\n  Daemon stopped (PID ${status.pid}).\n`));
+        } else {
+          console.error(chalk.red(`\n  The daemon (PID ${status.pid}) did not stop in time.\n`));
+          process.exitCode = 1;
+        }
+        return;
+      }
+
+      if (action === 'run') {
+        await runDaemon(config, paths);
+        return;
+      }
+
+      if (action === 'install') {
+        if (config.watch.directories.length === 0) {
+          console.error(chalk.red('\n  No directories to watch. Add them to the watch section of the config.\n'));
+          process.exit(1);
+        }
+
+        // The service starts its own daemon
+        const status = getDaemonStatus(paths.daemonPidFile);
+        if (status.running) {
+          await stopDaemon(paths.daemonPidFile);
+        }
+
+        try {
+          const result = installService(getServiceCommand(paths), {
+            method: options.cron ? 'cron' : undefined,
+          });
+
+          if (result.method === 'systemd') {
+            console.log(chalk.green('\n  Installed and started the systemd user service.'));
+            console.log(chalk.dim(`  Unit: ${result.location}`));
+          } else {
+            console.log(chalk.green('\n  Added a crontab entry that starts the daemon after a reboot.'));
+            if (!options.cron) {
+              console.log(chalk.dim('  systemd is not available for this user.'));
+            }
+            const pid = startDaemon(paths);
+            console.log(chalk.dim(`  Daemon started (PID ${pid}).`));
+          }
+          console.log(chalk.dim(`  Config: ${paths.configFile}\n`));
+        } catch (error) {
+          console.error(chalk.red(`\n  Install failed: ${error instanceof Error ? error.message : error}\n`));
+          process.exit(1);
+        }
+        return;
+      }
+
+      if (action === 'uninstall') {
+        try {
+          const removed = uninstallService();
+          if (removed.length === 0) {
+            console.log(chalk.yellow('\n  No service is installed.\n'));
+            return;
+          }
+
+          await stopDaemon(paths.daemonPidFile);
+          console.log(chalk.green('\n  Removed the service:'));
+          for (const location of removed) {
+            console.log(chalk.dim(`  ${location}`));
+          }
+          console.log();
+        } catch (error) {
+          console.error(chalk.red(`\n  Uninstall failed: ${error instanceof Error ? error.message : error}\n`));
+          process.exit(1);
+        }
+        return;
+      }
+
+      console.log(chalk.yellow('\n  Unknown action. Use: start, stop, status, run, install, uninstall\n'));
+    });
+}
+
+function printStatus(config: Config, paths: AppPaths, lines: number): void {
+  const status = getDaemonStatus(paths.daemonPidFile);
+
+  console.log(chalk.bold('\n  Sortora daemon:\n'));
+  if (status.running) {
+    console.log(chalk.green('  Running') + chalk.dim(` (PID ${status.pid}, since ${formatDate(status.startedAt!)})`));
+  } else {
+    console.log(chalk.yellow('  Not running'));
+  }
+
+  const service = getInstalledService();
+  if (service) {
+    const location = service.method === 'systemd' ? service.location : 'crontab @reboot';
+    console.log(chalk.dim(`  Starts at login: ${location}`));
+  }
+
+  console.log(chalk.bold('\n  Directories:\n'));
+  if (config.watch.directories.length === 0) {
+    console.log(chalk.dim('  None. Add them to the watch section of the config.'));
+  }
+  for (const directory of config.watch.directories) {
+    const details = [directory.mode, `min confidence ${directory.minConfidence}`];
+    if (directory.rules) {
+      details.push(`rules: ${directory.rules.join(', ')}`);
+    }
+    console.log(`  ${chalk.cyan(expandPath(directory.path))}` + chalk.dim(` (${details.join(', ')})`));
+  }
+
+  console.log(chalk.dim(`\n  Log: ${paths.daemonLogFile}`));
+  if (lines > 0 && existsSync(paths.daemonLogFile)) {
+    const tail = readFileSync(paths.daemonLogFile, 'utf-8').trimEnd().split('\n').slice(-lines);
+    console.log();
+    for (const line of tail) {
+      console.log(chalk.dim(`  ${line}`));
+    }
+  }
+  console.log();
+}
+
+/**
+ * Watch all configured directories from this process until it is told to
+ * stop. "daemon start" runs this in the background.
+ */
+async function runDaemon(config: Config, paths: AppPaths): Promise<void> {
+  const status = getDaemonStatus(paths.daemonPidFile);
+  if (status.running && status.pid !== process.pid) {
+    console.error(`Another daemon is already running (PID ${status.pid}).`);
+    process.exit(1);
+  }
+
+  const directories = config.watch.directories;
+  if (directories.length === 0) {
+    console.error('No directories in the watch section of the config.');
+    process.exit(1);
+  }
+
+  writePidFile(paths.daemonPidFile, process.pid);
+
+  const db = new Database(paths.databaseFile);
+  await db.init();
+
+  const watchers = await watchDirectories(
+    directories,
+    db,
+    config,
+    paths.modelsDir,
+    parseRulesFile(paths.rulesFile),
+    (watcher, directory) => reportWatchEvents(watcher, {
+      label: basename(expandPath(directory.path)),
+      fullTime: true,
+    })
+  );
+
+  console.log(`${new Date().toISOString()} | Daemon started (PID ${process.pid})`);
+  for (const directory of directories) {
+    console.log(`${new Date().toISOString()} | Watching ${expandPath(directory.path)} (${directory.mode})`);
+  }
+
+  const shutdown = (signal: string) => {
+    for (const watcher of watchers) {
+      watcher.stop();
+    }
+    db.close();
+    removePidFile(paths.daemonPidFile, process.pid);
+    console.log(`${new Date().toISOString()} | Daemon stopped (${signal})`);
+    process.exit(0);
+  };
+
+  process.on('SIGTERM', () => shutdown('SIGTERM'));
+  process.on('SIGINT', () => shutdown('SIGINT'));
+}
@@ -2,20 +2,37 @@ import { Command } from 'commander';
 import chalk from 'chalk';
 import ora from 'ora';
 import inquirer from 'inquirer';
-import { resolve } from 'path';
+import { resolve, sep } from 'path';
 import { existsSync } from 'fs';
 
-import { getAppPaths, expandPath } from '../config.js';
+import { loadConfig, getAppPaths, expandPath, type Config } from '../config.js';
 import { Scanner } from '../core/scanner.js';
-import { Analyzer } from '../core/analyzer.js';
 import { Executor } from '../core/executor.js';
 import { Database } from '../storage/database.js';
+import {
+  findDuplicates,
+  findSimilarImages,
+  findDuplicateFolders,
+  calculateWastedSpace,
+  decideKeep,
+  type KeepPreferences,
+} from '../actions/deduplicate.js';
+import { LINK_MODES, type LinkMode } from '../actions/link.js';
+import { SmartRenamer } from '../ai/smart-renamer.js';
+import { getFileCategory } from '../utils/mime.js';
+import { formatSize } from '../ui/colors.js';
 
 export function registerDuplicatesCommand(program: Command): void {
   program
     .command('duplicates <path>')
     .description('Find and manage duplicate files')
     .option('--clean', 'Remove duplicates interactively')
+    .option('--auto', 'With --clean or --link, go ahead without asking, keeping the preferred copy')
+    .option('--link <mode>', 'Replace duplicates with links to the kept copy (hard, symlink, reflink)')
+    .option('--similar-images', 'Find resized or recompressed copies of the same picture')
+    .option('--threshold <n>', 'Differing hash bits (0-64) still counted as similar', '10')
+    .option('--folders', 'Find folders with the same content')
+    .option('--min-overlap <percent>', 'With --folders, smallest share of files in common', '95')
     .action(async (targetPath, options) => {
       const fullPath = resolve(expandPath(targetPath));
 
@@ -24,8 +41,18 @@ export function registerDuplicatesCommand(program: Command): void {
         process.exit(1);
       }
 
+      if (options.link && !LINK_MODES.includes(options.link)) {
+        console.error(chalk.red(`Invalid link mode "${options.link}": use ${LINK_MODES.join(', ')}.`));
+        process.exit(1);
+      }
+      if (options.link && (options.similarImages || options.folders)) {
+        console.error(chalk.red('--link only works for duplicate files, not similar images or folders.'));
+        process.exit(1);
+      }
+
       console.log(chalk.bold(`\n  Finding duplicates in ${chalk.cyan(fullPath)}...\n`));
 
+      const config = loadConfig();
       const paths = getAppPaths();
       const db = new Database(paths.databaseFile);
 
@@ -38,51 +65,57 @@ export function registerDuplicatesCommand(program: Command): void {
         const files = await scanner.scan(fullPath, { recursive: true, findDuplicates: true });
         spinner.succeed(`Scanned ${files.length} files`);
 
-        const hashSpinner = ora('Computing file hashes...').start();
-        const analyzer = new Analyzer(paths.modelsDir);
-        const analyzed = await analyzer.analyzeMany(files);
-        hashSpinner.succeed('Hashes computed');
+        if (options.similarImages) {
+          const images = files.filter(f => getFileCategory(f.filename, f.mimeType ?? undefined) === 'image');
+          await handleSimilarImages(db, fullPath, images.map(f => f.path), config, options);
+          return;
+        }
 
-        const duplicates = scanner.findDuplicates(analyzed);
+        if (options.folders) {
+          const preferences = getKeepPreferences(config, paths.modelsDir);
+          await handleFolders(db, fullPath, files.map(f => f.path), preferences, options);
+          return;
+        }
+
+        // Same size, then same quick hash, then confirmed by full hash
+        const hashSpinner = ora('Comparing file contents...').start();
+        const duplicates = await findDuplicates(files.map(f => f.path), { db });
+        hashSpinner.succeed('Contents compared');
 
         if (duplicates.length === 0) {
           console.log(chalk.green('\n  No duplicates found!\n'));
           return;
         }
 
-        let totalSize = 0;
-        for (const group of duplicates) {
-          const wastedSize = group.files.slice(1).reduce((sum, f) => sum + f.size, 0);
-          totalSize += wastedSize;
-        }
+        const totalSize = calculateWastedSpace(duplicates);
 
         console.log(chalk.yellow(`\n  Found ${duplicates.length} duplicate groups`));
         console.log(chalk.yellow(`  ${(totalSize / 1024 / 1024).toFixed(1)} MB could be freed\n`));
 
+        const preferences = getKeepPreferences(config, paths.modelsDir);
+        const copies: { path: string; keep: string }[] = [];
+
         for (const group of duplicates) {
+          const decision = await decideKeep(group.files, preferences);
+          copies.push(...decision.remove.map(f => ({ path: f.path, keep: decision.keep.path })));
+
           console.log(chalk.bold(`\n  Hash: ${group.hash.slice(0, 12)}...`));
-          for (const file of group.files) {
+          console.log(chalk.green(`    ✓ ${decision.keep.path}`) + chalk.dim(` (${decision.reasons.join(', ')})`));
+          for (const file of decision.protected) {
+            console.log(chalk.cyan(`    ✓ ${file.path}`) + chalk.dim(' (protected folder)'));
+          }
+          for (const file of decision.remove) {
             console.log(chalk.dim(`    - ${file.path}`));
           }
         }
 
-        if (options.clean) {
-          const { confirm } = await inquirer.prompt([{
-            type: 'confirm',
-            name: 'confirm',
-            message: 'Remove duplicates (keep first of each)?',
-            default: false,
-          }]);
-
-          if (confirm) {
-            const executor = new Executor(db);
-            for (const group of duplicates) {
-              for (const file of group.files.slice(1)) {
-                await executor.delete(file.path, true);
-                console.log(chalk.red(`  Deleted: ${file.path}`));
-              }
-            }
-            console.log(chalk.green('\n  Duplicates removed!\n'));
+        if (options.link && copies.length > 0) {
+          if (await confirmRemoval(options, `Replace duplicates with ${options.link} links to the ✓ copy of each?`)) {
+            await linkFiles(db, fullPath, copies, options.link);
+          }
+        } else if (options.clean && copies.length > 0) {
+          if (await confirmRemoval(options, 'Remove duplicates (keep the ✓ copy of each)?')) {
+            await removeFiles(db, fullPath, copies.map(f => f.path));
           }
         }
       } catch (error) {
@@ -94,3 +127,243 @@ export function registerDuplicatesCommand(program: Command): void {
       }
     });
 }
+
+async function handleSimilarImages(
+  db: Database,
+  fullPath: string,
+  images: string[],
+  config: Config,
+  options: { threshold: string; clean?: boolean; auto?: boolean }
+): Promise<void> {
+  const threshold = parseInt(options.threshold, 10);
+  if (isNaN(threshold) || threshold < 0 || threshold > 64) {
+    console.error(chalk.red(`Invalid threshold "${options.threshold}": use a number of bits from 0 to 64.`));
+    process.exitCode = 1;
+    return;
+  }
+
+  const spinner = ora(`Comparing ${images.length} images...`).start();
+  const groups = await findSimilarImages(images, { threshold, db });
+  spinner.succeed('Images compared');
+
+  if (groups.length === 0) {
+    console.log(chalk.green('\n  No similar images found!\n'));
+    return;
+  }
+
+  // Copies in protected folders are never deleted
+  const protectedDirs = config.duplicates.protected.map(expandPath);
+  const isProtected = (path: string) => protectedDirs.some(dir => path.startsWith(dir + sep));
+  const copies = groups.flatMap(group => group.files.filter(f => !f.isOriginal && !isProtected(f.path)));
+  const totalSize = copies.reduce((sum, f) => sum + f.size, 0);
+
+  console.log(chalk.yellow(`\n  Found ${groups.length} groups of similar images`));
+  console.log(chalk.yellow(`  ${formatSize(totalSize)} could be freed by keeping the highest resolution of each\n`));
+
+  for (const [index, group] of groups.entries()) {
+    console.log(chalk.bold(`\n  Group ${index + 1}:`));
+    for (const file of group.files) {
+      const details = chalk.dim(` (${file.width}x${file.height}, ${formatSize(file.size)})`);
+      let line = chalk.dim(`    - ${file.path}`) + details;
+      if (file.isOriginal) {
+        line = chalk.green(`    ✓ ${file.path}`) + details + chalk.green(' keep, highest resolution');
+      } else if (isProtected(file.path)) {
+        line = chalk.cyan(`    ✓ ${file.path}`) + details + chalk.dim(' protected folder');
+      }
+      console.log(line);
+    }
+  }
+
+  if (options.clean && copies.length > 0) {
+    if (await confirmRemoval(options, 'Remove similar copies (keep the highest resolution of each)?')) {
+      await removeFiles(db, fullPath, copies.map(f => f.path));
+    }
+  }
+}
+
+async function handleFolders(
+  db: Database,
+  fullPath: string,
+  files: string[],
+  preferences: KeepPreferences,
+  options: { minOverlap: string; clean?: boolean; auto?: boolean }
+): Promise<void> {
+  const minOverlap = parseFloat(options.minOverlap);
+  if (isNaN(minOverlap) || minOverlap <= 0 || minOverlap > 100) {
+    console.error(chalk.red(`Invalid overlap "${options.minOverlap}": use a percentage from 1 to 100.`));
+    process.exitCode = 1;
+    return;
+  }
+
+  const spinner = ora('Comparing folders...').start();
+  const pairs = await findDuplicateFolders(files, {
+    root: fullPath,
+    minOverlap: minOverlap / 100,
+    preferences,
+    db,
+  });
+  spinner.succeed('Folders compared');
+
+  if (pairs.length === 0) {
+    console.log(chalk.green('\n  No duplicate folders found!\n'));
+    return;
+  }
+
+  // A copy is only removed when every file in it is also in a folder that stays
+  const protectedDirs = preferences.protected ?? [];
+  const isProtected = (path: string) => protectedDirs.some(dir => path === dir || path.startsWith(dir + sep));
+  const within = (path: string, dirs: string[]) => dirs.some(dir => path === dir || path.startsWith(dir + sep));
+  const toRemove: string[] = [];
+  let totalSize = 0;
+
+  for (const { keep, copy } of pairs) {
+    if (copy.unique === 0 && !isProtected(copy.path) && !within(copy.path, toRemove) && !within(keep.path, toRemove)) {
+      toRemove.push(copy.path);
+      totalSize += copy.size;
+    }
+  }
+
+  console.log(chalk.yellow(`\n  Found ${pairs.length} duplicate folder(s)`));
+  console.log(chalk.yellow(`  ${formatSize(totalSize)} could be freed\n`));
+
+  for (const { keep, copy, overlap, reasons } of pairs) {
+    const similarity = copy.unique === 0 && keep.unique === 0 ? 'identical' : `${Math.round(overlap * 100)}% the same`;
+
+    console.log(chalk.bold(`\n  ${similarity}, ${copy.files} files, ${formatSize(copy.size)}`));
+    console.log(chalk.green(`    ✓ ${keep.path}`) + chalk.dim(` (${reasons.join(', ')})`));
+
+    if (toRemove.includes(copy.path)) {
+      console.log(chalk.dim(`    - ${copy.path}`));
+    } else if (copy.unique > 0) {
+      console.log(chalk.yellow(`    ! ${copy.path}`) + chalk.dim(` (${copy.unique} file(s) only here, review it yourself)`));
+    } else if (isProtected(copy.path)) {
+      console.log(chalk.cyan(`    ✓ ${copy.path}`) + chalk.dim(' (protected folder)'));
+    } else if (within(copy.path, toRemove)) {
+      console.log(chalk.dim(`    - ${copy.path} (inside a folder that is removed)`));
+    } else {
+      console.log(chalk.green(`    ✓ ${copy.path}`) + chalk.dim(' (kept, the other copy is removed)'));
+    }
+  }
+
+  if (options.clean && toRemove.length > 0) {
+    if (await confirmRemoval(options, 'Move the duplicate folders (-) to the trash?')) {
+      await removeFiles(db, fullPath, toRemove);
+    }
+  }
+}
+
+function getKeepPreferences(config: Config, modelsDir: string): KeepPreferences {
+  const renamer = new SmartRenamer(modelsDir);
+  const destinations = Object.entries(config.destinations)
+    .filter(([name]) => name !== 'trash')
+    .map(([, dir]) => expandPath(dir));
+
+  return {
+    order: config.duplicates.keep,
+    destinations,
+    avoid: config.duplicates.avoid.map(expandPath),
+    protected: config.duplicates.protected.map(expandPath),
+    isUnreadable: filename => renamer.isUnreadable(filename),
+  };
+}
+
+async function confirmRemoval(options: { auto?: boolean }, message: string): Promise<boolean> {
+  // --auto applies the keep preferences without asking
+  if (options.auto) {
+    return true;
+  }
+
+  const { confirm } = await inquirer.prompt([{
+    type: 'confirm',
+    name: 'confirm',
+    message,
+    default: false,
+  }]);
+  return confirm;
+}
+
+/**
+ * Move duplicates to the trash as one session, so they can be restored
+ * with "sortora undo --session". A folder is moved as a whole, as one
+ * operation.
+ */
+async function removeFiles(db: Database, fullPath: string, files: string[]): Promise<void> {
+  const sessionId = db.startSession({
+    command: 'duplicates',
+    commandLine: process.argv.slice(2).join(' '),
+    path: fullPath,
+  });
+  const executor = new Executor(db, { sessionId });
+  let deleted = 0;
+  let failed = 0;
+
+  for (const file of files) {
+    const result = await executor.delete(file, true);
+    if (result.success) {
+      console.log(chalk.red(`  Deleted: ${file}`));
+      deleted++;
+    } else {
+      console.log(chalk.yellow(`  Failed: ${file} (${result.error})`));
+      failed++;
+    }
+  }
+
+  db.finishSession(sessionId, {
+    filesTotal: deleted + failed,
+    succeeded: deleted,
+    failed,
+    skipped: 0,
+  });
+  console.log(chalk.green('\n  Duplicates removed!\n'));
+  console.log(chalk.dim(`  Run "sortora undo --session ${sessionId}" to restore them.\n`));
+}
+
+/**
+ * Replace duplicates with links to the kept copy as one session. Files the
+ * link can't be made for stay as they are.
+ */
+async function linkFiles(
+  db: Database,
+  fullPath: string,
+  files: { path: string; keep: string }[],
+  mode: LinkMode
+): Promise<void> {
+  const sessionId = db.startSession({
+    command: 'duplicates',
+    commandLine: process.argv.slice(2).join(' '),
+    path: fullPath,
+  });
+  const executor = new Executor(db, { sessionId });
+  let linked = 0;
+  let skipped = 0;
+  let failed = 0;
+  let saved = 0;
+
+  for (const file of files) {
+    const result = await executor.link(file.path, file.keep, mode);
+    if (result.success) {
+      console.log(chalk.green(`  Linked: ${file.path}`) + chalk.dim(` → ${file.keep}`));
+      linked++;
+      saved += result.saved ?? 0;
+    } else if (result.skipped) {
+      console.log(chalk.yellow(`  Kept: ${file.path} (${result.skipped})`));
+      skipped++;
+    } else {
+      console.log(chalk.yellow(`  Failed: ${file.path} (${result.error})`));
+      failed++;
+    }
+  }
+
+  db.finishSession(sessionId, {
+    filesTotal: files.length,
+    succeeded: linked,
+    failed,
+    skipped,
+  });
+
+  console.log(chalk.green(`\n  Linked ${linked} duplicate(s), saving ${formatSize(saved)}.`));
+  if (skipped > 0) {
+    console.log(chalk.dim(`  ${skipped} duplicate(s) couldn't be linked and were left in place.`));
+  }
+  console.log(chalk.dim(`  Run "sortora undo --session ${sessionId}" to turn them back into separate files.\n`));
+}
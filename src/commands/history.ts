@@ -0,0 +1,84 @@
+import { Command } from 'commander';
+import chalk from 'chalk';
+
+import { getAppPaths } from '../config.js';
+import { Database } from '../storage/database.js';
+import { renderSessionsTable, renderOperationsTable } from '../ui/table.js';
+import { formatDate } from '../ui/colors.js';
+
+export function registerHistoryCommand(program: Command): void {
+  program
+    .command('history')
+    .description('Show past organize, rename, duplicates and watch sessions')
+    .argument('[session]', 'Session ID to show operations for')
+    .option('--limit <n>', 'Number of sessions to show', '20')
+    .option('--json', 'Output as JSON')
+    .action(async (sessionArg, options) => {
+      const paths = getAppPaths();
+      const db = new Database(paths.databaseFile);
+
+      try {
+        await db.init();
+
+        if (sessionArg) {
+          const sessionId = parseInt(sessionArg, 10);
+          const session = db.getSession(sessionId);
+
+          if (!session) {
+            console.log(chalk.red(`\n  Session #${sessionArg} not found.\n`));
+            return;
+          }
+
+          const operations = db.getSessionOperations(sessionId);
+
+          if (options.json) {
+            console.log(JSON.stringify({ ...session, operations }, null, 2));
+            return;
+          }
+
+          console.log(chalk.bold(`\n  Session #${session.id}: ${session.command}`));
+          if (session.commandLine) {
+            console.log(chalk.dim(`  sortora ${session.commandLine}`));
+          }
+          if (session.path) {
+            console.log(chalk.dim(`  Path: ${session.path}`));
+          }
+          console.log(chalk.dim(`  Started: ${formatDate(session.startedAt)}`));
+          console.log(chalk.dim(`  Finished: ${session.finishedAt ? formatDate(session.finishedAt) : 'not finished'}`));
+          console.log(`  ${chalk.green(`${session.succeeded} done`)}, ${chalk.red(`${session.failed} failed`)}, ${chalk.yellow(`${session.skipped} skipped`)}\n`);
+
+          if (operations.length === 0) {
+            console.log(chalk.yellow('  No operations recorded.\n'));
+            return;
+          }
+
+          renderOperationsTable(operations);
+          console.log(chalk.dim(`\n  Run "sortora undo --session ${session.id}" to revert this session.\n`));
+          return;
+        }
+
+        const limit = parseInt(options.limit, 10) || 20;
+        const sessions = db.getSessions(limit);
+
+        if (options.json) {
+          console.log(JSON.stringify(sessions, null, 2));
+          return;
+        }
+
+        if (sessions.length === 0) {
+          console.log(chalk.yellow('\n  No sessions recorded yet.\n'));
+          return;
+        }
+
+        console.log(chalk.bold('\n  Recent sessions:\n'));
+        renderSessionsTable(sessions);
+        console.log(chalk.dim('\n  Run "sortora history <id>" to see the operations of a session.\n'));
+      } catch (error) {
+        console.error(chalk.red('History failed'));
+        console.error(error);
+        process.exit(1);
+      } finally {
+        db.close();
+      }
+    });
+}
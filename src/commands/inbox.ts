@@ -0,0 +1,225 @@
+import { Command } from 'commander';
+import chalk from 'chalk';
+import inquirer from 'inquirer';
+import { basename, resolve } from 'path';
+
+import { getAppPaths, expandPath } from '../config.js';
+import { Database, type SessionCounts } from '../storage/database.js';
+import { Analyzer } from '../core/analyzer.js';
+import { Inbox, isEditable, type InboxEntry } from '../core/inbox.js';
+import { formatSuggestionTarget } from '../core/suggester.js';
+import { renderInboxTable } from '../ui/table.js';
+
+export function registerInboxCommand(program: Command): void {
+  program
+    .command('inbox')
+    .description('Review suggestions that watch mode did not apply')
+    .argument('[action]', 'list, review, accept [ids...], reject [ids...], edit <id> <destination>')
+    .argument('[args...]', 'Entry IDs, or the ID and new destination for edit')
+    .option('--all', 'Accept or reject all pending suggestions')
+    .option('--rule <name>', 'Accept or reject the suggestions of one rule')
+    .option('--json', 'Output as JSON (list)')
+    .action(async (action, args: string[], options) => {
+      const paths = getAppPaths();
+      const db = new Database(paths.databaseFile);
+      const analyzer = new Analyzer(paths.modelsDir);
+
+      try {
+        await db.init();
+
+        // Listing drops entries whose file is gone
+        const entries = new Inbox(db, analyzer).list();
+
+        if (!action || action === 'list') {
+          if (options.json) {
+            console.log(JSON.stringify(entries, null, 2));
+            return;
+          }
+
+          if (entries.length === 0) {
+            console.log(chalk.yellow('\n  The inbox is empty.\n'));
+            return;
+          }
+
+          console.log(chalk.bold(`\n  ${entries.length} pending suggestion(s):\n`));
+          renderInboxTable(entries);
+          console.log(chalk.dim('\n  Run "sortora inbox review" to go through them, or "sortora inbox accept <id...>".\n'));
+          return;
+        }
+
+        if (action === 'accept' || action === 'reject') {
+          const selected = selectEntries(entries, args, options);
+          if (!selected) {
+            console.error(chalk.red(`Usage: sortora inbox ${action} <id...> | --rule <name> | --all`));
+            process.exit(1);
+          }
+
+          if (selected.length === 0) {
+            console.log(chalk.yellow('\n  No matching suggestions.\n'));
+            return;
+          }
+
+          console.log();
+          if (action === 'reject') {
+            const inbox = new Inbox(db, analyzer);
+            for (const entry of selected) {
+              inbox.reject(entry);
+            }
+            console.log(chalk.green(`  Rejected ${selected.length} suggestion(s).\n`));
+            return;
+          }
+
+          await acceptEntries(db, analyzer, selected.map(entry => ({ entry })));
+          return;
+        }
+
+        if (action === 'edit') {
+          const [idArg, destinationArg] = args;
+          if (!idArg || !destinationArg) {
+            console.error(chalk.red('Usage: sortora inbox edit <id> <destination>'));
+            process.exit(1);
+          }
+
+          const entry = entries.find(e => e.id === parseInt(idArg.replace(/^#/, ''), 10));
+          if (!entry) {
+            console.log(chalk.red(`\n  No pending suggestion #${idArg}.\n`));
+            process.exitCode = 1;
+            return;
+          }
+
+          console.log();
+          await acceptEntries(db, analyzer, [{ entry, destination: resolve(expandPath(destinationArg)) }]);
+          return;
+        }
+
+        if (action === 'review') {
+          await review(db, analyzer, entries);
+          return;
+        }
+
+        console.log(chalk.yellow('\n  Unknown action. Use: list, review, accept, reject, edit\n'));
+      } catch (error) {
+        console.error(chalk.red('Inbox command failed'));
+        console.error(error);
+        process.exit(1);
+      } finally {
+        db.close();
+      }
+    });
+}
+
+/**
+ * Entries picked by ID, rule or --all. Null when nothing picks any.
+ */
+function selectEntries(
+  entries: InboxEntry[],
+  ids: string[],
+  options: { all?: boolean; rule?: string }
+): InboxEntry[] | null {
+  if (ids.length > 0) {
+    const wanted = new Set(ids.map(id => parseInt(id.replace(/^#/, ''), 10)));
+    return entries.filter(e => wanted.has(e.id));
+  }
+  if (options.rule) {
+    return entries.filter(e => e.ruleName === options.rule);
+  }
+  if (options.all) {
+    return entries;
+  }
+  return null;
+}
+
+/**
+ * Apply suggestions as one session, so "sortora undo --session" can revert them
+ */
+async function acceptEntries(
+  db: Database,
+  analyzer: Analyzer,
+  items: { entry: InboxEntry; destination?: string }[]
+): Promise<void> {
+  const sessionId = db.startSession({
+    command: 'inbox',
+    commandLine: process.argv.slice(2).join(' '),
+  });
+  const inbox = new Inbox(db, analyzer, { sessionId });
+  const counts: SessionCounts = { filesTotal: items.length, succeeded: 0, failed: 0, skipped: 0 };
+
+  for (const { entry, destination } of items) {
+    const result = await inbox.accept(entry, destination);
+
+    if (result.success) {
+      counts.succeeded++;
+      console.log(chalk.green(`  ${basename(entry.path)}`) + chalk.dim(` -> ${result.finalPath ?? formatSuggestionTarget(entry)}`));
+    } else {
+      counts.failed++;
+      console.log(chalk.red(`  ${basename(entry.path)}: ${result.error}`));
+    }
+  }
+
+  db.finishSession(sessionId, counts);
+
+  console.log(chalk.bold(`\n  Applied ${counts.succeeded} of ${items.length} suggestion(s).`));
+  if (counts.succeeded > 0) {
+    console.log(chalk.dim(`  Undo with: sortora undo --session ${sessionId}`));
+  }
+  console.log();
+}
+
+async function review(db: Database, analyzer: Analyzer, entries: InboxEntry[]): Promise<void> {
+  if (entries.length === 0) {
+    console.log(chalk.yellow('\n  The inbox is empty.\n'));
+    return;
+  }
+
+  const inbox = new Inbox(db, analyzer);
+  const toAccept: { entry: InboxEntry; destination?: string }[] = [];
+  let rejected = 0;
+
+  for (const [i, entry] of entries.entries()) {
+    console.log(chalk.bold(`\n  [${i + 1}/${entries.length}] ${basename(entry.path)}${entry.directory ? '/ (folder)' : ''}`));
+    console.log(chalk.cyan(`    -> ${formatSuggestionTarget(entry)}`));
+    console.log(chalk.dim(`    Rule: ${entry.ruleName || 'several rules'} (${Math.round(entry.confidence * 100)}%)`));
+
+    const { choice } = await inquirer.prompt([{
+      type: 'list',
+      name: 'choice',
+      message: 'Action:',
+      choices: [
+        { name: 'Accept', value: 'accept' },
+        { name: 'Skip (keep in the inbox)', value: 'skip' },
+        { name: 'Reject (wrong suggestion)', value: 'reject' },
+        ...(isEditable(entry) ? [{ name: 'Edit destination', value: 'edit' }] : []),
+        { name: 'Quit', value: 'quit' },
+      ],
+    }]);
+
+    if (choice === 'quit') {
+      break;
+    }
+
+    if (choice === 'accept') {
+      toAccept.push({ entry });
+    } else if (choice === 'edit') {
+      const { newDest } = await inquirer.prompt([{
+        type: 'input',
+        name: 'newDest',
+        message: 'New destination:',
+        default: entry.destination,
+      }]);
+      toAccept.push({ entry, destination: resolve(expandPath(newDest)) });
+    } else if (choice === 'reject') {
+      inbox.reject(entry);
+      rejected++;
+    }
+  }
+
+  console.log();
+  if (rejected > 0) {
+    console.log(chalk.dim(`  Rejected ${rejected} suggestion(s).`));
+  }
+  if (toAccept.length > 0) {
+    await acceptEntries(db, analyzer, toAccept);
+  } else {
+    console.log();
+  }
+}
@@ -6,11 +6,17 @@ import { registerOrganizeCommand } from './organize.js';
 import { registerWatchCommand } from './watch.js';
 import { registerDuplicatesCommand } from './duplicates.js';
 import { registerUndoCommand } from './undo.js';
+import { registerRedoCommand } from './redo.js';
+import { registerHistoryCommand } from './history.js';
 import { registerRenameCommand } from './rename.js';
 import { registerRulesCommand } from './rules.js';
 import { registerStatsCommand } from './stats.js';
 import { registerAICommand } from './ai.js';
 import { registerPreviewCommand } from './preview.js';
+import { registerLearnCommand } from './learn.js';
+import { registerTrashCommand } from './trash.js';
+import { registerDaemonCommand } from './daemon.js';
+import { registerInboxCommand } from './inbox.js';
 
 export function registerAllCommands(program: Command): void {
   registerSetupCommand(program);
@@ -19,9 +25,15 @@ export function registerAllCommands(program: Command): void {
   registerWatchCommand(program);
   registerDuplicatesCommand(program);
   registerUndoCommand(program);
+  registerRedoCommand(program);
+  registerHistoryCommand(program);
   registerRenameCommand(program);
   registerRulesCommand(program);
   registerStatsCommand(program);
   registerAICommand(program);
   registerPreviewCommand(program);
+  registerLearnCommand(program);
+  registerTrashCommand(program);
+  registerDaemonCommand(program);
+  registerInboxCommand(program);
 }
@@ -0,0 +1,182 @@
+import { Command } from 'commander';
+import chalk from 'chalk';
+import inquirer from 'inquirer';
+import { basename } from 'path';
+
+import { loadConfig, getAppPaths } from '../config.js';
+import { Database } from '../storage/database.js';
+import { PatternTracker } from '../learning/pattern-tracker.js';
+import { RuleSuggester, type SuggestedRule } from '../learning/rule-suggester.js';
+import { parseRulesFile, mergeRules, parseRule, saveRulesFileRules, type ParsedRule } from '../rules/parser.js';
+import { formatRelativeTime } from '../ui/colors.js';
+
+export function registerLearnCommand(program: Command): void {
+  program
+    .command('learn')
+    .description('Review rules learned from how you organize files')
+    .option('--min-confidence <n>', 'Minimum confidence of candidates (0-1)', '0.7')
+    .option('--list', 'Only list candidates, without prompting')
+    .option('--json', 'Output candidates as JSON')
+    .action(async (options) => {
+      const config = loadConfig();
+      const paths = getAppPaths();
+      const db = new Database(paths.databaseFile);
+
+      try {
+        await db.init();
+
+        const tracker = new PatternTracker(db);
+        const removed = tracker.cleanupIfDue();
+        if (removed && !options.json) {
+          console.log(chalk.dim(`\n  Forgot ${removed} stale pattern(s).`));
+        }
+
+        // Check candidates against rules.yaml as well as the config rules
+        const rulesFile = parseRulesFile(paths.rulesFile);
+        const suggester = new RuleSuggester(tracker, {
+          ...config,
+          rules: mergeRules(config.rules, rulesFile.rules),
+        });
+        const candidates = suggester.suggestRules(parseFloat(options.minConfidence));
+
+        if (options.json) {
+          const output = candidates.map(candidate => ({
+            ...candidate,
+            issues: suggester.validateSuggestedRule(candidate).issues,
+            samples: candidate.basedOn.flatMap(p => tracker.getEvidence(p).map(op => op.source)),
+          }));
+          console.log(JSON.stringify(output, null, 2));
+          return;
+        }
+
+        if (candidates.length === 0) {
+          console.log(chalk.yellow('\n  No rule candidates yet.'));
+          console.log(chalk.dim('  Sortora learns from files you move with "sortora organize -i".\n'));
+          return;
+        }
+
+        console.log(chalk.bold(`\n  ${candidates.length} rule candidate(s) learned from your moves:\n`));
+
+        let accepted = 0;
+        let dismissed = 0;
+
+        for (const [index, candidate] of candidates.entries()) {
+          printCandidate(index + 1, candidate, tracker, suggester.validateSuggestedRule(candidate).issues);
+
+          if (options.list) {
+            continue;
+          }
+
+          const { choice } = await inquirer.prompt([{
+            type: 'list',
+            name: 'choice',
+            message: 'What to do with this rule?',
+            choices: [
+              { name: 'Accept (add to rules.yaml)', value: 'accept' },
+              { name: 'Edit, then accept', value: 'edit' },
+              { name: 'Dismiss (don\'t suggest again)', value: 'dismiss' },
+              { name: 'Skip for now', value: 'skip' },
+              { name: 'Quit', value: 'quit' },
+            ],
+          }]);
+
+          if (choice === 'quit') {
+            break;
+          }
+          if (choice === 'skip') {
+            console.log();
+            continue;
+          }
+          if (choice === 'dismiss') {
+            for (const pattern of candidate.basedOn) {
+              tracker.dismissPattern(pattern);
+            }
+            dismissed++;
+            console.log(chalk.dim('  Dismissed.\n'));
+            continue;
+          }
+
+          const rule = choice === 'edit' ? await editRule(candidate.rule) : candidate.rule;
+          const fileRules = parseRulesFile(paths.rulesFile).rules;
+
+          if (fileRules.some(existing => existing.name === rule.name)) {
+            console.log(chalk.yellow(`  A rule named "${rule.name}" already exists in rules.yaml; edit the candidate to rename it.\n`));
+            continue;
+          }
+
+          saveRulesFileRules(paths.rulesFile, [...fileRules, rule]);
+
+          // The rule covers these patterns now; don't offer them again
+          for (const pattern of candidate.basedOn) {
+            tracker.dismissPattern(pattern);
+          }
+          accepted++;
+          console.log(chalk.green(`  Added "${rule.name}" to ${paths.rulesFile}\n`));
+        }
+
+        if (!options.list) {
+          console.log(chalk.dim(`  ${accepted} accepted, ${dismissed} dismissed.\n`));
+        }
+      } catch (error) {
+        console.error(chalk.red('Learn failed'));
+        console.error(error);
+        process.exit(1);
+      } finally {
+        db.close();
+      }
+    });
+}
+
+function printCandidate(
+  number: number,
+  candidate: SuggestedRule,
+  tracker: PatternTracker,
+  issues: string[]
+): void {
+  console.log(chalk.cyan(`  ${number}. ${candidate.rule.name}`) + chalk.dim(` (${Math.round(candidate.confidence * 100)}% confidence)`));
+  console.log(`     ${candidate.description}`);
+
+  for (const pattern of candidate.basedOn) {
+    console.log(chalk.dim(`     • ${pattern.type} ${pattern.pattern}: ${pattern.occurrences} move(s), last ${formatRelativeTime(pattern.lastUsed)}`));
+
+    const samples = tracker.getEvidence(pattern).map(op => basename(op.source));
+    if (samples.length > 0) {
+      console.log(chalk.dim(`       e.g. ${samples.join(', ')}`));
+    }
+  }
+
+  for (const issue of issues) {
+    console.log(chalk.yellow(`     ⚠ ${issue}`));
+  }
+  console.log();
+}
+
+async function editRule(rule: ParsedRule): Promise<ParsedRule> {
+  const answers = await inquirer.prompt([
+    {
+      type: 'input',
+      name: 'name',
+      message: 'Rule name:',
+      default: rule.name,
+    },
+    {
+      type: 'input',
+      name: 'destination',
+      message: 'Destination folder:',
+      default: rule.action.moveTo,
+    },
+    {
+      type: 'number',
+      name: 'priority',
+      message: 'Priority (1-100):',
+      default: rule.priority,
+    },
+  ]);
+
+  return parseRule({
+    ...rule,
+    name: answers.name,
+    priority: answers.priority,
+    action: { ...rule.action, moveTo: answers.destination },
+  });
+}
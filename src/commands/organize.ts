@@ -9,9 +9,14 @@ import { loadConfig, getAppPaths, expandPath } from '../config.js';
 import { Scanner } from '../core/scanner.js';
 import { Analyzer } from '../core/analyzer.js';
 import { RuleEngine } from '../core/rule-engine.js';
-import { Suggester } from '../core/suggester.js';
+import { Suggester, formatSuggestionTarget } from '../core/suggester.js';
 import { Executor } from '../core/executor.js';
+import { isEditable } from '../core/inbox.js';
 import { Database } from '../storage/database.js';
+import { PatternTracker } from '../learning/pattern-tracker.js';
+import { FeedbackHandler, type FeedbackType, type RuleAccuracy } from '../learning/feedback.js';
+import { parseRulesFile } from '../rules/parser.js';
+import { presets, getPreset, getPresetRules } from '../rules/presets/index.js';
 import { createProgressBar } from '../ui/progress.js';
 import { formatSize } from '../ui/colors.js';
 
@@ -25,9 +30,16 @@ export function registerOrganizeCommand(program: Command): void {
     .option('--auto', 'Apply actions automatically')
     .option('--global', 'Move files to global destinations (~/Documents, ~/Pictures, etc.)')
     .option('--confidence <number>', 'Minimum confidence for auto mode (0-1)', '0.8')
+    .option('--preset <name>', 'Use a rule preset for this run without enabling it')
     .action(async (targetPath, options) => {
       const fullPath = resolve(expandPath(targetPath));
 
+      const preset = options.preset ? getPreset(options.preset) : undefined;
+      if (options.preset && !preset) {
+        console.error(chalk.red(`Unknown preset "${options.preset}". Available: ${presets.map(p => p.name).join(', ')}`));
+        process.exit(1);
+      }
+
       if (!existsSync(fullPath)) {
         console.error(chalk.red(`Path not found: ${fullPath}`));
         process.exit(1);
@@ -49,9 +61,25 @@ export function registerOrganizeCommand(program: Command): void {
 
         const scanner = new Scanner(db);
         const analyzer = new Analyzer(paths.modelsDir);
-        const ruleEngine = new RuleEngine(config);
-        const suggester = new Suggester(ruleEngine, config);
-        const executor = new Executor(db);
+        const rulesFile = parseRulesFile(paths.rulesFile);
+        if (preset) {
+          rulesFile.rules = [...rulesFile.rules, ...getPresetRules(preset)];
+          console.log(chalk.dim(`  Using preset "${preset.name}" for this run.\n`));
+        }
+        const ruleEngine = new RuleEngine(config, rulesFile);
+        const patternTracker = new PatternTracker(db);
+        patternTracker.cleanupIfDue();
+        const suggester = new Suggester(ruleEngine, config, patternTracker);
+        const feedback = new FeedbackHandler(db, patternTracker);
+
+        // Roll back a transactional run that was interrupted
+        const { recovered, failed } = await new Executor(db).recoverPendingBatches();
+        if (recovered > 0) {
+          console.log(chalk.yellow(`  Rolled back ${recovered} interrupted batch(es) from a previous run.\n`));
+        }
+        if (failed > 0) {
+          console.log(chalk.red(`  Could not fully roll back ${failed} interrupted batch(es): some files were not restored.\n`));
+        }
 
         const spinner = ora('Scanning files...').start();
         const files = await scanner.scan(fullPath, { recursive: options.deep || false });
@@ -82,7 +110,7 @@ export function registerOrganizeCommand(program: Command): void {
         if (options.dryRun) {
           for (const suggestion of suggestions) {
             console.log(chalk.dim(`  ${suggestion.file.filename}`));
-            console.log(chalk.cyan(`    -> ${suggestion.destination}`));
+            console.log(chalk.cyan(`    -> ${formatSuggestionTarget(suggestion)}`));
             console.log(chalk.dim(`    Rule: ${suggestion.ruleName} (${Math.round(suggestion.confidence * 100)}%)\n`));
           }
           return;
@@ -90,6 +118,74 @@ export function registerOrganizeCommand(program: Command): void {
 
         const minConfidence = parseFloat(options.confidence);
 
+        // Rules that keep getting rejected or undone only suggest, even with --auto
+        const demoted = options.auto
+          ? feedback.getDemotedRules(config.learning.demoteBelow, config.learning.minSamples)
+          : new Map<string, RuleAccuracy>();
+        const demotedInRun = [...demoted.values()].filter(rule => suggestions.some(s => s.ruleName === rule.ruleName));
+        for (const rule of demotedInRun) {
+          console.log(chalk.yellow(`  Rule "${rule.ruleName}" is suggest-only: ${Math.round(rule.accuracy * 100)}% accuracy over ${rule.samples} decisions.`));
+        }
+        if (demotedInRun.length > 0) {
+          console.log(chalk.dim('  See "sortora stats --rules".\n'));
+        }
+
+        // Operations of this run are recorded as one session for history/undo
+        const sessionId = db.startSession({
+          command: 'organize',
+          commandLine: process.argv.slice(2).join(' '),
+          path: fullPath,
+        });
+        const executor = new Executor(db, { sessionId });
+
+        // Non-interactive auto mode is all-or-nothing: if any action fails,
+        // everything applied so far is rolled back
+        if (options.auto && !options.interactive) {
+          const suggestOnly = suggestions.filter(s => demoted.has(s.ruleName));
+          const accepted = suggestions.filter(s => s.confidence >= minConfidence && !demoted.has(s.ruleName));
+          const skipped = suggestions.length - accepted.length;
+
+          for (const suggestion of suggestOnly) {
+            console.log(chalk.dim(`  ${suggestion.file.filename}`) + chalk.yellow(` -> ${formatSuggestionTarget(suggestion)} (suggested only)`));
+          }
+
+          for (const suggestion of accepted) {
+            console.log(chalk.dim(`  ${suggestion.file.filename}`) + chalk.cyan(` -> ${formatSuggestionTarget(suggestion)}`));
+          }
+
+          const batchSpinner = ora(`Applying ${accepted.length} action(s)...`).start();
+          const batch = await executor.executeBatch(accepted);
+
+          db.finishSession(sessionId, {
+            filesTotal: suggestions.length,
+            succeeded: batch.success ? accepted.length : 0,
+            failed: batch.success ? 0 : 1,
+            skipped,
+          });
+
+          if (!batch.success) {
+            batchSpinner.fail(`Failed on ${batch.failed?.file.filename}: ${batch.error}`);
+            console.log(chalk.yellow(`\n  Rolled back ${batch.rolledBack} completed action(s). No changes were kept.\n`));
+            process.exitCode = 1;
+            return;
+          }
+
+          batchSpinner.succeed(`Applied ${accepted.length} action(s)`);
+
+          const totalSize = accepted.reduce((sum, s) => sum + s.file.size, 0);
+          console.log(chalk.bold('\n  Summary:'));
+          console.log(chalk.green(`    Files organized: ${accepted.length}`));
+          console.log(chalk.dim(`    Total size: ${formatSize(totalSize)}`));
+          if (suggestOnly.length > 0) {
+            console.log(chalk.yellow(`    Suggested only (demoted rules): ${suggestOnly.length}`));
+          }
+          if (skipped > suggestOnly.length) {
+            console.log(chalk.yellow(`    Skipped (low confidence): ${skipped - suggestOnly.length}`));
+          }
+          console.log(chalk.dim(`\n  Run "sortora undo --session ${sessionId}" to revert this run.\n`));
+          return;
+        }
+
         // #23: Track summary stats
         let filesMoved = 0;
         let totalSizeMoved = 0;
@@ -100,17 +196,20 @@ export function registerOrganizeCommand(program: Command): void {
         const progressBar = createProgressBar(suggestions.length, 'Organizing');
 
         for (let i = 0; i < suggestions.length; i++) {
-          const suggestion = suggestions[i];
+          let suggestion = suggestions[i];
           const progress = `[${i + 1}/${suggestions.length}]`;
 
           console.log(chalk.bold(`\n  ${progress} ${suggestion.file.filename}`));
           console.log(chalk.dim(`    ${suggestion.file.path}`));
-          console.log(chalk.cyan(`    -> ${suggestion.destination}`));
+          console.log(chalk.cyan(`    -> ${formatSuggestionTarget(suggestion)}`));
           console.log(chalk.dim(`    Rule: ${suggestion.ruleName} (${Math.round(suggestion.confidence * 100)}%)`));
 
           let shouldExecute = false;
+          // Feedback from the prompt, recorded once we know how it went
+          let feedbackType: FeedbackType | null = null;
+          let modifiedDestination: string | undefined;
 
-          if (options.auto && suggestion.confidence >= minConfidence) {
+          if (options.auto && suggestion.confidence >= minConfidence && !demoted.has(suggestion.ruleName)) {
             shouldExecute = true;
           } else if (options.interactive || !options.auto) {
             const { action } = await inquirer.prompt([{
@@ -120,7 +219,8 @@ export function registerOrganizeCommand(program: Command): void {
               choices: [
                 { name: 'Accept', value: 'accept' },
                 { name: 'Skip', value: 'skip' },
-                { name: 'Edit destination', value: 'edit' },
+                { name: 'Reject (wrong suggestion)', value: 'reject' },
+                ...(isEditable(suggestion) ? [{ name: 'Edit destination', value: 'edit' }] : []),
                 { name: 'Quit', value: 'quit' },
               ],
             }]);
@@ -139,22 +239,36 @@ export function registerOrganizeCommand(program: Command): void {
                 message: 'New destination:',
                 default: suggestion.destination,
               }]);
-              suggestion.destination = expandPath(newDest);
+              modifiedDestination = expandPath(newDest);
+              // Keep the original suggestion for the feedback record
+              suggestion = { ...suggestion, destination: modifiedDestination };
+              feedbackType = 'modify';
               shouldExecute = true;
             } else if (action === 'accept') {
+              feedbackType = 'accept';
               shouldExecute = true;
+            } else {
+              feedbackType = action;
             }
-            // action === 'skip' leaves shouldExecute as false
+            // 'skip' and 'reject' leave shouldExecute as false
+          }
+
+          if (feedbackType === 'skip' || feedbackType === 'reject') {
+            feedback.recordFeedback(suggestions[i], feedbackType);
           }
 
           if (shouldExecute) {
-            try {
-              await executor.execute(suggestion);
+            const result = await executor.execute(suggestion);
+            if (result.success) {
               console.log(chalk.green('    Done'));
               filesMoved++;
               totalSizeMoved += suggestion.file.size;
-            } catch (error) {
-              console.log(chalk.red(`    Error: ${error}`));
+              // Learn where files go only from changes that were made
+              if (feedbackType === 'accept' || feedbackType === 'modify') {
+                feedback.recordFeedback(suggestions[i], feedbackType, modifiedDestination);
+              }
+            } else {
+              console.log(chalk.red(`    Error: ${result.error}`));
               errors++;
             }
           } else {
@@ -167,6 +281,13 @@ export function registerOrganizeCommand(program: Command): void {
 
         progressBar.finish();
 
+        db.finishSession(sessionId, {
+          filesTotal: suggestions.length,
+          succeeded: filesMoved,
+          failed: errors,
+          skipped: suggestions.length - filesMoved - errors,
+        });
+
         // #23: Show summary after organize
         console.log(chalk.bold('\n  Summary:'));
         console.log(chalk.green(`    Files organized: ${filesMoved}`));
@@ -177,7 +298,15 @@ export function registerOrganizeCommand(program: Command): void {
         if (errors > 0) {
           console.log(chalk.red(`    Errors: ${errors}`));
         }
-        console.log(chalk.dim(`\n  Run "sortora undo" to revert changes.\n`));
+
+        const improvements = feedback.suggestRuleImprovements();
+        if (improvements.length > 0) {
+          console.log(chalk.bold('\n  Rule tips:'));
+          for (const tip of improvements) {
+            console.log(chalk.dim(`    ${tip}`));
+          }
+        }
+        console.log(chalk.dim(`\n  Run "sortora undo --session ${sessionId}" to revert this run.\n`));
       } catch (error) {
         console.error(chalk.red('Organization failed'));
         console.error(error);
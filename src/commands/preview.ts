@@ -9,9 +9,11 @@ import { loadConfig, getAppPaths, expandPath } from '../config.js';
 import { Scanner } from '../core/scanner.js';
 import { Analyzer, type FileAnalysis } from '../core/analyzer.js';
 import { RuleEngine } from '../core/rule-engine.js';
-import { Suggester } from '../core/suggester.js';
+import { Suggester, formatSuggestionTarget, type Suggestion } from '../core/suggester.js';
+import { PatternTracker } from '../learning/pattern-tracker.js';
 import { Executor } from '../core/executor.js';
 import { Database } from '../storage/database.js';
+import { parseRulesFile } from '../rules/parser.js';
 import { formatSize } from '../ui/colors.js';
 import { getCategoryIcon } from '../utils/mime.js';
 
@@ -39,8 +41,8 @@ export function registerPreviewCommand(program: Command): void {
 
         const scanner = new Scanner(db);
         const analyzer = new Analyzer(paths.modelsDir);
-        const ruleEngine = new RuleEngine(config);
-        const suggester = new Suggester(ruleEngine, config);
+        const ruleEngine = new RuleEngine(config, parseRulesFile(paths.rulesFile));
+        const suggester = new Suggester(ruleEngine, config, new PatternTracker(db));
         const executor = new Executor(db);
 
         const spinner = ora('Scanning and analyzing files...').start();
@@ -115,7 +117,7 @@ export function registerPreviewCommand(program: Command): void {
             message: 'Action:',
             choices: [
               ...(suggestion ? [
-                { name: chalk.green(`Move to ${suggestion.destination}`), value: 'move' },
+                { name: chalk.green(`Apply: ${suggestion.action} -> ${formatSuggestionTarget(suggestion)}`), value: 'move' },
               ] : []),
               { name: 'Back to list', value: 'back' },
               { name: chalk.yellow('Exit preview'), value: 'exit' },
@@ -127,7 +129,7 @@ export function registerPreviewCommand(program: Command): void {
           } else if (fileAction === 'move' && suggestion) {
             try {
               await executor.execute(suggestion);
-              console.log(chalk.green(`\n  Moved to: ${suggestion.destination}\n`));
+              console.log(chalk.green(`\n  Done: ${suggestion.action} -> ${formatSuggestionTarget(suggestion)}\n`));
               // Remove from analyzed list
               const idx = analyzed.indexOf(file);
               if (idx >= 0) analyzed.splice(idx, 1);
@@ -149,7 +151,7 @@ export function registerPreviewCommand(program: Command): void {
     });
 }
 
-function showFileDetails(file: FileAnalysis, suggestion?: { destination: string; ruleName: string; confidence: number } | null): void {
+function showFileDetails(file: FileAnalysis, suggestion?: Suggestion | null): void {
   console.log(chalk.bold(`\n  File: ${file.filename}`));
   console.log(chalk.dim(`  Path: ${file.path}`));
   console.log(chalk.dim(`  Size: ${formatSize(file.size)}`));
@@ -160,7 +162,7 @@ function showFileDetails(file: FileAnalysis, suggestion?: { destination: string;
   if (suggestion) {
     console.log(chalk.cyan(`\n  Rule: ${suggestion.ruleName}`));
     console.log(chalk.cyan(`  Confidence: ${Math.round(suggestion.confidence * 100)}%`));
-    console.log(chalk.cyan(`  Destination: ${suggestion.destination}`));
+    console.log(chalk.cyan(`  Destination: ${formatSuggestionTarget(suggestion)}`));
   } else {
     console.log(chalk.yellow('\n  No matching rule found'));
   }
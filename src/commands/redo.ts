@@ -0,0 +1,116 @@
+import { Command } from 'commander';
+import chalk from 'chalk';
+import inquirer from 'inquirer';
+
+import { getAppPaths } from '../config.js';
+import { Executor } from '../core/executor.js';
+import { Database, type OperationRecord } from '../storage/database.js';
+
+export function registerRedoCommand(program: Command): void {
+  program
+    .command('redo')
+    .description('Re-apply undone operations')
+    .option('--id <id>', 'Redo specific operation by ID')
+    .option('--session <id>', 'Redo all undone operations of a session (see "sortora history")')
+    .action(async (options) => {
+      const paths = getAppPaths();
+      const db = new Database(paths.databaseFile);
+
+      try {
+        await db.init();
+
+        const executor = new Executor(db);
+
+        if (options.id) {
+          const id = parseInt(options.id, 10);
+          const result = await executor.redo(id);
+          if (result.success) {
+            console.log(chalk.green(`\n  Operation #${id} redone as #${result.operationId}.\n`));
+          } else {
+            console.log(chalk.red(`\n  Could not redo operation #${id}: ${result.error}\n`));
+          }
+          return;
+        }
+
+        if (options.session) {
+          const sessionId = parseInt(options.session, 10);
+          const session = db.getSession(sessionId);
+          if (!session) {
+            console.log(chalk.red(`\n  Session #${options.session} not found.\n`));
+            return;
+          }
+
+          // Oldest first, so operations are re-applied in their original order
+          const redoable = db.getSessionOperations(sessionId)
+            .filter(op => op.undoneAt && !db.getRedoOperation(op.id));
+
+          if (redoable.length === 0) {
+            console.log(chalk.yellow(`\n  Nothing to redo in session #${sessionId}.\n`));
+            return;
+          }
+
+          console.log(chalk.bold(`\n  Redoing session #${sessionId} (${session.command}, ${redoable.length} operation(s)):\n`));
+          await redoOperations(executor, redoable);
+          return;
+        }
+
+        // Default: redo the most recently undone operation
+        const [lastUndone] = db.getRedoableOperations(1);
+        if (!lastUndone) {
+          console.log(chalk.yellow('\n  No undone operations to redo.\n'));
+          return;
+        }
+
+        const { confirm } = await inquirer.prompt([{
+          type: 'confirm',
+          name: 'confirm',
+          message: `Redo ${lastUndone.type}: ${lastUndone.source}?`,
+          default: true,
+        }]);
+
+        if (confirm) {
+          const result = await executor.redo(lastUndone.id);
+          if (result.success) {
+            console.log(chalk.green('\n  Redone.\n'));
+          } else {
+            console.log(chalk.red(`\n  Could not redo: ${result.error}\n`));
+          }
+        }
+      } catch (error) {
+        console.error(chalk.red('Redo failed'));
+        console.error(error);
+        process.exit(1);
+      } finally {
+        db.close();
+      }
+    });
+}
+
+/**
+ * Redo operations in the given order and print a summary
+ */
+async function redoOperations(executor: Executor, operations: OperationRecord[]): Promise<void> {
+  let redoneCount = 0;
+  let failedCount = 0;
+
+  const redoneGroups = new Set<number>();
+
+  for (const op of operations) {
+    // Redoing one operation of an action chain redoes the whole chain
+    if (op.groupId !== null) {
+      if (redoneGroups.has(op.groupId)) continue;
+      redoneGroups.add(op.groupId);
+    }
+
+    const result = await executor.redo(op.id);
+    if (result.success) {
+      console.log(chalk.green(`  #${op.id} ${op.type}: ${op.source} - redone`));
+      redoneCount++;
+    } else {
+      console.log(chalk.red(`  #${op.id} ${op.type}: ${op.source} - ${result.error}`));
+      failedCount++;
+    }
+  }
+
+  console.log(chalk.bold(`\n  Summary: ${redoneCount} redone, ${failedCount} failed.\n`));
+}
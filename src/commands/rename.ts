@@ -127,9 +127,17 @@ export function registerRenameCommand(program: Command): void {
           return;
         }
 
+        // Renames of this run are recorded as one session for history/undo
+        const sessionId = db.startSession({
+          command: 'rename',
+          commandLine: process.argv.slice(2).join(' '),
+          path: fullPath,
+        });
+
         // Process renames
         let renamed = 0;
         let skipped = 0;
+        let failed = 0;
 
         for (let i = 0; i < suggestions.length; i++) {
           const suggestion = suggestions[i];
@@ -208,25 +216,35 @@ export function registerRenameCommand(program: Command): void {
                   destination: result.destination,
                   ruleName: null,
                   confidence: suggestion.confidence,
+                  sessionId,
                 });
 
                 console.log(chalk.green('    Renamed'));
                 renamed++;
               } else {
                 console.log(chalk.red(`    ${result.error}`));
+                failed++;
               }
             } catch (error) {
               console.log(chalk.red(`    Error: ${error}`));
+              failed++;
             }
           }
         }
 
+        db.finishSession(sessionId, {
+          filesTotal: suggestions.length,
+          succeeded: renamed,
+          failed,
+          skipped: suggestions.length - renamed - failed,
+        });
+
         console.log(chalk.bold('\n  Summary:'));
         console.log(chalk.green(`    Renamed: ${renamed} files`));
         if (skipped > 0) {
           console.log(chalk.yellow(`    Skipped: ${skipped} files`));
         }
-        console.log(chalk.dim(`\n  Run "sortora undo" to revert changes.\n`));
+        console.log(chalk.dim(`\n  Run "sortora undo --session ${sessionId}" to revert this run.\n`));
       } catch (error) {
         console.error(chalk.red('Rename failed'));
         console.error(error);
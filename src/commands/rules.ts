@@ -8,45 +8,120 @@ import { platform } from 'os';
 import YAML from 'yaml';
 
 import { loadConfig, saveConfig, getAppPaths, expandPath } from '../config.js';
+import { Scanner } from '../core/scanner.js';
 import { Analyzer } from '../core/analyzer.js';
 import { RuleEngine } from '../core/rule-engine.js';
+import { Suggester } from '../core/suggester.js';
 import { Database } from '../storage/database.js';
+import type { ConditionTrace } from '../rules/matcher.js';
+import { parseRulesFile, mergeRules, saveRulesFileRules, type ParsedRule } from '../rules/parser.js';
+import { formatAction, getDestinationTemplate } from '../rules/actions.js';
+import { runRuleTests } from '../rules/testing.js';
+import { lintRules } from '../rules/linter.js';
+import { computeCoverage } from '../rules/coverage.js';
+import { presets, getPreset, getPresetRules, isPresetRule, findPresetConflicts } from '../rules/presets/index.js';
+import { renderCoverageTable, renderOverlapsTable, renderRulesTable } from '../ui/table.js';
 
 export function registerRulesCommand(program: Command): void {
   program
     .command('rules')
     .description('Manage organization rules')
-    .argument('[action]', 'list, add, test <file>, edit, export [file], import <file>')
-    .argument('[file]', 'File path for test/export/import action')
-    .action(async (action, file) => {
+    .argument('[action]', 'list, add, test [file], lint, coverage <path>, preset, edit, export [file], import <file>')
+    .argument('[file]', 'File path for test/coverage/export/import action, or list/show/enable/disable for preset')
+    .argument('[name]', 'Preset name for preset show/enable/disable')
+    .option('-d, --deep', 'Scan subdirectories recursively (coverage)')
+    .option('--json', 'Output as JSON (coverage)')
+    .action(async (action, file, name, options) => {
       const config = loadConfig();
       const paths = getAppPaths();
 
       if (!action || action === 'list') {
         console.log(chalk.bold('\n  Organization Rules:\n'));
 
-        if (config.rules.length === 0) {
+        // Rules from config.yaml, overridden by rules.yaml
+        const rules = mergeRules(config.rules, parseRulesFile(paths.rulesFile).rules);
+
+        if (rules.length === 0) {
           console.log(chalk.yellow('  No custom rules defined.'));
           console.log(chalk.dim('  Using default presets.\n'));
           return;
         }
 
-        for (const rule of config.rules.sort((a, b) => b.priority - a.priority)) {
-          console.log(chalk.cyan(`  ${rule.name}`) + chalk.dim(` (priority: ${rule.priority})`));
+        for (const rule of rules) {
+          const disabled = rule.enabled ? '' : chalk.yellow(' [disabled]');
+          console.log(chalk.cyan(`  ${rule.name}`) + chalk.dim(` (priority: ${rule.priority})`) + disabled);
           if (rule.match.extension) {
             console.log(chalk.dim(`    Extensions: ${rule.match.extension.join(', ')}`));
           }
           if (rule.match.filename) {
             console.log(chalk.dim(`    Patterns: ${rule.match.filename.join(', ')}`));
           }
-          if (rule.action.moveTo) {
-            console.log(chalk.dim(`    -> ${rule.action.moveTo}`));
+          if (rule.match.filenameRegex) {
+            console.log(chalk.dim(`    Regex: ${rule.match.filenameRegex}`));
+          }
+          if (rule.match.pathGlob) {
+            console.log(chalk.dim(`    Paths: ${rule.match.pathGlob.join(', ')}`));
+          }
+          const groups = (['all', 'any', 'not'] as const).filter(key => rule.match[key]);
+          if (groups.length > 0) {
+            console.log(chalk.dim(`    Groups: ${groups.join(', ')}`));
+          }
+          const destination = getDestinationTemplate(rule.action);
+          if (rule.action.delete) {
+            console.log(chalk.dim('    -> delete'));
+          } else if (destination) {
+            console.log(chalk.dim(`    -> ${destination}`));
+          }
+          if (rule.action.rename) {
+            console.log(chalk.dim(`    Rename: ${rule.action.rename}`));
+          }
+          if (rule.action.tag) {
+            console.log(chalk.dim(`    Tags: ${rule.action.tag.join(', ')}`));
+          }
+          if (rule.actions && rule.actions.length > 0) {
+            const chain = rule.actions.map(step => Object.keys(step).filter(key => key !== 'confirm').join('+'));
+            console.log(chalk.dim(`    Chain: ${chain.join(' → ')}`));
           }
           console.log();
         }
         return;
       }
 
+      // Run the tests: section of rules.yaml
+      if (action === 'test' && !file) {
+        const rulesFile = parseRulesFile(paths.rulesFile);
+        const tests = rulesFile.tests || [];
+
+        if (tests.length === 0) {
+          console.log(chalk.yellow(`\n  No tests defined in ${paths.rulesFile}.\n`));
+          return;
+        }
+
+        const suggester = new Suggester(new RuleEngine(config, rulesFile), config);
+        const results = runRuleTests(suggester, tests);
+
+        console.log(chalk.bold(`\n  Rule tests (${paths.rulesFile}):\n`));
+        for (const result of results) {
+          if (result.passed) {
+            console.log(chalk.green(`  ✓ ${result.label}`));
+          } else {
+            console.log(chalk.red(`  ✗ ${result.label}`));
+            for (const failure of result.failures) {
+              console.log(chalk.dim(`      ${failure}`));
+            }
+          }
+        }
+
+        const failed = results.filter(r => !r.passed).length;
+        const summary = `\n  ${results.length - failed} passed, ${failed} failed.\n`;
+        if (failed > 0) {
+          console.log(chalk.red(summary));
+          process.exit(1);
+        }
+        console.log(chalk.green(summary));
+        return;
+      }
+
       if (action === 'test' && file) {
         const fullPath = resolve(expandPath(file));
         if (!existsSync(fullPath)) {
@@ -59,7 +134,7 @@ export function registerRulesCommand(program: Command): void {
           await db.init();
 
           const analyzer = new Analyzer(paths.modelsDir);
-          const ruleEngine = new RuleEngine(config);
+          const ruleEngine = new RuleEngine(config, parseRulesFile(paths.rulesFile));
 
           const spinner = ora('Analyzing file...').start();
           const analysis = await analyzer.analyze(fullPath);
@@ -70,8 +145,21 @@ export function registerRulesCommand(program: Command): void {
           if (matchedRule) {
             console.log(chalk.green(`\n  Matched rule: ${matchedRule.rule.name}`));
             console.log(chalk.dim(`  Priority: ${matchedRule.rule.priority}`));
-            if (matchedRule.destination) {
-              console.log(chalk.cyan(`  Destination: ${matchedRule.destination}\n`));
+            console.log(chalk.dim(`  Confidence: ${Math.round(matchedRule.confidence * 100)}%`));
+            if (matchedRule.trace && matchedRule.trace.length > 0) {
+              console.log(chalk.bold('\n  Matched conditions:'));
+              printTrace(matchedRule.trace, 2);
+            }
+            if (matchedRule.steps) {
+              console.log(chalk.bold('\n  Actions:'));
+              matchedRule.steps.forEach((step, i) => {
+                console.log(chalk.cyan(`    ${i + 1}. ${formatAction(step)}`));
+              });
+              console.log();
+            } else if (matchedRule.action) {
+              console.log(chalk.cyan(`\n  Action: ${formatAction(matchedRule.action)}\n`));
+            } else {
+              console.log();
             }
           } else {
             console.log(chalk.yellow('\n  No matching rule found.\n'));
@@ -82,6 +170,98 @@ export function registerRulesCommand(program: Command): void {
         return;
       }
 
+      if (action === 'lint') {
+        const issues = lintRules(config, parseRulesFile(paths.rulesFile));
+
+        if (issues.length === 0) {
+          console.log(chalk.green('\n  No problems found.\n'));
+          return;
+        }
+
+        console.log(chalk.bold('\n  Rule problems:\n'));
+        for (const issue of issues) {
+          const label = issue.severity === 'error' ? chalk.red('error  ') : chalk.yellow('warning');
+          console.log(`  ${label} ${chalk.cyan(issue.rule)}: ${issue.message}`);
+        }
+
+        const errors = issues.filter(i => i.severity === 'error').length;
+        console.log(chalk.dim(`\n  ${errors} error(s), ${issues.length - errors} warning(s).\n`));
+        if (errors > 0) {
+          process.exit(1);
+        }
+        return;
+      }
+
+      if (action === 'coverage') {
+        if (!file) {
+          console.log(chalk.red('\n  Please specify a directory: sortora rules coverage <path>\n'));
+          return;
+        }
+
+        const fullPath = resolve(expandPath(file));
+        if (!existsSync(fullPath)) {
+          console.error(chalk.red(`Path not found: ${fullPath}`));
+          process.exit(1);
+        }
+
+        const db = new Database(paths.databaseFile);
+        try {
+          await db.init();
+
+          const scanner = new Scanner(db);
+          const analyzer = new Analyzer(paths.modelsDir);
+          const ruleEngine = new RuleEngine(config, parseRulesFile(paths.rulesFile));
+
+          const spinner = ora('Scanning files...').start();
+          const files = await scanner.scan(fullPath, { recursive: options.deep || false });
+          spinner.text = 'Analyzing files...';
+          const analyzed = await analyzer.analyzeMany(files);
+          spinner.succeed(`Analyzed ${analyzed.length} files`);
+
+          const report = computeCoverage(ruleEngine, analyzed);
+
+          if (options.json) {
+            console.log(JSON.stringify(report, null, 2));
+            return;
+          }
+
+          const matchedFiles = report.totalFiles - report.unmatched.length;
+          console.log(chalk.bold(`\n  Rule coverage for ${chalk.cyan(fullPath)}:\n`));
+          renderCoverageTable(report.rules, report.totalFiles);
+
+          console.log(`\n  ${matchedFiles} of ${report.totalFiles} file(s) matched a rule.`);
+
+          if (report.unmatched.length > 0) {
+            console.log(chalk.yellow(`\n  ${report.unmatched.length} file(s) match no rule:`));
+            for (const path of report.unmatched.slice(0, 20)) {
+              console.log(chalk.dim(`    ${path}`));
+            }
+            if (report.unmatched.length > 20) {
+              console.log(chalk.dim(`    ... and ${report.unmatched.length - 20} more`));
+            }
+          }
+
+          if (report.neverFired.length > 0) {
+            console.log(chalk.yellow(`\n  ${report.neverFired.length} rule(s) never fire:`));
+            console.log(chalk.dim(`    ${report.neverFired.join(', ')}`));
+          }
+
+          if (report.overlaps.length > 0) {
+            console.log(chalk.bold(`\n  ${report.overlaps.length} file(s) match more than one rule:\n`));
+            renderOverlapsTable(report.overlaps);
+          }
+          console.log();
+        } finally {
+          db.close();
+        }
+        return;
+      }
+
+      if (action === 'preset') {
+        await handlePresetAction(file || 'list', name, config.rules, paths.rulesFile);
+        return;
+      }
+
       if (action === 'add') {
         const answers = await inquirer.prompt([
           {
@@ -115,6 +295,7 @@ export function registerRulesCommand(program: Command): void {
         const newRule = {
           name: answers.name,
           priority: answers.priority,
+          enabled: true,
           match: {
             extension: answers.extensions ? answers.extensions.split(',').map((s: string) => s.trim()) : undefined,
             filename: answers.patterns ? answers.patterns.split(',').map((s: string) => s.trim()) : undefined,
@@ -228,6 +409,107 @@ export function registerRulesCommand(program: Command): void {
         return;
       }
 
-      console.log(chalk.yellow('\n  Unknown action. Use: list, add, test <file>, edit, export [file], import <file>\n'));
+      console.log(chalk.yellow('\n  Unknown action. Use: list, add, test [file], lint, coverage <path>, preset, edit, export [file], import <file>\n'));
     });
 }
+
+async function handlePresetAction(
+  subAction: string,
+  presetName: string | undefined,
+  configRules: ParsedRule[],
+  rulesFilePath: string
+): Promise<void> {
+  const fileRules = parseRulesFile(rulesFilePath).rules;
+
+  if (subAction === 'list') {
+    console.log(chalk.bold('\n  Rule presets:\n'));
+    for (const preset of presets) {
+      const enabled = fileRules.some(rule => isPresetRule(preset, rule));
+      const status = enabled ? chalk.green(' [enabled]') : '';
+      console.log(chalk.cyan(`  ${preset.name}`) + chalk.dim(` (${preset.rules.length} rules)`) + status);
+      console.log(chalk.dim(`    ${preset.description}`));
+    }
+    console.log(chalk.dim('\n  Run "sortora rules preset show <name>" to see its rules.\n'));
+    return;
+  }
+
+  if (!['show', 'enable', 'disable'].includes(subAction)) {
+    console.log(chalk.yellow('\n  Unknown preset action. Use: list, show <name>, enable <name>, disable <name>\n'));
+    return;
+  }
+
+  if (!presetName) {
+    console.log(chalk.red(`\n  Please specify a preset: sortora rules preset ${subAction} <name>\n`));
+    return;
+  }
+
+  const preset = getPreset(presetName);
+  if (!preset) {
+    console.log(chalk.red(`\n  Unknown preset "${presetName}". Available: ${presets.map(p => p.name).join(', ')}\n`));
+    return;
+  }
+
+  if (subAction === 'show') {
+    console.log(chalk.bold(`\n  Preset ${preset.name}: `) + chalk.dim(preset.description) + '\n');
+    renderRulesTable(getPresetRules(preset));
+    console.log();
+    return;
+  }
+
+  if (subAction === 'disable') {
+    const remaining = fileRules.filter(rule => !isPresetRule(preset, rule));
+    if (remaining.length === fileRules.length) {
+      console.log(chalk.yellow(`\n  Preset "${preset.name}" is not enabled.\n`));
+      return;
+    }
+
+    saveRulesFileRules(rulesFilePath, remaining);
+    console.log(chalk.green(`\n  Preset "${preset.name}" disabled (${fileRules.length - remaining.length} rule(s) removed).\n`));
+    return;
+  }
+
+  // enable
+  if (fileRules.some(rule => isPresetRule(preset, rule))) {
+    console.log(chalk.yellow(`\n  Preset "${preset.name}" is already enabled.\n`));
+    return;
+  }
+
+  const conflicts = findPresetConflicts(preset, mergeRules(configRules, fileRules));
+  if (conflicts.length > 0) {
+    console.log(chalk.yellow(`\n  Preset "${preset.name}" overlaps with your rules:\n`));
+    for (const conflict of conflicts) {
+      const reason = conflict.reason === 'name'
+        ? 'same name, both rules stay active'
+        : 'same priority and extensions, the order between them is arbitrary';
+      console.log(`    ${chalk.cyan(`${preset.name}/${conflict.presetRule}`)} ↔ ${chalk.cyan(conflict.existingRule)}` + chalk.dim(` (${reason})`));
+    }
+    console.log();
+
+    const { proceed } = await inquirer.prompt([{
+      type: 'confirm',
+      name: 'proceed',
+      message: 'Enable the preset anyway?',
+      default: false,
+    }]);
+
+    if (!proceed) {
+      console.log(chalk.yellow('\n  Cancelled.\n'));
+      return;
+    }
+  }
+
+  saveRulesFileRules(rulesFilePath, [...fileRules, ...getPresetRules(preset)]);
+  console.log(chalk.green(`\n  Preset "${preset.name}" enabled: ${preset.rules.length} rule(s) added to ${rulesFilePath}.\n`));
+}
+
+function printTrace(trace: ConditionTrace[], depth: number): void {
+  for (const node of trace) {
+    const indent = '  '.repeat(depth);
+    const mark = node.matched ? chalk.green('✓') : chalk.red('✗');
+    const label = node.matched ? node.condition : chalk.dim(node.condition);
+    console.log(`${indent}${mark} ${label}`);
+    if (node.children) {
+      printTrace(node.children, depth + 1);
+    }
+  }
+}
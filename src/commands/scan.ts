@@ -114,7 +114,7 @@ export function registerScanCommand(program: Command): void {
           }
 
           if (options.duplicates) {
-            const duplicates = scanner.findDuplicates(analyzed);
+            const duplicates = await scanner.findConfirmedDuplicates(analyzed);
             if (duplicates.length > 0) {
               console.log(chalk.yellow(`\n  Found ${duplicates.length} duplicate groups\n`));
             }
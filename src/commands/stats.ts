@@ -2,11 +2,14 @@ import { Command } from 'commander';
 import chalk from 'chalk';
 import ora from 'ora';
 
-import { getAppPaths } from '../config.js';
+import { loadConfig, getAppPaths } from '../config.js';
 import { Database } from '../storage/database.js';
+import { FeedbackHandler } from '../learning/feedback.js';
+import { PatternTracker } from '../learning/pattern-tracker.js';
 import {
   renderStatsOverview,
   renderTopRules,
+  renderRuleAccuracyTable,
   renderDuplicateStats,
   renderOverallStats,
   type StatsData,
@@ -19,7 +22,7 @@ export function registerStatsCommand(program: Command): void {
     .description('Show organization statistics and reports')
     .option('--json', 'Output as JSON')
     .option('--period <period>', 'Show stats for specific period (day, week, month)', 'all')
-    .option('--rules', 'Show only top rules statistics')
+    .option('--rules', 'Show per-rule acceptance, modification and undo rates')
     .option('--duplicates', 'Show only duplicate statistics')
     .action(async (options) => {
       const paths = getAppPaths();
@@ -43,15 +46,26 @@ export function registerStatsCommand(program: Command): void {
 
         spinner.succeed('Statistics gathered');
 
+        if (options.rules) {
+          const { learning } = loadConfig();
+          const ruleAccuracy = new FeedbackHandler(db, new PatternTracker(db)).getRuleAccuracy();
+
+          if (options.json) {
+            console.log(JSON.stringify(ruleAccuracy, null, 2));
+          } else {
+            renderTopRules(statsData.topRules);
+            renderRuleAccuracyTable(ruleAccuracy, learning.demoteBelow, learning.minSamples);
+          }
+          return;
+        }
+
         if (options.json) {
           console.log(JSON.stringify(statsData, null, 2));
           return;
         }
 
         // Render specific sections or all
-        if (options.rules) {
-          renderTopRules(statsData.topRules);
-        } else if (options.duplicates) {
+        if (options.duplicates) {
           renderDuplicateStats(statsData);
         } else if (options.period !== 'all') {
           // Show specific period
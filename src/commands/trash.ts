@@ -0,0 +1,137 @@
+import { Command } from 'commander';
+import chalk from 'chalk';
+import inquirer from 'inquirer';
+import { resolve } from 'path';
+
+import { getAppPaths, expandPath } from '../config.js';
+import { Database } from '../storage/database.js';
+import { getTrashContents, restoreFromTrash, emptyTrash } from '../actions/delete.js';
+import { parseAge } from '../rules/parser.js';
+import { renderTrashTable } from '../ui/table.js';
+import { formatSize } from '../ui/colors.js';
+
+export function registerTrashCommand(program: Command): void {
+  program
+    .command('trash')
+    .description('List, restore or purge files sortora moved to the trash')
+    .argument('[action]', 'list, restore <entry>, purge')
+    .argument('[entry]', 'Trash entry ID or original path for restore')
+    .option('--to <path>', 'Restore to this path instead of the original location')
+    .option('--older-than <age>', 'Only purge entries trashed longer ago, e.g. "30 days"')
+    .option('-y, --yes', 'Purge without asking')
+    .option('--json', 'Output as JSON (list)')
+    .action(async (action, entryArg, options) => {
+      const paths = getAppPaths();
+      const db = new Database(paths.databaseFile);
+
+      try {
+        await db.init();
+
+        if (!action || action === 'list') {
+          const { files, totalSize } = await getTrashContents(db);
+
+          if (options.json) {
+            console.log(JSON.stringify(files, null, 2));
+            return;
+          }
+
+          if (files.length === 0) {
+            console.log(chalk.yellow('\n  Nothing in the trash from sortora.\n'));
+            return;
+          }
+
+          console.log(chalk.bold(`\n  ${files.length} item(s) in the trash, ${formatSize(totalSize)}:\n`));
+          renderTrashTable(files);
+          console.log(chalk.dim('\n  Run "sortora trash restore <id>" to put one back.\n'));
+          return;
+        }
+
+        if (action === 'restore') {
+          if (!entryArg) {
+            console.error(chalk.red('Usage: sortora trash restore <id|original path>'));
+            process.exit(1);
+          }
+
+          const { files } = await getTrashContents(db);
+          const originalPath = resolve(expandPath(entryArg));
+          // An ID, or the latest trashed file from that path
+          const entry = /^\d+$/.test(entryArg)
+            ? files.find(f => f.id === parseInt(entryArg, 10))
+            : files.find(f => f.originalPath === originalPath);
+
+          if (!entry) {
+            console.log(chalk.red(`\n  No trash entry for "${entryArg}".\n`));
+            process.exitCode = 1;
+            return;
+          }
+
+          const destination = options.to ? resolve(expandPath(options.to)) : undefined;
+          const result = await restoreFromTrash(db, entry.id, destination);
+
+          if (!result.success) {
+            console.log(chalk.red(`\n  Restore failed: ${result.error}\n`));
+            process.exitCode = 1;
+            return;
+          }
+
+          console.log(chalk.green(`\n  Restored ${result.path}`));
+          if (result.path !== (destination ?? entry.originalPath)) {
+            console.log(chalk.dim('  The original name was taken, so it got a new one.'));
+          }
+          console.log();
+          return;
+        }
+
+        if (action === 'purge') {
+          let olderThan: Date | undefined;
+          if (options.olderThan) {
+            const age = parseAge(`> ${options.olderThan}`);
+            if (!age) {
+              console.error(chalk.red(`Invalid age "${options.olderThan}": use e.g. "30 days", "2 weeks" or "6 months".`));
+              process.exit(1);
+            }
+            olderThan = new Date(Date.now() - age.days * 24 * 60 * 60 * 1000);
+          }
+
+          const { files } = await getTrashContents(db);
+          const toPurge = files.filter(f => !olderThan || f.deletedAt < olderThan);
+
+          if (toPurge.length === 0) {
+            console.log(chalk.yellow('\n  Nothing to purge.\n'));
+            return;
+          }
+
+          const size = toPurge.reduce((sum, f) => sum + f.size, 0);
+
+          if (!options.yes) {
+            const { confirm } = await inquirer.prompt([{
+              type: 'confirm',
+              name: 'confirm',
+              message: `Permanently delete ${toPurge.length} item(s) (${formatSize(size)})? This can't be undone.`,
+              default: false,
+            }]);
+            if (!confirm) {
+              return;
+            }
+          }
+
+          const result = await emptyTrash(db, { olderThan });
+
+          console.log(chalk.green(`\n  Purged ${result.deleted} item(s), freed ${formatSize(result.freed)}.`));
+          for (const error of result.errors) {
+            console.log(chalk.yellow(`  Failed: ${error}`));
+          }
+          console.log();
+          return;
+        }
+
+        console.log(chalk.yellow('\n  Unknown action. Use: list, restore <entry>, purge\n'));
+      } catch (error) {
+        console.error(chalk.red('Trash command failed'));
+        console.error(error);
+        process.exit(1);
+      } finally {
+        db.close();
+      }
+    });
+}
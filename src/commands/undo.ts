@@ -4,7 +4,7 @@ import inquirer from 'inquirer';
 
 import { getAppPaths } from '../config.js';
 import { Executor } from '../core/executor.js';
-import { Database } from '../storage/database.js';
+import { Database, type OperationRecord } from '../storage/database.js';
 
 export function registerUndoCommand(program: Command): void {
   program
@@ -14,6 +14,7 @@ export function registerUndoCommand(program: Command): void {
     .option('--id <id>', 'Undo specific operation by ID')
     .option('--last <n>', 'Undo last N operations')
     .option('--all-recent', 'Undo all recent undoable operations')
+    .option('--session <id>', 'Undo all operations of a session (see "sortora history")')
     .action(async (options) => {
       const paths = getAppPaths();
       const db = new Database(paths.databaseFile);
@@ -23,6 +24,15 @@ export function registerUndoCommand(program: Command): void {
 
         const executor = new Executor(db);
 
+        // Roll back a transactional run that was interrupted
+        const { recovered, failed } = await executor.recoverPendingBatches();
+        if (recovered > 0) {
+          console.log(chalk.yellow(`\n  Rolled back ${recovered} interrupted batch(es) from a previous run.`));
+        }
+        if (failed > 0) {
+          console.log(chalk.red(`\n  Could not fully roll back ${failed} interrupted batch(es): some files were not restored.`));
+        }
+
         if (options.all) {
           const operations = db.getOperations(50);
           if (operations.length === 0) {
@@ -34,7 +44,9 @@ export function registerUndoCommand(program: Command): void {
           for (const op of operations) {
             const date = new Date(op.createdAt * 1000).toLocaleString();
             const undone = op.undoneAt ? chalk.dim(' (undone)') : '';
-            console.log(chalk.dim(`  #${op.id}`) + ` ${op.type}: ${op.source}${undone}`);
+            const chain = op.groupId !== null ? chalk.dim(` [chain #${op.groupId}]`) : '';
+            const redo = op.redoOf !== null ? chalk.dim(` (redo of #${op.redoOf})`) : '';
+            console.log(chalk.dim(`  #${op.id}`) + ` ${op.type}: ${op.source}${chain}${redo}${undone}`);
             console.log(chalk.dim(`       ${date}`));
           }
           return;
@@ -51,6 +63,29 @@ export function registerUndoCommand(program: Command): void {
           return;
         }
 
+        if (options.session) {
+          const sessionId = parseInt(options.session, 10);
+          const session = db.getSession(sessionId);
+          if (!session) {
+            console.log(chalk.red(`\n  Session #${options.session} not found.\n`));
+            return;
+          }
+
+          // Newest first, so later operations are reverted before earlier ones
+          const undoable = db.getSessionOperations(sessionId)
+            .filter(op => !op.undoneAt)
+            .reverse();
+
+          if (undoable.length === 0) {
+            console.log(chalk.yellow(`\n  Nothing to undo in session #${sessionId}.\n`));
+            return;
+          }
+
+          console.log(chalk.bold(`\n  Undoing session #${sessionId} (${session.command}, ${undoable.length} operation(s)):\n`));
+          await undoOperations(executor, undoable);
+          return;
+        }
+
         // #22: Batch undo - undo last N operations
         if (options.last) {
           const count = parseInt(options.last, 10);
@@ -68,22 +103,7 @@ export function registerUndoCommand(program: Command): void {
           }
 
           console.log(chalk.bold(`\n  Undoing ${undoable.length} operation(s):\n`));
-
-          let undoneCount = 0;
-          let failedCount = 0;
-
-          for (const op of undoable) {
-            const success = await executor.undo(op.id);
-            if (success) {
-              console.log(chalk.green(`  #${op.id} ${op.type}: ${op.source} - undone`));
-              undoneCount++;
-            } else {
-              console.log(chalk.red(`  #${op.id} ${op.type}: ${op.source} - failed`));
-              failedCount++;
-            }
-          }
-
-          console.log(chalk.bold(`\n  Summary: ${undoneCount} undone, ${failedCount} failed.\n`));
+          await undoOperations(executor, undoable);
           return;
         }
 
@@ -109,21 +129,7 @@ export function registerUndoCommand(program: Command): void {
             return;
           }
 
-          let undoneCount = 0;
-          let failedCount = 0;
-
-          for (const op of undoable) {
-            const success = await executor.undo(op.id);
-            if (success) {
-              console.log(chalk.green(`  #${op.id} ${op.type}: ${op.source} - undone`));
-              undoneCount++;
-            } else {
-              console.log(chalk.red(`  #${op.id} ${op.type}: ${op.source} - failed`));
-              failedCount++;
-            }
-          }
-
-          console.log(chalk.bold(`\n  Summary: ${undoneCount} undone, ${failedCount} failed.\n`));
+          await undoOperations(executor, undoable);
           return;
         }
 
@@ -164,3 +170,32 @@ export function registerUndoCommand(program: Command): void {
       }
     });
 }
+
+/**
+ * Undo operations in the given order and print a summary
+ */
+async function undoOperations(executor: Executor, operations: OperationRecord[]): Promise<void> {
+  let undoneCount = 0;
+  let failedCount = 0;
+
+  const undoneGroups = new Set<number>();
+
+  for (const op of operations) {
+    // Undoing one operation of an action chain undoes the whole chain
+    if (op.groupId !== null) {
+      if (undoneGroups.has(op.groupId)) continue;
+      undoneGroups.add(op.groupId);
+    }
+
+    const success = await executor.undo(op.id);
+    if (success) {
+      console.log(chalk.green(`  #${op.id} ${op.type}: ${op.source} - undone`));
+      undoneCount++;
+    } else {
+      console.log(chalk.red(`  #${op.id} ${op.type}: ${op.source} - failed`));
+      failedCount++;
+    }
+  }
+
+  console.log(chalk.bold(`\n  Summary: ${undoneCount} undone, ${failedCount} failed.\n`));
+}
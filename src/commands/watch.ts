@@ -1,61 +1,139 @@
 import { Command } from 'commander';
 import chalk from 'chalk';
-import { resolve } from 'path';
+import { resolve, basename } from 'path';
 import { existsSync } from 'fs';
 
-import { loadConfig, getAppPaths, expandPath } from '../config.js';
-import { Watcher } from '../core/watcher.js';
+import { loadConfig, getAppPaths, expandPath, parseWatchDirectory, type WatchDirectory } from '../config.js';
+import { Watcher, watchDirectories } from '../core/watcher.js';
 import { Database } from '../storage/database.js';
+import { parseRulesFile } from '../rules/parser.js';
+import { formatSuggestionTarget } from '../core/suggester.js';
 
 export function registerWatchCommand(program: Command): void {
   program
-    .command('watch <path>')
-    .description('Monitor a directory for new files')
+    .command('watch [path]')
+    .description('Monitor a directory, or the directories from the config, for new files')
     .option('--auto', 'Automatically organize new files')
     .action(async (targetPath, options) => {
-      const fullPath = resolve(expandPath(targetPath));
-
-      if (!existsSync(fullPath)) {
-        console.error(chalk.red(`Path not found: ${fullPath}`));
-        process.exit(1);
-      }
-
-      console.log(chalk.bold(`\n  Watching ${chalk.cyan(fullPath)}`));
-      console.log(chalk.dim('  Press Ctrl+C to stop\n'));
-
       const config = loadConfig();
       const paths = getAppPaths();
-      const db = new Database(paths.databaseFile);
-      await db.init();
+      let directories: WatchDirectory[];
 
-      const watcher = new Watcher(db, config, paths.modelsDir);
+      if (targetPath) {
+        const fullPath = resolve(expandPath(targetPath));
 
-      watcher.on('file', (file) => {
-        const time = new Date().toLocaleTimeString();
-        console.log(chalk.dim(`${time} |`) + chalk.cyan(` New: ${file.filename}`));
-      });
+        if (!existsSync(fullPath)) {
+          console.error(chalk.red(`Path not found: ${fullPath}`));
+          process.exit(1);
+        }
 
-      watcher.on('changed', (file) => {
-        const time = new Date().toLocaleTimeString();
-        console.log(chalk.dim(`${time} |`) + chalk.yellow(` Changed: ${file.filename}`));
-      });
+        // Settings from the watch section apply when the path is listed there
+        const configured = config.watch.directories.find(d => resolve(expandPath(d.path)) === fullPath);
+        directories = [parseWatchDirectory({ ...configured, path: fullPath })];
+      } else {
+        directories = config.watch.directories;
 
-      watcher.on('organized', (_file, destination) => {
-        console.log(chalk.green(`       -> ${destination}`));
-      });
+        if (directories.length === 0) {
+          console.error(chalk.red('No path given and no directories in the watch section of the config.'));
+          process.exit(1);
+        }
+      }
 
-      watcher.on('error', (error) => {
-        console.error(chalk.red(`       Error: ${error.message}`));
-      });
+      if (options.auto) {
+        directories = directories.map(d => ({ ...d, mode: 'auto' }));
+      }
 
-      await watcher.start(fullPath, { auto: options.auto || false });
+      for (const directory of directories) {
+        console.log(chalk.bold(`\n  Watching ${chalk.cyan(expandPath(directory.path))}`) + chalk.dim(` (${directory.mode})`));
+      }
+      console.log(chalk.dim('  Press Ctrl+C to stop\n'));
+
+      const db = new Database(paths.databaseFile);
+      await db.init();
+
+      const watchers = await watchDirectories(
+        directories,
+        db,
+        config,
+        paths.modelsDir,
+        parseRulesFile(paths.rulesFile),
+        (watcher, directory) => reportWatchEvents(watcher, {
+          label: directories.length > 1 ? basename(expandPath(directory.path)) : undefined,
+        })
+      );
 
       // #6: Close DB on exit
       process.on('SIGINT', () => {
-        watcher.stop();
+        for (const watcher of watchers) {
+          watcher.stop();
+        }
         db.close();
         console.log(chalk.yellow('\n  Stopped watching.\n'));
         process.exit(0);
       });
     });
 }
+
+/**
+ * Print what a watcher does, one line per event. The daemon uses full
+ * timestamps, since its log covers days.
+ */
+export function reportWatchEvents(
+  watcher: Watcher,
+  options: { label?: string; fullTime?: boolean } = {}
+): void {
+  const prefix = () => {
+    const now = new Date();
+    const time = options.fullTime ? now.toISOString() : now.toLocaleTimeString();
+    return chalk.dim(`${time} |`) + (options.label ? chalk.dim(` ${options.label}:`) : '');
+  };
+
+  watcher.on('file', (file) => {
+    console.log(prefix() + chalk.cyan(` New: ${file.filename}`));
+  });
+
+  watcher.on('changed', (file) => {
+    console.log(prefix() + chalk.yellow(` Changed: ${file.filename}`));
+  });
+
+  watcher.on('organized', (_file, destination) => {
+    console.log(chalk.green(`       -> ${destination}`));
+  });
+
+  watcher.on('suggested', (_file, suggestion) => {
+    console.log(chalk.cyan(`       -> ${formatSuggestionTarget(suggestion)}`)
+      + chalk.dim(` (${suggestion.ruleName}, ${Math.round(suggestion.confidence * 100)}%, in the inbox)`));
+  });
+
+  watcher.on('skipped', (_file, reason) => {
+    console.log(chalk.dim(`       Skipped: ${reason}`));
+  });
+
+  watcher.on('directory', (path, files) => {
+    console.log(prefix() + chalk.cyan(` New folder: ${basename(path)} (${files.length} file${files.length === 1 ? '' : 's'})`));
+  });
+
+  watcher.on('directoryOrganized', (_path, destination) => {
+    console.log(chalk.green(`       -> ${destination}`));
+  });
+
+  watcher.on('directorySkipped', (_path, reason) => {
+    console.log(chalk.dim(`       Skipped: ${reason}`));
+  });
+
+  watcher.on('directorySuggested', (_path, destination) => {
+    console.log(chalk.cyan(`       -> ${destination}`) + chalk.dim(' (in the inbox)'));
+  });
+
+  watcher.on('renamed', (from, to) => {
+    console.log(prefix() + chalk.dim(` Renamed: ${basename(from)} -> ${to}`));
+  });
+
+  watcher.on('removed', (path) => {
+    console.log(prefix() + chalk.dim(` Removed: ${basename(path)}`));
+  });
+
+  watcher.on('error', (error) => {
+    console.error(prefix() + chalk.red(` Error: ${error.message}`));
+  });
+}
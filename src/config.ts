@@ -4,6 +4,7 @@ import { existsSync, mkdirSync, readFileSync, writeFileSync } from 'fs';
 import { fileURLToPath } from 'url';
 import YAML from 'yaml';
 import { z } from 'zod';
+import { RuleSchema } from './rules/parser.js';
 
 // #9: Read version from package.json instead of hardcoding
 function getPackageVersion(): string {
@@ -55,6 +56,20 @@ const AIProviderSchema = z.object({
   }).default({}),
 }).default({});
 
+// A directory watched by "sortora watch" and the daemon
+const WatchDirectorySchema = z.object({
+  path: z.string(),
+  // auto organizes new files, suggest only reports what would be done
+  mode: z.enum(['suggest', 'auto']).default('suggest'),
+  minConfidence: z.number().min(0).max(1).default(0.8),
+  // Wait this long after the last change before handling a file
+  debounceMs: z.number().int().min(0).default(1000),
+  // Added to settings.ignorePatterns
+  ignorePatterns: z.array(z.string()).default([]),
+  // Only apply these rules; all rules when unset
+  rules: z.array(z.string()).optional(),
+});
+
 const ConfigSchema = z.object({
   version: z.number().default(1),
   settings: z.object({
@@ -70,6 +85,31 @@ const ConfigSchema = z.object({
     ]),
   }).default({}),
   ai: AIProviderSchema,
+  duplicates: z.object({
+    // Which copy to keep, most important preference first
+    keep: z.array(z.enum([
+      'destinations',
+      'not-avoided',
+      'exif',
+      'readable-name',
+      'shortest-name',
+      'oldest',
+      'newest',
+      'largest',
+    ])).default(['destinations', 'not-avoided', 'exif', 'readable-name', 'shortest-name']),
+    avoid: z.array(z.string()).default(['~/Downloads', '~/Desktop']),
+    // Copies in these folders are never deleted
+    protected: z.array(z.string()).default([]),
+  }).default({}),
+  learning: z.object({
+    // Rules less accurate than this only suggest, even with --auto
+    demoteBelow: z.number().min(0).max(1).default(0.5),
+    // Decisions needed before a rule can be demoted
+    minSamples: z.number().int().min(1).default(5),
+  }).default({}),
+  watch: z.object({
+    directories: z.array(WatchDirectorySchema).default([]),
+  }).default({}),
   destinations: z.record(z.string()).default(() => ({
     photos: '~/Pictures/Sorted',
     screenshots: '~/Pictures/Screenshots',
@@ -82,31 +122,11 @@ const ConfigSchema = z.object({
     archives: '~/Archives',
     trash: getDefaultTrashPath(),
   })),
-  rules: z.array(z.object({
-    name: z.string(),
-    priority: z.number().default(50),
-    match: z.object({
-      extension: z.array(z.string()).optional(),
-      filename: z.array(z.string()).optional(),
-      type: z.string().optional(),
-      hasExif: z.boolean().optional(),
-      contentContains: z.array(z.string()).optional(),
-      location: z.string().optional(),
-      age: z.string().optional(),
-      accessed: z.string().optional(),
-    }),
-    useAi: z.boolean().optional(),
-    action: z.object({
-      moveTo: z.string().optional(),
-      suggestTo: z.string().optional(),
-      archiveTo: z.string().optional(),
-      delete: z.boolean().optional(),
-      confirm: z.boolean().optional(),
-    }),
-  })).default([]),
+  rules: z.array(RuleSchema).default([]),
 });
 
 export type Config = z.infer<typeof ConfigSchema>;
+export type WatchDirectory = z.infer<typeof WatchDirectorySchema>;
 
 export interface AppPaths {
   configDir: string;
@@ -116,6 +136,8 @@ export interface AppPaths {
   modelsDir: string;
   cacheDir: string;
   rulesFile: string;
+  daemonPidFile: string;
+  daemonLogFile: string;
 }
 
 // #3: Platform-specific config paths
@@ -135,6 +157,13 @@ export function getAppPaths(): AppPaths {
     dataDir = join(homedir(), '.local', 'share', 'sortora');
   }
 
+  if (process.env.SORTORA_CONFIG_DIR) {
+    configDir = expandPath(process.env.SORTORA_CONFIG_DIR);
+  }
+  if (process.env.SORTORA_DATA_DIR) {
+    dataDir = expandPath(process.env.SORTORA_DATA_DIR);
+  }
+
   return {
     configDir,
     configFile: join(configDir, 'config.yaml'),
@@ -143,6 +172,8 @@ export function getAppPaths(): AppPaths {
     databaseFile: join(dataDir, 'sortora.db'),
     modelsDir: join(dataDir, 'models'),
     cacheDir: join(dataDir, 'cache'),
+    daemonPidFile: join(dataDir, 'daemon.pid'),
+    daemonLogFile: join(dataDir, 'daemon.log'),
   };
 }
 
@@ -208,6 +239,13 @@ export function expandPath(inputPath: string): string {
   return result;
 }
 
+/**
+ * Fill in the defaults of a watched directory
+ */
+export function parseWatchDirectory(directory: Partial<WatchDirectory> & { path: string }): WatchDirectory {
+  return WatchDirectorySchema.parse(directory);
+}
+
 export function getDestination(config: Config, key: string): string {
   const dest = config.destinations[key];
   if (!dest) {
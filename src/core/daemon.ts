@@ -0,0 +1,99 @@
+import { spawn } from 'child_process';
+import { existsSync, openSync, closeSync, readFileSync, writeFileSync, unlinkSync, statSync } from 'fs';
+import { dirname } from 'path';
+import { ensureDirSync } from '../utils/fs-safe.js';
+import { isProcessAlive } from '../utils/process.js';
+import type { AppPaths } from '../config.js';
+
+export interface DaemonStatus {
+  running: boolean;
+  pid: number | null;
+  startedAt: Date | null;
+}
+
+/**
+ * Read the PID file. A PID file left behind by a daemon that died is
+ * reported as not running.
+ */
+export function getDaemonStatus(pidFile: string): DaemonStatus {
+  if (!existsSync(pidFile)) {
+    return { running: false, pid: null, startedAt: null };
+  }
+
+  const pid = parseInt(readFileSync(pidFile, 'utf-8').trim(), 10);
+  if (isNaN(pid) || !isProcessAlive(pid)) {
+    return { running: false, pid: null, startedAt: null };
+  }
+
+  return { running: true, pid, startedAt: statSync(pidFile).mtime };
+}
+
+export function writePidFile(pidFile: string, pid: number): void {
+  ensureDirSync(dirname(pidFile));
+  writeFileSync(pidFile, `${pid}\n`, 'utf-8');
+}
+
+/**
+ * Remove the PID file, unless another daemon has taken it over since
+ */
+export function removePidFile(pidFile: string, pid: number): void {
+  try {
+    if (parseInt(readFileSync(pidFile, 'utf-8').trim(), 10) === pid) {
+      unlinkSync(pidFile);
+    }
+  } catch {
+    // Already gone
+  }
+}
+
+/**
+ * Start "sortora daemon run" in the background, detached from the terminal,
+ * with its output appended to the log file
+ */
+export function startDaemon(paths: AppPaths): number {
+  ensureDirSync(dirname(paths.daemonLogFile));
+  const log = openSync(paths.daemonLogFile, 'a');
+
+  try {
+    const child = spawn(process.execPath, [...process.execArgv, process.argv[1], 'daemon', 'run'], {
+      detached: true,
+      stdio: ['ignore', log, log],
+      env: process.env,
+    });
+
+    if (!child.pid) {
+      throw new Error('Could not start the daemon process');
+    }
+
+    writePidFile(paths.daemonPidFile, child.pid);
+    child.unref();
+    return child.pid;
+  } finally {
+    closeSync(log);
+  }
+}
+
+/**
+ * Ask the daemon to stop and wait for it to exit. Returns false if it was
+ * still running after the timeout.
+ */
+export async function stopDaemon(pidFile: string, timeoutMs = 10000): Promise<boolean> {
+  const { running, pid } = getDaemonStatus(pidFile);
+
+  if (!running || pid === null) {
+    return true;
+  }
+
+  process.kill(pid, 'SIGTERM');
+
+  const deadline = Date.now() + timeoutMs;
+  while (Date.now() < deadline) {
+    if (!isProcessAlive(pid)) {
+      removePidFile(pidFile, pid);
+      return true;
+    }
+    await new Promise(resolve => setTimeout(resolve, 200));
+  }
+
+  return false;
+}
@@ -1,12 +1,17 @@
-import { dirname, join } from 'path';
+import { dirname, join, basename } from 'path';
 import { createWriteStream } from 'fs';
 import { pipeline } from 'stream/promises';
 import { createGzip } from 'zlib';
 import { createReadStream } from 'fs';
-import { safeMove, safeCopy, safeDelete, ensureDir, restoreFromTrash, exists, type TrashInfo } from '../utils/fs-safe.js';
-import { Database } from '../storage/database.js';
+import { open } from 'fs/promises';
+import { safeMove, safeCopy, safeDelete, newTrashPath, ensureDir, exists, getAvailablePath, type TrashInfo } from '../utils/fs-safe.js';
+import { undoOperation, recordChainUndoFeedback, type UndoOptions } from '../actions/undo.js';
+import { linkFile, type LinkMode } from '../actions/link.js';
+import { Database, type OperationRecord } from '../storage/database.js';
 import { createLogger } from '../utils/logger.js';
+import { isProcessAlive } from '../utils/process.js';
 import type { Suggestion } from './suggester.js';
+import type { ResolvedAction } from '../rules/actions.js';
 
 const logger = createLogger('executor');
 
@@ -18,6 +23,16 @@ export interface ExecutionResult {
   trashInfo?: TrashInfo;
 }
 
+export interface BatchResult {
+  success: boolean;
+  batchId: number;
+  results: ExecutionResult[];
+  // Suggestion that failed and caused the rollback
+  failed?: Suggestion;
+  error?: string;
+  rolledBack?: number;
+}
+
 // Lock manager for preventing race conditions
 class LockManager {
   private locks = new Map<string, Promise<void>>();
@@ -50,11 +65,78 @@ class LockManager {
 // Global lock manager instance
 const lockManager = new LockManager();
 
+/**
+ * Whether the file starts with the gzip magic bytes
+ */
+async function isGzipped(path: string): Promise<boolean> {
+  const handle = await open(path, 'r');
+  try {
+    const header = Buffer.alloc(2);
+    const { bytesRead } = await handle.read(header, 0, 2, 0);
+    return bytesRead === 2 && header[0] === 0x1f && header[1] === 0x8b;
+  } finally {
+    await handle.close();
+  }
+}
+
 export class Executor {
   private db: Database;
-
-  constructor(db: Database) {
+  // Batch that new operations are journaled under, if any
+  private batchId: number | null = null;
+  // Session (organize/rename/watch run) that new operations belong to
+  private sessionId: number | null;
+  // Undone operation being re-applied; new operations are linked to it
+  private redoing: OperationRecord | null = null;
+
+  constructor(db: Database, options: { sessionId?: number } = {}) {
     this.db = db;
+    this.sessionId = options.sessionId ?? null;
+  }
+
+  private recordOperation(
+    op: Parameters<Database['insertOperation']>[0]
+  ): number {
+    const id = this.db.insertOperation({
+      ...op,
+      batchId: this.batchId,
+      // A redo belongs to the run it re-applies, so undo --session covers it
+      sessionId: this.redoing ? this.redoing.sessionId : this.sessionId,
+      redoOf: this.redoing?.id ?? null,
+    });
+    this.flushJournal();
+
+    return id;
+  }
+
+  /**
+   * Journal an operation before its file change runs. It stays pending
+   * until finishOperation, so a crash in between leaves an entry recovery
+   * can check instead of a change nobody knows about.
+   */
+  private beginOperation(
+    op: Parameters<Database['insertOperation']>[0]
+  ): number {
+    return this.recordOperation({ ...op, pending: true });
+  }
+
+  private finishOperation(id: number, destination: string | null): void {
+    this.db.finishOperation(id, destination);
+    this.flushJournal();
+  }
+
+  // The change failed before it was done, so there is nothing to undo
+  private discardOperation(id: number | null): void {
+    if (id === null) return;
+    this.db.deletePendingOperation(id);
+    this.flushJournal();
+  }
+
+  private flushJournal(): void {
+    // Journal entries have to reach the disk before the next step runs,
+    // otherwise a crash leaves changes that recovery doesn't know about
+    if (this.batchId !== null) {
+      this.db.flush();
+    }
   }
 
   /**
@@ -81,6 +163,10 @@ export class Executor {
   }
 
   async execute(suggestion: Suggestion): Promise<ExecutionResult> {
+    if (suggestion.steps && suggestion.steps.length > 0) {
+      return this.executeChain(suggestion, suggestion.steps);
+    }
+
     try {
       switch (suggestion.action) {
         case 'move':
@@ -115,6 +201,23 @@ export class Executor {
             suggestion.confidence
           );
 
+        case 'rename':
+          return await this.move(
+            suggestion.file.path,
+            suggestion.destination,
+            suggestion.ruleName,
+            suggestion.confidence,
+            'rename'
+          );
+
+        case 'tag':
+          return this.tag(
+            suggestion.file.path,
+            suggestion.tags || [],
+            suggestion.ruleName,
+            suggestion.confidence
+          );
+
         default:
           return {
             success: false,
@@ -129,32 +232,111 @@ export class Executor {
     }
   }
 
+  /**
+   * Run the steps of an action chain in order, each on the path left by the
+   * previous one. The recorded operations are grouped so undo reverses the
+   * whole chain; if a step fails, the steps already done are rolled back.
+   */
+  private async executeChain(suggestion: Suggestion, steps: ResolvedAction[]): Promise<ExecutionResult> {
+    const { ruleName, confidence } = suggestion;
+    const operationIds: number[] = [];
+    let currentPath = suggestion.file.path;
+
+    for (const step of steps) {
+      let result: ExecutionResult;
+
+      try {
+        result = await this.executeStep(step, currentPath, ruleName, confidence);
+      } catch (error) {
+        result = {
+          success: false,
+          error: error instanceof Error ? error.message : 'Unknown error',
+        };
+      }
+
+      if (!result.success) {
+        for (const id of [...operationIds].reverse()) {
+          await this.undo(id, { recordFeedback: false });
+        }
+        logger.error(`Chain "${ruleName}" failed at ${step.type}, rolled back ${operationIds.length} step(s)`);
+        return {
+          success: false,
+          error: `${step.type} failed: ${result.error}`,
+        };
+      }
+
+      if (result.operationId) {
+        operationIds.push(result.operationId);
+      }
+      if (result.finalPath && step.type !== 'copy') {
+        currentPath = result.finalPath;
+      }
+    }
+
+    this.db.groupOperations(operationIds);
+
+    return {
+      success: true,
+      operationId: operationIds[0],
+      finalPath: currentPath,
+    };
+  }
+
+  private async executeStep(
+    step: ResolvedAction,
+    source: string,
+    ruleName: string,
+    confidence: number
+  ): Promise<ExecutionResult> {
+    // Destinations were planned from the expected path; keep the name the
+    // file actually has in case an earlier step had to avoid a collision
+    const target = (destination: string) => join(dirname(destination), basename(source));
+
+    switch (step.type) {
+      case 'move':
+        return this.move(source, target(step.destination!), ruleName, confidence);
+      case 'copy':
+        return this.copy(source, target(step.destination!), ruleName, confidence);
+      case 'archive':
+        return this.archive(source, target(step.destination!), ruleName, confidence);
+      case 'rename':
+        return this.rename(source, step.newName!, ruleName, confidence);
+      case 'tag':
+        return this.tag(source, step.tags || [], ruleName, confidence);
+      case 'delete':
+        return this.delete(source, true, ruleName, confidence);
+    }
+  }
+
   async move(
     source: string,
     destination: string,
     ruleName?: string,
-    confidence?: number
+    confidence?: number,
+    type: 'move' | 'rename' = 'move'
   ): Promise<ExecutionResult> {
     // Acquire locks to prevent race conditions
     const releases = await this.acquireLocks(source, destination);
+    let operationId: number | null = null;
 
     try {
       // Ensure destination directory exists
       const destDir = dirname(destination);
       await ensureDir(destDir);
 
-      // Perform move
-      const finalPath = await safeMove(source, destination);
-
-      // Record operation in database
-      const operationId = this.db.insertOperation({
-        type: 'move',
+      // Record operation in database, with the name it will get
+      operationId = this.beginOperation({
+        type,
         source,
-        destination: finalPath,
+        destination: await getAvailablePath(destination),
         ruleName: ruleName || null,
         confidence: confidence || null,
       });
 
+      // Perform move
+      const finalPath = await safeMove(source, destination);
+      this.finishOperation(operationId, finalPath);
+
       // Update file record in database
       this.db.updateFilePath(source, finalPath);
 
@@ -166,6 +348,7 @@ export class Executor {
         finalPath,
       };
     } catch (error) {
+      this.discardOperation(operationId);
       const errorMessage = error instanceof Error ? error.message : 'Move failed';
       logger.error(`Move failed: ${source} -> ${destination}: ${errorMessage}`);
       return {
@@ -186,24 +369,26 @@ export class Executor {
   ): Promise<ExecutionResult> {
     // Acquire locks to prevent race conditions
     const releases = await this.acquireLocks(source, destination);
+    let operationId: number | null = null;
 
     try {
       // Ensure destination directory exists
       const destDir = dirname(destination);
       await ensureDir(destDir);
 
-      // Perform copy
-      const finalPath = await safeCopy(source, destination);
-
       // Record operation
-      const operationId = this.db.insertOperation({
+      operationId = this.beginOperation({
         type: 'copy',
         source,
-        destination: finalPath,
+        destination: await getAvailablePath(destination),
         ruleName: ruleName || null,
         confidence: confidence || null,
       });
 
+      // Perform copy
+      const finalPath = await safeCopy(source, destination);
+      this.finishOperation(operationId, finalPath);
+
       logger.info(`Copied: ${source} -> ${finalPath}`);
 
       return {
@@ -212,6 +397,7 @@ export class Executor {
         finalPath,
       };
     } catch (error) {
+      this.discardOperation(operationId);
       const errorMessage = error instanceof Error ? error.message : 'Copy failed';
       logger.error(`Copy failed: ${source} -> ${destination}: ${errorMessage}`);
       return {
@@ -231,20 +417,35 @@ export class Executor {
   ): Promise<ExecutionResult> {
     // Acquire lock to prevent race conditions
     const releases = await this.acquireLocks(source);
+    let operationId: number | null = null;
 
     try {
-      // Perform delete and get trash info
-      const trashInfo = await safeDelete(source, toTrash);
-
-      // Record operation with trash path for undo capability
-      const operationId = this.db.insertOperation({
+      // Journaled up front, so an interrupted delete can still be restored
+      const trashPath = toTrash ? newTrashPath(source) : null;
+      operationId = this.beginOperation({
         type: 'delete',
         source,
-        destination: trashInfo?.trashPath || null,
+        destination: trashPath,
         ruleName: ruleName || null,
         confidence: confidence || null,
       });
 
+      // Perform delete and get trash info
+      const trashInfo = await safeDelete(source, toTrash, trashPath ?? undefined);
+
+      // Record the trash path for undo capability
+      this.finishOperation(operationId, trashInfo?.trashPath || null);
+
+      // Remember where it came from, so it can be restored in a later run
+      if (trashInfo) {
+        this.db.insertTrashEntry({
+          originalPath: source,
+          trashPath: trashInfo.trashPath,
+          deletedAt: Math.floor(trashInfo.timestamp / 1000),
+          operationId,
+        });
+      }
+
       // Remove file record from database
       this.db.deleteFile(source);
 
@@ -256,6 +457,7 @@ export class Executor {
         trashInfo: trashInfo || undefined,
       };
     } catch (error) {
+      this.discardOperation(operationId);
       const errorMessage = error instanceof Error ? error.message : 'Delete failed';
       logger.error(`Delete failed: ${source}: ${errorMessage}`);
       return {
@@ -267,6 +469,56 @@ export class Executor {
     }
   }
 
+  /**
+   * Replace a duplicate with a link to the copy that is kept. A link the
+   * filesystem can't make leaves the duplicate untouched and is reported as
+   * skipped, without recording an operation.
+   */
+  async link(
+    source: string,
+    target: string,
+    mode: LinkMode
+  ): Promise<ExecutionResult & { saved?: number; skipped?: string }> {
+    const releases = await this.acquireLocks(source, target);
+    let operationId: number | null = null;
+
+    try {
+      // destination is the file the link points to, for undo
+      operationId = this.beginOperation({
+        type: 'link',
+        source,
+        destination: target,
+        ruleName: null,
+        confidence: null,
+      });
+
+      const result = await linkFile(source, target, mode);
+
+      if (!result.success) {
+        this.discardOperation(operationId);
+        if (!result.skipped) {
+          logger.error(`Link failed: ${source}: ${result.error}`);
+        }
+        return { success: false, error: result.error, skipped: result.skipped };
+      }
+      this.finishOperation(operationId, target);
+
+      logger.info(`Linked (${mode}): ${source} -> ${target}`);
+
+      return {
+        success: true,
+        operationId,
+        finalPath: source,
+        saved: result.saved,
+      };
+    } catch (error) {
+      this.discardOperation(operationId);
+      throw error;
+    } finally {
+      this.releaseLocks(releases);
+    }
+  }
+
   async archive(
     source: string,
     destination: string,
@@ -278,26 +530,28 @@ export class Executor {
 
     // Acquire locks to prevent race conditions
     const releases = await this.acquireLocks(source, destination);
+    let operationId: number | null = null;
 
     try {
-      let finalPath: string;
-
-      if (compress) {
-        // Create a compressed archive (gzip)
-        const archivePath = destination.endsWith('.gz') ? destination : `${destination}.gz`;
-        const archiveDir = dirname(archivePath);
-        await ensureDir(archiveDir);
-
-        // Check for name collision
-        let counter = 1;
-        finalPath = archivePath;
-        const basePath = archivePath.replace(/\.gz$/, '');
-
-        while (await exists(finalPath)) {
-          finalPath = `${basePath} (${counter}).gz`;
-          counter++;
-        }
+      // Gzipping a .gz file again only wraps it in a second layer
+      const compressed = compress && !await isGzipped(source);
+
+      // Check for name collision
+      const archivePath = compressed && !destination.endsWith('.gz') ? `${destination}.gz` : destination;
+      await ensureDir(dirname(archivePath));
+      let finalPath = await getAvailablePath(archivePath);
 
+      // Record operation
+      operationId = this.beginOperation({
+        type: 'archive',
+        source,
+        destination: finalPath,
+        ruleName: ruleName || null,
+        confidence: confidence || null,
+        compressed,
+      });
+
+      if (compressed) {
         // Compress the file using gzip
         await pipeline(
           createReadStream(source),
@@ -312,23 +566,15 @@ export class Executor {
         logger.info(`Archived (moved): ${source} -> ${finalPath}`);
       }
 
-      // Record operation
-      const operationId = this.db.insertOperation({
-        type: 'archive',
-        source,
-        destination: finalPath,
-        ruleName: ruleName || null,
-        confidence: confidence || null,
-      });
-
       // Delete original if compressed and requested
-      if (compress && deleteOriginal) {
+      if (compressed && deleteOriginal) {
         await safeDelete(source, false);
         this.db.deleteFile(source);
-      } else if (!compress) {
+      } else if (!compressed) {
         // Update file path in database (moved)
         this.db.updateFilePath(source, finalPath);
       }
+      this.finishOperation(operationId, finalPath);
 
       return {
         success: true,
@@ -336,6 +582,7 @@ export class Executor {
         finalPath,
       };
     } catch (error) {
+      this.discardOperation(operationId);
       const errorMessage = error instanceof Error ? error.message : 'Archive failed';
       logger.error(`Archive failed: ${source} -> ${destination}: ${errorMessage}`);
       return {
@@ -356,10 +603,46 @@ export class Executor {
     const dir = dirname(source);
     const destination = join(dir, newName);
 
-    return this.move(source, destination, ruleName, confidence);
+    return this.move(source, destination, ruleName, confidence, 'rename');
   }
 
-  async undo(operationId: number): Promise<boolean> {
+  tag(
+    source: string,
+    tags: string[],
+    ruleName?: string,
+    confidence?: number
+  ): ExecutionResult {
+    try {
+      // Only record tags that were actually added so undo doesn't strip
+      // tags the file already had
+      const added = this.db.addTags(source, tags);
+
+      const operationId = this.recordOperation({
+        type: 'tag',
+        source,
+        destination: added.join(','),
+        ruleName: ruleName || null,
+        confidence: confidence || null,
+      });
+
+      logger.info(`Tagged: ${source} [${tags.join(', ')}]`);
+
+      return {
+        success: true,
+        operationId,
+        finalPath: source,
+      };
+    } catch (error) {
+      const errorMessage = error instanceof Error ? error.message : 'Tag failed';
+      logger.error(`Tag failed: ${source}: ${errorMessage}`);
+      return {
+        success: false,
+        error: errorMessage,
+      };
+    }
+  }
+
+  async undo(operationId: number, options: UndoOptions = {}): Promise<boolean> {
     const operation = this.db.getOperation(operationId);
 
     if (!operation) {
@@ -372,72 +655,156 @@ export class Executor {
       return false;
     }
 
-    try {
-      switch (operation.type) {
-        case 'move':
-          if (operation.destination) {
-            // Acquire locks
-            const releases = await this.acquireLocks(operation.destination, operation.source);
-            try {
-              // Move back to original location
-              await safeMove(operation.destination, operation.source);
-              this.db.updateFilePath(operation.destination, operation.source);
-              logger.info(`Undone move: ${operation.destination} -> ${operation.source}`);
-            } finally {
-              this.releaseLocks(releases);
-            }
-          }
-          break;
+    // Operations from an action chain are undone together, last step first
+    if (operation.groupId !== null) {
+      const chain = this.db.getOperationGroup(operation.groupId)
+        .filter(op => !op.undoneAt);
 
-        case 'copy':
-          if (operation.destination) {
-            const releases = await this.acquireLocks(operation.destination);
-            try {
-              // Delete the copy
-              await safeDelete(operation.destination, false);
-              logger.info(`Undone copy: deleted ${operation.destination}`);
-            } finally {
-              this.releaseLocks(releases);
-            }
-          }
-          break;
+      for (const op of [...chain].reverse()) {
+        if (!await this.revert(op, { ...options, recordFeedback: false })) {
+          return false;
+        }
+      }
 
-        case 'delete':
-          // Restore from trash using the stored trash path
-          if (operation.destination) {
-            const restored = await restoreFromTrash(operation.source);
-            if (restored) {
-              logger.info(`Undone delete: restored ${operation.source}`);
-            } else {
-              logger.warn(`Undo delete failed: could not restore ${operation.source}`);
-              return false;
-            }
-          } else {
-            logger.warn(`Undo delete failed: no trash path stored for ${operation.source}`);
-            return false;
-          }
-          break;
+      if (options.recordFeedback !== false) {
+        recordChainUndoFeedback(this.db, chain);
+      }
+      return true;
+    }
 
-        case 'archive':
-          // For archives, we can't easily undo compression
-          // But we can delete the archive if it exists
-          if (operation.destination && await exists(operation.destination)) {
-            await safeDelete(operation.destination, false);
-            logger.info(`Undone archive: deleted ${operation.destination}`);
-          }
-          break;
+    return this.revert(operation, options);
+  }
 
-        default:
-          logger.warn(`Undo failed: unknown operation type ${operation.type}`);
-          return false;
+  private async revert(operation: OperationRecord, options: UndoOptions = {}): Promise<boolean> {
+    const paths = [operation.source];
+    if (operation.destination && operation.type !== 'tag') {
+      paths.push(operation.destination);
+    }
+
+    const releases: (() => void)[] = [];
+    for (const path of paths) {
+      releases.push(await lockManager.acquire(path));
+    }
+
+    try {
+      const result = await undoOperation(this.db, operation.id, options);
+
+      if (!result.success) {
+        logger.warn(`Undo failed for operation ${operation.id}: ${result.error}`);
+        return false;
       }
 
-      this.db.markOperationUndone(operationId);
+      logger.info(`Undone ${operation.type}: ${operation.destination ?? ''} -> ${operation.source}`);
       return true;
-    } catch (error) {
-      const errorMessage = error instanceof Error ? error.message : 'Unknown error';
-      logger.error(`Undo failed for operation ${operationId}: ${errorMessage}`);
-      return false;
+    } finally {
+      this.releaseLocks(releases);
+    }
+  }
+
+  /**
+   * Re-apply an undone operation. Operations from an action chain are redone
+   * together, first step first. Nothing is touched unless the source still
+   * exists and no destination is taken.
+   */
+  async redo(operationId: number): Promise<ExecutionResult> {
+    const operation = this.db.getOperation(operationId);
+
+    if (!operation) {
+      return { success: false, error: `Operation ${operationId} not found` };
+    }
+
+    const operations = operation.groupId !== null
+      ? this.db.getOperationGroup(operation.groupId)
+      : [operation];
+
+    const problem = await this.checkRedo(operations);
+    if (problem) {
+      logger.warn(`Redo failed for operation ${operationId}: ${problem}`);
+      return { success: false, error: problem };
+    }
+
+    const operationIds: number[] = [];
+    let finalPath: string | undefined;
+
+    for (const op of operations) {
+      const result = await this.reapply(op);
+
+      if (!result.success) {
+        for (const id of [...operationIds].reverse()) {
+          await this.undo(id, { recordFeedback: false });
+        }
+        logger.error(`Redo of operation ${op.id} failed, rolled back ${operationIds.length} step(s)`);
+        return { success: false, error: `${op.type} failed: ${result.error}` };
+      }
+
+      if (result.operationId) {
+        operationIds.push(result.operationId);
+      }
+      if (op.type !== 'copy') {
+        finalPath = result.finalPath;
+      }
+    }
+
+    if (operations.length > 1) {
+      this.db.groupOperations(operationIds);
+    }
+
+    return { success: true, operationId: operationIds[0], finalPath };
+  }
+
+  private async checkRedo(operations: OperationRecord[]): Promise<string | null> {
+    for (const op of operations) {
+      if (!op.undoneAt) {
+        return `operation ${op.id} has not been undone`;
+      }
+
+      const redo = this.db.getRedoOperation(op.id);
+      if (redo) {
+        return `operation ${op.id} was already redone as #${redo.id}`;
+      }
+
+      if (!['move', 'rename', 'copy', 'archive', 'tag'].includes(op.type)) {
+        return `cannot redo ${op.type} operations`;
+      }
+
+      if (op.type !== 'tag' && (!op.destination || await exists(op.destination))) {
+        return op.destination
+          ? `destination already exists: ${op.destination}`
+          : `operation ${op.id} has no destination recorded`;
+      }
+    }
+
+    // Later steps of a chain start where the previous step put the file
+    if (!await exists(operations[0].source)) {
+      return `source no longer exists: ${operations[0].source}`;
+    }
+
+    return null;
+  }
+
+  private async reapply(op: OperationRecord): Promise<ExecutionResult> {
+    const ruleName = op.ruleName ?? undefined;
+    const confidence = op.confidence ?? undefined;
+
+    this.redoing = op;
+    try {
+      switch (op.type) {
+        case 'move':
+        case 'rename':
+          return await this.move(op.source, op.destination!, ruleName, confidence, op.type);
+        case 'copy':
+          return await this.copy(op.source, op.destination!, ruleName, confidence);
+        case 'archive':
+          return await this.archive(op.source, op.destination!, ruleName, confidence, {
+            compress: op.compressed,
+          });
+        case 'tag':
+          return this.tag(op.source, op.destination ? op.destination.split(',') : [], ruleName, confidence);
+        default:
+          return { success: false, error: `Cannot redo operation type: ${op.type}` };
+      }
+    } finally {
+      this.redoing = null;
     }
   }
 
@@ -495,6 +862,132 @@ export class Executor {
     return results;
   }
 
+  /**
+   * Execute suggestions as one transaction. Every operation is journaled
+   * under a batch; if one fails, everything done so far is rolled back in
+   * reverse order. Suggestions run sequentially.
+   */
+  async executeBatch(suggestions: Suggestion[]): Promise<BatchResult> {
+    const batchId = this.db.createBatch();
+    this.db.flush();
+    this.batchId = batchId;
+
+    const results: ExecutionResult[] = [];
+
+    try {
+      for (const suggestion of suggestions) {
+        const result = await this.execute(suggestion);
+        results.push(result);
+
+        if (!result.success) {
+          this.batchId = null;
+          const { reverted: rolledBack } = await this.rollbackBatch(batchId);
+          return {
+            success: false,
+            batchId,
+            results,
+            failed: suggestion,
+            error: result.error,
+            rolledBack,
+          };
+        }
+      }
+
+      this.db.finishBatch(batchId, 'committed');
+      return { success: true, batchId, results };
+    } finally {
+      this.batchId = null;
+      this.db.flush();
+    }
+  }
+
+  /**
+   * Undo every operation of a batch, newest first. Returns how many
+   * operations were reverted and how many could not be.
+   */
+  async rollbackBatch(batchId: number): Promise<{ reverted: number; failed: number }> {
+    const operations: OperationRecord[] = [];
+
+    for (const op of this.db.getBatchOperations(batchId)) {
+      if (op.undoneAt) continue;
+
+      // The process stopped during this step; undo it only if it happened
+      if (op.pending) {
+        if (!await this.changeHappened(op)) {
+          this.db.deletePendingOperation(op.id);
+          continue;
+        }
+        this.db.finishOperation(op.id, op.destination);
+      }
+      operations.push(op);
+    }
+    operations.reverse();
+
+    let reverted = 0;
+    for (const operation of operations) {
+      if (await this.revert(operation, { recordFeedback: false })) {
+        reverted++;
+      }
+    }
+
+    // Files that couldn't be put back leave the batch failed, not rolled back
+    if (reverted < operations.length) {
+      logger.error(`Rollback of batch ${batchId}: ${operations.length - reverted} operation(s) could not be reverted`);
+    }
+
+    this.db.finishBatch(batchId, reverted < operations.length ? 'failed' : 'rolled_back');
+    this.db.flush();
+    return { reverted, failed: operations.length - reverted };
+  }
+
+  /**
+   * Whether the file change of a pending operation went through before
+   * the process stopped
+   */
+  private async changeHappened(op: OperationRecord): Promise<boolean> {
+    switch (op.type) {
+      case 'move':
+      case 'rename':
+        return !await exists(op.source) && !!op.destination && await exists(op.destination);
+      case 'archive':
+        // A compressed archive is undone by removing it, even if incomplete
+        if (op.compressed) {
+          return !!op.destination && await exists(op.destination);
+        }
+        return !await exists(op.source) && !!op.destination && await exists(op.destination);
+      case 'copy':
+        return !!op.destination && await exists(op.destination);
+      case 'delete':
+        return !await exists(op.source);
+      case 'link':
+        // Undoing a link that wasn't made leaves the file as it is
+        return exists(op.source);
+      default:
+        return false;
+    }
+  }
+
+  /**
+   * Roll back batches that were still pending when their process stopped,
+   * e.g. after a crash. Batches of a process that is still running, such
+   * as the daemon or another organize, are left to it. Returns the number
+   * of batches rolled back, and of those that left files not restored.
+   */
+  async recoverPendingBatches(): Promise<{ recovered: number; failed: number }> {
+    const pending = this.db.getPendingBatches()
+      .filter(batch => batch.ownerPid === null || !isProcessAlive(batch.ownerPid));
+    let failed = 0;
+
+    for (const batch of pending) {
+      logger.warn(`Recovering interrupted batch ${batch.id}`);
+      if ((await this.rollbackBatch(batch.id)).failed > 0) {
+        failed++;
+      }
+    }
+
+    return { recovered: pending.length - failed, failed };
+  }
+
   getHistory(limit = 50): {
     id: number;
     type: string;
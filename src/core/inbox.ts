@@ -0,0 +1,185 @@
+import { existsSync } from 'fs';
+import { Database, type InboxRecord } from '../storage/database.js';
+import type { Analyzer, FileAnalysis } from './analyzer.js';
+import { Executor, type ExecutionResult } from './executor.js';
+import { PatternTracker } from '../learning/pattern-tracker.js';
+import { FeedbackHandler } from '../learning/feedback.js';
+import type { Suggestion } from './suggester.js';
+import type { ActionType, ResolvedAction } from '../rules/actions.js';
+
+export interface InboxEntry {
+  id: number;
+  path: string;
+  destination: string;
+  action: ActionType;
+  ruleName: string;
+  confidence: number;
+  tags?: string[];
+  steps?: ResolvedAction[];
+  // A new folder moved as a whole; ruleName is empty when its files match
+  // several rules
+  directory: boolean;
+  createdAt: Date;
+}
+
+// Only a single action with a target folder can be pointed elsewhere
+const EDITABLE_ACTIONS: ActionType[] = ['move', 'copy', 'archive'];
+
+export function isEditable(entry: Pick<InboxEntry, 'action' | 'steps'>): boolean {
+  return !entry.steps && EDITABLE_ACTIONS.includes(entry.action);
+}
+
+function toEntry(record: InboxRecord): InboxEntry {
+  return {
+    id: record.id,
+    path: record.path,
+    destination: record.destination,
+    action: record.action as ActionType,
+    ruleName: record.ruleName,
+    confidence: record.confidence,
+    tags: record.tagsJson ? JSON.parse(record.tagsJson) : undefined,
+    steps: record.stepsJson ? JSON.parse(record.stepsJson) : undefined,
+    directory: record.directory,
+    createdAt: new Date(record.createdAt * 1000),
+  };
+}
+
+/**
+ * Suggestions from watch mode that wait for the user, kept in the database
+ * so they outlive the terminal. Accepting one applies it like organize
+ * does and records the same feedback.
+ */
+export class Inbox {
+  private db: Database;
+  private analyzer: Analyzer;
+  private executor: Executor;
+  private feedback: FeedbackHandler;
+
+  constructor(db: Database, analyzer: Analyzer, options: { sessionId?: number } = {}) {
+    this.db = db;
+    this.analyzer = analyzer;
+    this.executor = new Executor(db, options);
+    this.feedback = new FeedbackHandler(db, new PatternTracker(db));
+  }
+
+  add(suggestion: Suggestion): number {
+    return this.db.insertInboxEntry({
+      path: suggestion.file.path,
+      destination: suggestion.destination,
+      action: suggestion.action,
+      ruleName: suggestion.ruleName,
+      confidence: suggestion.confidence,
+      tagsJson: suggestion.tags ? JSON.stringify(suggestion.tags) : null,
+      stepsJson: suggestion.steps ? JSON.stringify(suggestion.steps) : null,
+    });
+  }
+
+  addDirectory(path: string, plan: { destination: string; ruleName?: string; confidence: number }): number {
+    return this.db.insertInboxEntry({
+      path,
+      destination: plan.destination,
+      action: 'move',
+      ruleName: plan.ruleName ?? '',
+      confidence: plan.confidence,
+      tagsJson: null,
+      stepsJson: null,
+      directory: true,
+    });
+  }
+
+  /**
+   * Pending entries, oldest first. Entries whose file was moved or deleted
+   * in the meantime expire here.
+   */
+  list(): InboxEntry[] {
+    const entries: InboxEntry[] = [];
+
+    for (const record of this.db.getInboxEntries()) {
+      if (!existsSync(record.path)) {
+        this.db.deleteInboxEntry(record.id);
+        continue;
+      }
+      entries.push(toEntry(record));
+    }
+
+    return entries;
+  }
+
+  /**
+   * Apply the suggestion, or send the file to `destination` instead
+   */
+  async accept(entry: InboxEntry, destination?: string): Promise<ExecutionResult> {
+    if (!existsSync(entry.path)) {
+      this.db.deleteInboxEntry(entry.id);
+      return { success: false, error: 'The file no longer exists' };
+    }
+
+    const modified = destination !== undefined && destination !== entry.destination;
+    if (modified && !isEditable(entry)) {
+      return { success: false, error: `The destination of a ${entry.steps ? 'chain' : entry.action} suggestion can't be changed` };
+    }
+
+    if (entry.directory) {
+      return this.acceptDirectory(entry, modified ? destination! : entry.destination, modified);
+    }
+
+    // Analyze again, the file may have changed since it was suggested
+    const suggestion = this.toSuggestion(entry, await this.analyzer.analyze(entry.path));
+    const result = await this.executor.execute(modified ? { ...suggestion, destination } : suggestion);
+
+    if (result.success) {
+      this.db.deleteInboxEntry(entry.id);
+      this.feedback.recordFeedback(suggestion, modified ? 'modify' : 'accept', modified ? destination : undefined);
+    }
+
+    return result;
+  }
+
+  reject(entry: InboxEntry): void {
+    this.db.deleteInboxEntry(entry.id);
+    if (!entry.ruleName) return;
+
+    this.db.insertRuleFeedback({
+      ruleName: entry.ruleName,
+      type: 'reject',
+      filePath: entry.path,
+      destination: entry.destination,
+    });
+  }
+
+  /**
+   * Move the folder as a whole. Only the rule learns from it; the learned
+   * patterns are about single files.
+   */
+  private async acceptDirectory(entry: InboxEntry, destination: string, modified: boolean): Promise<ExecutionResult> {
+    const result = await this.executor.move(entry.path, destination, entry.ruleName || undefined, entry.confidence);
+
+    if (result.success) {
+      this.db.deleteInboxEntry(entry.id);
+      if (entry.ruleName) {
+        this.db.insertRuleFeedback({
+          ruleName: entry.ruleName,
+          type: modified ? 'modify' : 'accept',
+          filePath: entry.path,
+          destination,
+        });
+      }
+    }
+
+    return result;
+  }
+
+  private toSuggestion(entry: InboxEntry, file: FileAnalysis): Suggestion {
+    return {
+      file,
+      destination: entry.destination,
+      ruleName: entry.ruleName,
+      confidence: entry.confidence,
+      action: entry.action,
+      // Reviewing the entry is the confirmation
+      requiresConfirmation: false,
+      tags: entry.tags,
+      steps: entry.steps,
+    };
+  }
+}
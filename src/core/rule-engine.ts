@@ -1,30 +1,26 @@
-import { dirname, join } from 'path';
+import { join, basename } from 'path';
 import { type Config, expandPath } from '../config.js';
 import type { FileAnalysis } from './analyzer.js';
 import { interpolatePath } from '../utils/paths.js';
 import { analyzeFilename } from '../utils/filename-analyzer.js';
+import { matchFile, type ConditionTrace } from '../rules/matcher.js';
+import {
+  resolveAction,
+  buildVariables,
+  getDestinationTemplate,
+  type ResolvedAction,
+} from '../rules/actions.js';
+import { mergeRules, type MatchConditions, type RuleAction, type RulesFile } from '../rules/parser.js';
 
 export interface Rule {
   name: string;
   priority: number;
-  match: {
-    extension?: string[];
-    filename?: string[];
-    type?: string;
-    hasExif?: boolean;
-    contentContains?: string[];
-    location?: string;
-    age?: string;
-    accessed?: string;
-  };
+  enabled?: boolean;
+  match: MatchConditions;
   useAi?: boolean;
-  action: {
-    moveTo?: string;
-    suggestTo?: string;
-    archiveTo?: string;
-    delete?: boolean;
-    confirm?: boolean;
-  };
+  action: RuleAction;
+  // Ordered action chain, run instead of `action` when set
+  actions?: RuleAction[];
   // Local destination for in-place organization
   localDestination?: string;
 }
@@ -33,6 +29,13 @@ export interface RuleMatch {
   rule: Rule;
   confidence: number;
   destination?: string;
+  // Resolved action (move/copy/delete/archive/rename/tag), null if the
+  // rule's action can't be applied to this file. For chains, the last step
+  action: ResolvedAction | null;
+  // Resolved steps of an action chain, in execution order
+  steps?: ResolvedAction[];
+  // Per-condition evaluation, for explaining why the rule matched
+  trace?: ConditionTrace[];
 }
 
 export interface MatchOptions {
@@ -42,11 +45,15 @@ export interface MatchOptions {
 
 export class RuleEngine {
   private rules: Rule[];
-  private config: Config;
-
-  constructor(config: Config) {
-    this.config = config;
-    this.rules = [...config.rules, ...this.getDefaultRules()];
+  private destinations: Record<string, string>;
+
+  constructor(config: Config, rulesFile?: RulesFile) {
+    // rules.yaml overrides config rules and destinations with the same name
+    this.destinations = { ...config.destinations, ...rulesFile?.destinations };
+    this.rules = [
+      ...mergeRules(config.rules, rulesFile?.rules ?? []),
+      ...getDefaultRules(),
+    ];
     this.sortRulesByPriority();
   }
 
@@ -56,14 +63,9 @@ export class RuleEngine {
 
   match(file: FileAnalysis, options: MatchOptions = {}): RuleMatch | null {
     for (const rule of this.rules) {
-      const match = this.matchRule(file, rule);
+      const match = this.matchRule(file, rule, options);
       if (match) {
-        const destination = this.resolveDestination(file, rule, options);
-        return {
-          rule,
-          confidence: match.confidence,
-          destination,
-        };
+        return match;
       }
     }
     return null;
@@ -73,14 +75,9 @@ export class RuleEngine {
     const matches: RuleMatch[] = [];
 
     for (const rule of this.rules) {
-      const match = this.matchRule(file, rule);
+      const match = this.matchRule(file, rule, options);
       if (match) {
-        const destination = this.resolveDestination(file, rule, options);
-        matches.push({
-          rule,
-          confidence: match.confidence,
-          destination,
-        });
+        matches.push(match);
       }
     }
 
@@ -89,195 +86,93 @@ export class RuleEngine {
 
   private matchRule(
     file: FileAnalysis,
-    rule: Rule
-  ): { confidence: number } | null {
-    let matchCount = 0;
-    let totalConditions = 0;
-
-    // Extension match
-    if (rule.match.extension && rule.match.extension.length > 0) {
-      totalConditions++;
-      if (rule.match.extension.includes(file.extension.toLowerCase())) {
-        matchCount++;
-      } else {
-        return null; // Extension is required
-      }
+    rule: Rule,
+    options: MatchOptions
+  ): RuleMatch | null {
+    if (rule.enabled === false) {
+      return null;
     }
 
-    // Filename pattern match (required if specified)
-    if (rule.match.filename && rule.match.filename.length > 0) {
-      totalConditions++;
-      const matched = rule.match.filename.some(pattern =>
-        this.matchGlob(file.filename, pattern)
-      );
-      if (matched) {
-        matchCount++;
-      } else {
-        return null; // Filename pattern is required
-      }
+    const result = matchFile(file, rule);
+    if (!result.matched) {
+      return null;
     }
 
-    // Type/category match
-    if (rule.match.type) {
-      totalConditions++;
-      if (file.category === rule.match.type) {
-        matchCount++;
-      } else {
-        return null; // Type is required
-      }
-    }
+    const variables = buildVariables(file, this.destinations, result.captures);
 
-    // EXIF check
-    if (rule.match.hasExif !== undefined) {
-      totalConditions++;
-      const hasExif = file.metadata && 'dateTaken' in file.metadata;
-      if (hasExif === rule.match.hasExif) {
-        matchCount++;
-      }
+    if (rule.actions && rule.actions.length > 0) {
+      const steps = this.resolveChain(file, rule, rule.actions, variables, options);
+      return {
+        rule,
+        confidence: result.confidence,
+        action: steps ? steps[steps.length - 1] : null,
+        steps: steps ?? undefined,
+        trace: result.trace,
+      };
     }
 
-    // Content contains
-    if (rule.match.contentContains && rule.match.contentContains.length > 0) {
-      totalConditions++;
-      if (file.textContent) {
-        const lowerContent = file.textContent.toLowerCase();
-        const matched = rule.match.contentContains.some(term =>
-          lowerContent.includes(term.toLowerCase())
-        );
-        if (matched) {
-          matchCount++;
-        }
-      }
-    }
+    const destination = this.resolveDestination(file, rule, rule.action, variables, options);
 
-    // Location match
-    if (rule.match.location) {
-      totalConditions++;
-      const fileDir = dirname(file.path);
-      const targetDir = expandPath(rule.match.location);
-      if (fileDir.startsWith(targetDir)) {
-        matchCount++;
-      } else {
-        return null; // Location is required
-      }
-    }
+    return {
+      rule,
+      confidence: result.confidence,
+      destination,
+      action: resolveAction(file, rule.action, variables, destination),
+      trace: result.trace,
+    };
+  }
 
-    // Age check
-    if (rule.match.age) {
-      totalConditions++;
-      const ageMatch = this.matchAge(file.modified, rule.match.age);
-      if (ageMatch) {
-        matchCount++;
+  /**
+   * Resolve each step of an action chain against the path the file will
+   * have after the previous steps. Steps that wouldn't change anything are
+   * dropped; returns null if a step can't be resolved or nothing is left.
+   */
+  private resolveChain(
+    file: FileAnalysis,
+    rule: Rule,
+    actions: RuleAction[],
+    variables: Record<string, string | number>,
+    options: MatchOptions
+  ): ResolvedAction[] | null {
+    const steps: ResolvedAction[] = [];
+    let current = file;
+
+    for (const action of actions) {
+      const destination = this.resolveDestination(current, rule, action, variables, options);
+      const step = resolveAction(current, action, variables, destination);
+      if (!step) {
+        return null;
       }
-    }
 
-    // Access time check
-    if (rule.match.accessed) {
-      totalConditions++;
-      const accessMatch = this.matchAge(file.accessed, rule.match.accessed);
-      if (accessMatch) {
-        matchCount++;
+      if (step.type === 'move' || step.type === 'rename') {
+        if (step.destination === current.path) continue;
+        current = { ...current, path: step.destination!, filename: basename(step.destination!) };
       }
-    }
-
-    // Need at least one match
-    if (matchCount === 0 && totalConditions === 0) {
-      return null;
-    }
-
-    // Calculate confidence
-    const confidence = totalConditions > 0 ? matchCount / totalConditions : 0.5;
-
-    return { confidence };
-  }
-
-  private matchGlob(filename: string, pattern: string): boolean {
-    const regex = pattern
-      .replace(/[.+^${}()|[\]\\]/g, '\\$&')
-      .replace(/\*/g, '.*')
-      .replace(/\?/g, '.');
-
-    return new RegExp(`^${regex}$`, 'i').test(filename);
-  }
 
-  private matchAge(date: Date, ageSpec: string): boolean {
-    const now = new Date();
-    const ageMs = now.getTime() - date.getTime();
-    const ageDays = ageMs / (1000 * 60 * 60 * 24);
-
-    // Parse age spec like "> 30 days" or "< 7 days"
-    const match = ageSpec.match(/([<>])\s*(\d+)\s*(days?|weeks?|months?|years?)/i);
-    if (!match) return false;
-
-    const [, operator, value, unit] = match;
-    let targetDays = parseInt(value);
-
-    switch (unit.toLowerCase()) {
-      case 'week':
-      case 'weeks':
-        targetDays *= 7;
-        break;
-      case 'month':
-      case 'months':
-        targetDays *= 30;
-        break;
-      case 'year':
-      case 'years':
-        targetDays *= 365;
-        break;
+      steps.push(step);
     }
 
-    if (operator === '>') {
-      return ageDays > targetDays;
-    } else {
-      return ageDays < targetDays;
-    }
+    return steps.length > 0 ? steps : null;
   }
 
   private resolveDestination(
     file: FileAnalysis,
     rule: Rule,
+    action: RuleAction,
+    variables: Record<string, string | number>,
     options: MatchOptions = {}
   ): string | undefined {
     const { baseDir, useGlobalDestinations = false } = options;
 
-    // For delete actions, no destination needed
-    if (rule.action.delete) {
+    // For delete, rename and tag actions, no destination needed
+    const destTemplate = getDestinationTemplate(action);
+    if (action.delete || !destTemplate) {
       return undefined;
     }
 
-    // Build variables for interpolation
-    const now = new Date();
-    const year = this.getFileYear(file) || now.getFullYear();
-    const month = this.getFileMonth(file) || now.getMonth() + 1;
-
-    const variables: Record<string, string | number> = {
-      year,
-      month: month.toString().padStart(2, '0'),
-      filename: file.filename,
-      extension: file.extension,
-      category: file.category,
-    };
-
-    // Add metadata variables
-    if (file.metadata) {
-      const meta = file.metadata as Record<string, unknown>;
-
-      if (meta.dateTaken instanceof Date) {
-        variables['exif.year'] = meta.dateTaken.getFullYear();
-        variables['exif.month'] = (meta.dateTaken.getMonth() + 1).toString().padStart(2, '0');
-      }
-
-      if (typeof meta.artist === 'string') {
-        variables['audio.artist'] = this.sanitizePath(meta.artist);
-      }
-      if (typeof meta.album === 'string') {
-        variables['audio.album'] = this.sanitizePath(meta.album);
-      }
-    }
-
-    // LOCAL ORGANIZATION: organize within the specified directory
-    if (baseDir && !useGlobalDestinations) {
+    // LOCAL ORGANIZATION: organize within the specified directory.
+    // Copies keep their configured target, they're usually backups
+    if (baseDir && !useGlobalDestinations && destTemplate !== action.copyTo) {
       const localDest = this.getLocalDestination(file, rule, variables);
       if (localDest) {
         return join(baseDir, localDest);
@@ -285,22 +180,8 @@ export class RuleEngine {
       return undefined;
     }
 
-    // GLOBAL ORGANIZATION: use configured destinations
-    const destTemplate = rule.action.moveTo || rule.action.suggestTo || rule.action.archiveTo;
-    if (!destTemplate) {
-      return undefined;
-    }
-
-    // Add global destinations from config
-    for (const [key, value] of Object.entries(this.config.destinations)) {
-      variables[`destinations.${key}`] = value;
-    }
-
-    // Interpolate and expand path
-    let result = interpolatePath(destTemplate, variables);
-    result = expandPath(result);
-
-    return result;
+    // GLOBAL ORGANIZATION: interpolate and expand the configured destination
+    return expandPath(interpolatePath(destTemplate, variables));
   }
 
   private getLocalDestination(
@@ -431,482 +312,6 @@ export class RuleEngine {
     return 'Other';
   }
 
-  private getFileYear(file: FileAnalysis): number | null {
-    if (file.metadata) {
-      const meta = file.metadata as Record<string, unknown>;
-      if (meta.dateTaken instanceof Date) {
-        return meta.dateTaken.getFullYear();
-      }
-      if (typeof meta.year === 'number') {
-        return meta.year;
-      }
-    }
-    return file.modified.getFullYear();
-  }
-
-  private getFileMonth(file: FileAnalysis): number | null {
-    if (file.metadata) {
-      const meta = file.metadata as Record<string, unknown>;
-      if (meta.dateTaken instanceof Date) {
-        return meta.dateTaken.getMonth() + 1;
-      }
-    }
-    return file.modified.getMonth() + 1;
-  }
-
-  private sanitizePath(str: string): string {
-    return str
-      .replace(/[<>:"/\\|?*]/g, '_')
-      .replace(/\s+/g, ' ')
-      .trim();
-  }
-
-  private getDefaultRules(): Rule[] {
-    return [
-      // Screenshots - highest priority for specific filename patterns
-      {
-        name: 'Screenshots',
-        priority: 100,
-        match: {
-          extension: ['png', 'jpg', 'jpeg'],
-          filename: ['Screenshot*', 'Снимок*', 'Screen Shot*', 'Capture*', 'Снимок экрана*'],
-        },
-        action: {
-          moveTo: '{destinations.screenshots}/{year}-{month}/',
-        },
-      },
-
-      // Photos with EXIF
-      {
-        name: 'Photos with EXIF',
-        priority: 90,
-        match: {
-          extension: ['jpg', 'jpeg', 'heic', 'heif', 'raw', 'cr2', 'nef', 'arw', 'dng'],
-          hasExif: true,
-        },
-        action: {
-          moveTo: '{destinations.photos}/{exif.year}/{exif.month}/',
-        },
-      },
-
-      // Design files
-      {
-        name: 'Design files',
-        priority: 85,
-        match: {
-          extension: ['psd', 'ai', 'sketch', 'fig', 'xd', 'svg'],
-        },
-        action: {
-          suggestTo: '{destinations.photos}/Design/',
-        },
-      },
-
-      // Code - React/Vue/Svelte components
-      {
-        name: 'Frontend components',
-        priority: 75,
-        match: {
-          extension: ['jsx', 'tsx', 'vue', 'svelte'],
-        },
-        action: {
-          suggestTo: '{destinations.code}/Components/',
-        },
-      },
-
-      // Code - Config files
-      {
-        name: 'Config files',
-        priority: 80,
-        match: {
-          extension: ['json', 'yaml', 'yml', 'toml', 'ini', 'env'],
-        },
-        action: {
-          suggestTo: '{destinations.code}/Config/',
-        },
-      },
-
-      // Code - JavaScript/TypeScript
-      {
-        name: 'JavaScript/TypeScript',
-        priority: 70,
-        match: {
-          extension: ['js', 'ts', 'mjs', 'cjs'],
-        },
-        action: {
-          suggestTo: '{destinations.code}/JavaScript/',
-        },
-      },
-
-      // Code - Python
-      {
-        name: 'Python scripts',
-        priority: 70,
-        match: {
-          extension: ['py', 'pyw', 'ipynb'],
-        },
-        action: {
-          suggestTo: '{destinations.code}/Python/',
-        },
-      },
-
-      // Code - Go
-      {
-        name: 'Go files',
-        priority: 70,
-        match: {
-          extension: ['go'],
-        },
-        action: {
-          suggestTo: '{destinations.code}/Go/',
-        },
-      },
-
-      // Code - SQL/Database
-      {
-        name: 'Database files',
-        priority: 75,
-        match: {
-          extension: ['sql'],
-        },
-        action: {
-          suggestTo: '{destinations.code}/Database/',
-        },
-      },
-
-      // Code - Stylesheets
-      {
-        name: 'Stylesheets',
-        priority: 70,
-        match: {
-          extension: ['css', 'scss', 'sass', 'less', 'styl'],
-        },
-        action: {
-          suggestTo: '{destinations.code}/Styles/',
-        },
-      },
-
-      // Code - Shell scripts
-      {
-        name: 'Shell scripts',
-        priority: 70,
-        match: {
-          extension: ['sh', 'bash', 'zsh', 'ps1', 'bat', 'cmd'],
-        },
-        action: {
-          suggestTo: '{destinations.code}/Scripts/',
-        },
-      },
-
-      // Code - Other languages
-      {
-        name: 'Code files',
-        priority: 60,
-        match: {
-          type: 'code',
-        },
-        action: {
-          suggestTo: '{destinations.code}/',
-        },
-      },
-
-      // Other images
-      {
-        name: 'Other images',
-        priority: 80,
-        match: {
-          type: 'image',
-        },
-        action: {
-          suggestTo: '{destinations.photos}/Unsorted/',
-        },
-      },
-
-      // Resumes and CVs
-      {
-        name: 'Resumes',
-        priority: 95,
-        match: {
-          extension: ['pdf', 'docx', 'doc'],
-          filename: ['*resume*', '*cv*', '*Resume*', '*CV*', '*резюме*', '*Резюме*'],
-        },
-        action: {
-          moveTo: '{destinations.documents}/Resumes/',
-        },
-      },
-
-      // Invoices and receipts
-      {
-        name: 'Invoices',
-        priority: 90,
-        match: {
-          extension: ['pdf'],
-          filename: ['*invoice*', '*receipt*', '*счёт*', '*чек*', '*Invoice*', '*Receipt*'],
-        },
-        action: {
-          moveTo: '{destinations.finance}/Invoices/{year}/',
-        },
-      },
-
-      // Contracts
-      {
-        name: 'Contracts',
-        priority: 90,
-        match: {
-          extension: ['pdf', 'docx', 'doc'],
-          filename: ['*contract*', '*agreement*', '*договор*', '*Contract*', '*Agreement*', '*Договор*'],
-        },
-        action: {
-          moveTo: '{destinations.documents}/Contracts/{year}/',
-        },
-      },
-
-      // E-books
-      {
-        name: 'E-books',
-        priority: 85,
-        match: {
-          extension: ['epub', 'mobi', 'azw', 'azw3', 'fb2', 'djvu'],
-        },
-        action: {
-          moveTo: '{destinations.documents}/Books/',
-        },
-      },
-
-      // PDF documents
-      {
-        name: 'PDF documents',
-        priority: 70,
-        match: {
-          extension: ['pdf'],
-        },
-        action: {
-          suggestTo: '{destinations.documents}/{year}/',
-        },
-      },
-
-      // Spreadsheets
-      {
-        name: 'Spreadsheets',
-        priority: 75,
-        match: {
-          extension: ['xlsx', 'xls', 'csv', 'numbers', 'ods'],
-        },
-        action: {
-          suggestTo: '{destinations.documents}/Spreadsheets/{year}/',
-        },
-      },
-
-      // Presentations
-      {
-        name: 'Presentations',
-        priority: 75,
-        match: {
-          extension: ['pptx', 'ppt', 'key', 'odp'],
-        },
-        action: {
-          suggestTo: '{destinations.documents}/Presentations/{year}/',
-        },
-      },
-
-      // Office documents
-      {
-        name: 'Office documents',
-        priority: 70,
-        match: {
-          extension: ['docx', 'doc', 'odt', 'rtf', 'pages'],
-        },
-        action: {
-          suggestTo: '{destinations.documents}/{year}/',
-        },
-      },
-
-      // Text files
-      {
-        name: 'Text files',
-        priority: 65,
-        match: {
-          extension: ['txt', 'md', 'markdown', 'rst'],
-        },
-        action: {
-          suggestTo: '{destinations.documents}/Notes/',
-        },
-      },
-
-      // Music files
-      {
-        name: 'Music files',
-        priority: 85,
-        match: {
-          extension: ['mp3', 'flac', 'wav', 'aac', 'ogg', 'm4a', 'wma', 'alac'],
-        },
-        action: {
-          moveTo: '{destinations.music}/{audio.artist}/{audio.album}/',
-        },
-      },
-
-      // Video files
-      {
-        name: 'Video files',
-        priority: 85,
-        match: {
-          extension: ['mp4', 'mkv', 'avi', 'mov', 'webm', 'wmv', 'flv', 'm4v', '3gp'],
-        },
-        action: {
-          suggestTo: '{destinations.video}/{year}/',
-        },
-      },
-
-      // Code projects
-      {
-        name: 'Code archives',
-        priority: 80,
-        match: {
-          extension: ['zip', 'tar', 'gz'],
-          filename: ['*-main.zip', '*-master.zip', '*-src*', '*source*'],
-        },
-        action: {
-          suggestTo: '{destinations.code}/Archives/',
-        },
-      },
-
-      // Archives
-      {
-        name: 'Archives',
-        priority: 75,
-        match: {
-          extension: ['zip', 'rar', '7z', 'tar', 'gz', 'bz2', 'xz', 'tgz'],
-        },
-        action: {
-          suggestTo: '{destinations.archives}/',
-        },
-      },
-
-      // Torrent files
-      {
-        name: 'Torrents',
-        priority: 90,
-        match: {
-          extension: ['torrent'],
-        },
-        action: {
-          suggestTo: '{destinations.archives}/Torrents/',
-        },
-      },
-
-      // Font files
-      {
-        name: 'Fonts',
-        priority: 85,
-        match: {
-          extension: ['ttf', 'otf', 'woff', 'woff2', 'eot'],
-        },
-        action: {
-          suggestTo: '{destinations.documents}/Fonts/',
-        },
-      },
-
-      // Disk images and installers
-      {
-        name: 'Disk images',
-        priority: 70,
-        match: {
-          extension: ['iso', 'img', 'dmg'],
-        },
-        action: {
-          suggestTo: '{destinations.archives}/Disk Images/',
-        },
-      },
-
-      // Old installers - suggest deletion
-      {
-        name: 'Old installers',
-        priority: 100,
-        match: {
-          extension: ['dmg', 'pkg', 'exe', 'msi', 'deb', 'rpm', 'appimage'],
-          age: '> 30 days',
-        },
-        action: {
-          delete: true,
-          confirm: true,
-        },
-      },
-
-      // Incomplete downloads
-      {
-        name: 'Incomplete downloads',
-        priority: 100,
-        match: {
-          extension: ['crdownload', 'part', 'partial', 'download'],
-        },
-        action: {
-          delete: true,
-          confirm: true,
-        },
-      },
-
-      // Temporary files
-      {
-        name: 'Temporary files',
-        priority: 100,
-        match: {
-          extension: ['tmp', 'temp', 'bak', 'swp', 'swo', 'swn'],
-        },
-        action: {
-          delete: true,
-        },
-      },
-
-      // Office temp/lock files
-      {
-        name: 'Office lock files',
-        priority: 100,
-        match: {
-          filename: ['~$*'],
-        },
-        action: {
-          delete: true,
-          confirm: true,
-        },
-      },
-
-      // Log files
-      {
-        name: 'Log files',
-        priority: 60,
-        match: {
-          extension: ['log'],
-        },
-        action: {
-          suggestTo: '{destinations.archives}/Logs/',
-        },
-      },
-
-      // macOS metadata files
-      {
-        name: 'macOS junk',
-        priority: 100,
-        match: {
-          filename: ['.DS_Store', '._*', '.Spotlight*', '.Trashes'],
-        },
-        action: {
-          delete: true,
-        },
-      },
-
-      // Windows junk
-      {
-        name: 'Windows junk',
-        priority: 100,
-        match: {
-          filename: ['Thumbs.db', 'desktop.ini', '*.lnk'],
-        },
-        action: {
-          delete: true,
-        },
-      },
-    ];
-  }
-
   getRules(): Rule[] {
     return this.rules;
   }
@@ -925,3 +330,452 @@ export class RuleEngine {
     return false;
   }
 }
+
+/**
+ * Built-in rules, used after the rules from config.yaml and rules.yaml
+ */
+export function getDefaultRules(): Rule[] {
+  return [
+    // Screenshots - highest priority for specific filename patterns
+    {
+      name: 'Screenshots',
+      priority: 100,
+      match: {
+        extension: ['png', 'jpg', 'jpeg'],
+        filename: ['Screenshot*', 'Снимок*', 'Screen Shot*', 'Capture*', 'Снимок экрана*'],
+      },
+      action: {
+        moveTo: '{destinations.screenshots}/{year}-{month}/',
+      },
+    },
+
+    // Photos with EXIF
+    {
+      name: 'Photos with EXIF',
+      priority: 90,
+      match: {
+        extension: ['jpg', 'jpeg', 'heic', 'heif', 'raw', 'cr2', 'nef', 'arw', 'dng'],
+        hasExif: true,
+      },
+      action: {
+        moveTo: '{destinations.photos}/{exif.year}/{exif.month}/',
+      },
+    },
+
+    // Design files
+    {
+      name: 'Design files',
+      priority: 85,
+      match: {
+        extension: ['psd', 'ai', 'sketch', 'fig', 'xd', 'svg'],
+      },
+      action: {
+        suggestTo: '{destinations.photos}/Design/',
+      },
+    },
+
+    // Code - React/Vue/Svelte components
+    {
+      name: 'Frontend components',
+      priority: 75,
+      match: {
+        extension: ['jsx', 'tsx', 'vue', 'svelte'],
+      },
+      action: {
+        suggestTo: '{destinations.code}/Components/',
+      },
+    },
+
+    // Code - Config files
+    {
+      name: 'Config files',
+      priority: 80,
+      match: {
+        extension: ['json', 'yaml', 'yml', 'toml', 'ini', 'env'],
+      },
+      action: {
+        suggestTo: '{destinations.code}/Config/',
+      },
+    },
+
+    // Code - JavaScript/TypeScript
+    {
+      name: 'JavaScript/TypeScript',
+      priority: 70,
+      match: {
+        extension: ['js', 'ts', 'mjs', 'cjs'],
+      },
+      action: {
+        suggestTo: '{destinations.code}/JavaScript/',
+      },
+    },
+
+    // Code - Python
+    {
+      name: 'Python scripts',
+      priority: 70,
+      match: {
+        extension: ['py', 'pyw', 'ipynb'],
+      },
+      action: {
+        suggestTo: '{destinations.code}/Python/',
+      },
+    },
+
+    // Code - Go
+    {
+      name: 'Go files',
+      priority: 70,
+      match: {
+        extension: ['go'],
+      },
+      action: {
+        suggestTo: '{destinations.code}/Go/',
+      },
+    },
+
+    // Code - SQL/Database
+    {
+      name: 'Database files',
+      priority: 75,
+      match: {
+        extension: ['sql'],
+      },
+      action: {
+        suggestTo: '{destinations.code}/Database/',
+      },
+    },
+
+    // Code - Stylesheets
+    {
+      name: 'Stylesheets',
+      priority: 70,
+      match: {
+        extension: ['css', 'scss', 'sass', 'less', 'styl'],
+      },
+      action: {
+        suggestTo: '{destinations.code}/Styles/',
+      },
+    },
+
+    // Code - Shell scripts
+    {
+      name: 'Shell scripts',
+      priority: 70,
+      match: {
+        extension: ['sh', 'bash', 'zsh', 'ps1', 'bat', 'cmd'],
+      },
+      action: {
+        suggestTo: '{destinations.code}/Scripts/',
+      },
+    },
+
+    // Code - Other languages
+    {
+      name: 'Code files',
+      priority: 60,
+      match: {
+        type: 'code',
+      },
+      action: {
+        suggestTo: '{destinations.code}/',
+      },
+    },
+
+    // Other images
+    {
+      name: 'Other images',
+      priority: 80,
+      match: {
+        type: 'image',
+      },
+      action: {
+        suggestTo: '{destinations.photos}/Unsorted/',
+      },
+    },
+
+    // Resumes and CVs
+    {
+      name: 'Resumes',
+      priority: 95,
+      match: {
+        extension: ['pdf', 'docx', 'doc'],
+        filename: ['*resume*', '*cv*', '*Resume*', '*CV*', '*резюме*', '*Резюме*'],
+      },
+      action: {
+        moveTo: '{destinations.documents}/Resumes/',
+      },
+    },
+
+    // Invoices and receipts
+    {
+      name: 'Invoices',
+      priority: 90,
+      match: {
+        extension: ['pdf'],
+        filename: ['*invoice*', '*receipt*', '*счёт*', '*чек*', '*Invoice*', '*Receipt*'],
+      },
+      action: {
+        moveTo: '{destinations.finance}/Invoices/{year}/',
+      },
+    },
+
+    // Contracts
+    {
+      name: 'Contracts',
+      priority: 90,
+      match: {
+        extension: ['pdf', 'docx', 'doc'],
+        filename: ['*contract*', '*agreement*', '*договор*', '*Contract*', '*Agreement*', '*Договор*'],
+      },
+      action: {
+        moveTo: '{destinations.documents}/Contracts/{year}/',
+      },
+    },
+
+    // E-books
+    {
+      name: 'E-books',
+      priority: 85,
+      match: {
+        extension: ['epub', 'mobi', 'azw', 'azw3', 'fb2', 'djvu'],
+      },
+      action: {
+        moveTo: '{destinations.documents}/Books/',
+      },
+    },
+
+    // PDF documents
+    {
+      name: 'PDF documents',
+      priority: 70,
+      match: {
+        extension: ['pdf'],
+      },
+      action: {
+        suggestTo: '{destinations.documents}/{year}/',
+      },
+    },
+
+    // Spreadsheets
+    {
+      name: 'Spreadsheets',
+      priority: 75,
+      match: {
+        extension: ['xlsx', 'xls', 'csv', 'numbers', 'ods'],
+      },
+      action: {
+        suggestTo: '{destinations.documents}/Spreadsheets/{year}/',
+      },
+    },
+
+    // Presentations
+    {
+      name: 'Presentations',
+      priority: 75,
+      match: {
+        extension: ['pptx', 'ppt', 'key', 'odp'],
+      },
+      action: {
+        suggestTo: '{destinations.documents}/Presentations/{year}/',
+      },
+    },
+
+    // Office documents
+    {
+      name: 'Office documents',
+      priority: 70,
+      match: {
+        extension: ['docx', 'doc', 'odt', 'rtf', 'pages'],
+      },
+      action: {
+        suggestTo: '{destinations.documents}/{year}/',
+      },
+    },
+
+    // Text files
+    {
+      name: 'Text files',
+      priority: 65,
+      match: {
+        extension: ['txt', 'md', 'markdown', 'rst'],
+      },
+      action: {
+        suggestTo: '{destinations.documents}/Notes/',
+      },
+    },
+
+    // Music files
+    {
+      name: 'Music files',
+      priority: 85,
+      match: {
+        extension: ['mp3', 'flac', 'wav', 'aac', 'ogg', 'm4a', 'wma', 'alac'],
+      },
+      action: {
+        moveTo: '{destinations.music}/{audio.artist}/{audio.album}/',
+      },
+    },
+
+    // Video files
+    {
+      name: 'Video files',
+      priority: 85,
+      match: {
+        extension: ['mp4', 'mkv', 'avi', 'mov', 'webm', 'wmv', 'flv', 'm4v', '3gp'],
+      },
+      action: {
+        suggestTo: '{destinations.video}/{year}/',
+      },
+    },
+
+    // Code projects
+    {
+      name: 'Code archives',
+      priority: 80,
+      match: {
+        extension: ['zip', 'tar', 'gz'],
+        filename: ['*-main.zip', '*-master.zip', '*-src*', '*source*'],
+      },
+      action: {
+        suggestTo: '{destinations.code}/Archives/',
+      },
+    },
+
+    // Archives
+    {
+      name: 'Archives',
+      priority: 75,
+      match: {
+        extension: ['zip', 'rar', '7z', 'tar', 'gz', 'bz2', 'xz', 'tgz'],
+      },
+      action: {
+        suggestTo: '{destinations.archives}/',
+      },
+    },
+
+    // Torrent files
+    {
+      name: 'Torrents',
+      priority: 90,
+      match: {
+        extension: ['torrent'],
+      },
+      action: {
+        suggestTo: '{destinations.archives}/Torrents/',
+      },
+    },
+
+    // Font files
+    {
+      name: 'Fonts',
+      priority: 85,
+      match: {
+        extension: ['ttf', 'otf', 'woff', 'woff2', 'eot'],
+      },
+      action: {
+        suggestTo: '{destinations.documents}/Fonts/',
+      },
+    },
+
+    // Disk images and installers
+    {
+      name: 'Disk images',
+      priority: 70,
+      match: {
+        extension: ['iso', 'img', 'dmg'],
+      },
+      action: {
+        suggestTo: '{destinations.archives}/Disk Images/',
+      },
+    },
+
+    // Old installers - suggest deletion
+    {
+      name: 'Old installers',
+      priority: 100,
+      match: {
+        extension: ['dmg', 'pkg', 'exe', 'msi', 'deb', 'rpm', 'appimage'],
+        age: '> 30 days',
+      },
+      action: {
+        delete: true,
+        confirm: true,
+      },
+    },
+
+    // Incomplete downloads
+    {
+      name: 'Incomplete downloads',
+      priority: 100,
+      match: {
+        extension: ['crdownload', 'part', 'partial', 'download'],
+      },
+      action: {
+        delete: true,
+        confirm: true,
+      },
+    },
+
+    // Temporary files
+    {
+      name: 'Temporary files',
+      priority: 100,
+      match: {
+        extension: ['tmp', 'temp', 'bak', 'swp', 'swo', 'swn'],
+      },
+      action: {
+        delete: true,
+      },
+    },
+
+    // Office temp/lock files
+    {
+      name: 'Office lock files',
+      priority: 100,
+      match: {
+        filename: ['~$*'],
+      },
+      action: {
+        delete: true,
+        confirm: true,
+      },
+    },
+
+    // Log files
+    {
+      name: 'Log files',
+      priority: 60,
+      match: {
+        extension: ['log'],
+      },
+      action: {
+        suggestTo: '{destinations.archives}/Logs/',
+      },
+    },
+
+    // macOS metadata files
+    {
+      name: 'macOS junk',
+      priority: 100,
+      match: {
+        filename: ['.DS_Store', '._*', '.Spotlight*', '.Trashes'],
+      },
+      action: {
+        delete: true,
+      },
+    },
+
+    // Windows junk
+    {
+      name: 'Windows junk',
+      priority: 100,
+      match: {
+        filename: ['Thumbs.db', 'desktop.ini', '*.lnk'],
+      },
+      action: {
+        delete: true,
+      },
+    },
+  ];
+}
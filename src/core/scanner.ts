@@ -4,6 +4,7 @@ import { listDirectory } from '../utils/fs-safe.js';
 import { getMimeType } from '../utils/mime.js';
 import { hashFileQuick } from '../utils/file-hash.js';
 import { Database } from '../storage/database.js';
+import { verifyDuplicates } from '../actions/deduplicate.js';
 import { createLogger } from '../utils/logger.js';
 import type { FileAnalysis } from './analyzer.js';
 
@@ -284,6 +285,11 @@ export class Scanner {
     return results;
   }
 
+  /**
+   * Group files by their quick hash. The quick hash only samples large
+   * files, so these groups are candidates; use findConfirmedDuplicates
+   * before removing anything.
+   */
   findDuplicates(files: FileAnalysis[]): { hash: string; files: FileAnalysis[] }[] {
     const hashGroups = new Map<string, FileAnalysis[]>();
 
@@ -313,6 +319,14 @@ export class Scanner {
     return duplicates;
   }
 
+  /**
+   * Duplicate groups confirmed by full content hash
+   */
+  async findConfirmedDuplicates(files: FileAnalysis[]): Promise<{ hash: string; files: FileAnalysis[] }[]> {
+    const candidates = this.findDuplicates(files).map(group => group.files);
+    return verifyDuplicates(candidates, this.db);
+  }
+
   async findSimilar(
     targetFile: FileAnalysis,
     files: FileAnalysis[],
@@ -0,0 +1,197 @@
+import { execFileSync } from 'child_process';
+import { existsSync, writeFileSync, unlinkSync } from 'fs';
+import { dirname, join, resolve } from 'path';
+import { homedir } from 'os';
+import { ensureDirSync } from '../utils/fs-safe.js';
+import type { AppPaths } from '../config.js';
+
+export const SERVICE_NAME = 'sortora.service';
+
+// Marks the crontab line sortora manages, so uninstall finds it
+const CRONTAB_MARKER = '# sortora daemon';
+
+export type ServiceMethod = 'systemd' | 'cron';
+
+// How to start sortora the way it is running now, with the same config
+export interface ServiceCommand {
+  execPath: string;
+  args: string[];
+  env: Record<string, string>;
+  logFile: string;
+}
+
+export interface InstallResult {
+  method: ServiceMethod;
+  // Unit file path, or "crontab"
+  location: string;
+}
+
+// Runs a program and returns its output; throws if it fails
+export type CommandRunner = (command: string, args: string[], input?: string) => string;
+
+const runCommand: CommandRunner = (command, args, input) =>
+  execFileSync(command, args, { input, encoding: 'utf-8', stdio: ['pipe', 'pipe', 'pipe'] });
+
+export function getServiceCommand(paths: AppPaths): ServiceCommand {
+  return {
+    execPath: process.execPath,
+    args: [...process.execArgv, resolve(process.argv[1])],
+    env: {
+      SORTORA_CONFIG_DIR: paths.configDir,
+      SORTORA_DATA_DIR: paths.dataDir,
+    },
+    logFile: paths.daemonLogFile,
+  };
+}
+
+export function getSystemdUnitPath(): string {
+  const configHome = process.env.XDG_CONFIG_HOME || join(homedir(), '.config');
+  return join(configHome, 'systemd', 'user', SERVICE_NAME);
+}
+
+/**
+ * A systemd user unit that runs the daemon in the foreground, so systemd
+ * tracks it and restarts it if it crashes
+ */
+export function buildSystemdUnit(command: ServiceCommand): string {
+  // Quote every word; % starts a specifier in unit files
+  const quote = (value: string) => `"${value.replace(/\\/g, '\\\\').replace(/"/g, '\\"').replace(/%/g, '%%')}"`;
+  const execStart = [command.execPath, ...command.args, 'daemon', 'run'].map(quote).join(' ');
+  const environment = Object.entries(command.env).map(([key, value]) => `Environment=${quote(`${key}=${value}`)}`);
+  // append: takes the rest of the line as the path, spaces included; quotes
+  // would be part of it, so only specifiers are escaped
+  const logFile = command.logFile.replace(/%/g, '%%');
+
+  return [
+    '[Unit]',
+    'Description=Sortora file organizer',
+    '',
+    '[Service]',
+    'Type=simple',
+    `ExecStart=${execStart}`,
+    ...environment,
+    `StandardOutput=append:${logFile}`,
+    `StandardError=append:${logFile}`,
+    'Restart=on-failure',
+    'RestartSec=10',
+    '',
+    '[Install]',
+    'WantedBy=default.target',
+    '',
+  ].join('\n');
+}
+
+/**
+ * A crontab line that starts the daemon after a reboot, for systems
+ * without systemd
+ */
+export function buildCrontabEntry(command: ServiceCommand): string {
+  // Single quotes for the shell; % ends the command in a crontab
+  const quote = (value: string) => `'${value.replace(/'/g, `'\\''`)}'`.replace(/%/g, '\\%');
+  const env = Object.entries(command.env).map(([key, value]) => `${key}=${quote(value)}`);
+  const words = [command.execPath, ...command.args].map(quote);
+
+  return `@reboot ${[...env, ...words, 'daemon', 'start'].join(' ')} >/dev/null 2>&1 ${CRONTAB_MARKER}`;
+}
+
+/**
+ * Add the entry to a crontab, replacing an earlier sortora entry
+ */
+export function addCrontabEntry(crontab: string, entry: string): string {
+  const lines = removeCrontabEntry(crontab).split('\n').filter(line => line !== '');
+  return [...lines, entry].join('\n') + '\n';
+}
+
+export function removeCrontabEntry(crontab: string): string {
+  const lines = crontab.split('\n').filter(line => !line.endsWith(CRONTAB_MARKER));
+  const result = lines.join('\n').trim();
+  return result ? result + '\n' : '';
+}
+
+export function hasSystemd(run: CommandRunner = runCommand): boolean {
+  try {
+    run('systemctl', ['--user', 'show-environment']);
+    return true;
+  } catch {
+    return false;
+  }
+}
+
+function readCrontab(run: CommandRunner): string {
+  try {
+    return run('crontab', ['-l']);
+  } catch {
+    // No crontab yet
+    return '';
+  }
+}
+
+/**
+ * Install the daemon as a systemd user service, or as a crontab @reboot
+ * entry where systemd isn't available
+ */
+export function installService(
+  command: ServiceCommand,
+  options: { method?: ServiceMethod; run?: CommandRunner } = {}
+): InstallResult {
+  const run = options.run ?? runCommand;
+  const method = options.method ?? (hasSystemd(run) ? 'systemd' : 'cron');
+
+  if (method === 'systemd') {
+    const unitPath = getSystemdUnitPath();
+    ensureDirSync(dirname(unitPath));
+    ensureDirSync(dirname(command.logFile));
+    writeFileSync(unitPath, buildSystemdUnit(command), 'utf-8');
+
+    run('systemctl', ['--user', 'daemon-reload']);
+    run('systemctl', ['--user', 'enable', '--now', SERVICE_NAME]);
+
+    return { method, location: unitPath };
+  }
+
+  run('crontab', ['-'], addCrontabEntry(readCrontab(run), buildCrontabEntry(command)));
+  return { method, location: 'crontab' };
+}
+
+/**
+ * Remove what installService set up. Returns what was removed.
+ */
+export function uninstallService(options: { run?: CommandRunner } = {}): string[] {
+  const run = options.run ?? runCommand;
+  const removed: string[] = [];
+
+  const unitPath = getSystemdUnitPath();
+  if (existsSync(unitPath)) {
+    try {
+      run('systemctl', ['--user', 'disable', '--now', SERVICE_NAME]);
+    } catch {
+      // The unit may never have been enabled, or systemd isn't running
+    }
+    unlinkSync(unitPath);
+    try {
+      run('systemctl', ['--user', 'daemon-reload']);
+    } catch {
+      // Nothing to reload
+    }
+    removed.push(unitPath);
+  }
+
+  const crontab = readCrontab(run);
+  if (crontab.includes(CRONTAB_MARKER)) {
+    run('crontab', ['-'], removeCrontabEntry(crontab));
+    removed.push('crontab');
+  }
+
+  return removed;
+}
+
+export function getInstalledService(run: CommandRunner = runCommand): InstallResult | null {
+  const unitPath = getSystemdUnitPath();
+  if (existsSync(unitPath)) {
+    return { method: 'systemd', location: unitPath };
+  }
+  if (readCrontab(run).includes(CRONTAB_MARKER)) {
+    return { method: 'cron', location: 'crontab' };
+  }
+  return null;
+}
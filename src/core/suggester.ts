@@ -1,15 +1,22 @@
-import { join, dirname, basename } from 'path';
+import { join, dirname, sep } from 'path';
 import { RuleEngine, type RuleMatch, type MatchOptions } from './rule-engine.js';
 import type { FileAnalysis } from './analyzer.js';
 import type { Config } from '../config.js';
+import { formatAction, type ActionType, type ResolvedAction } from '../rules/actions.js';
+import type { PatternTracker, TrackedPattern } from '../learning/pattern-tracker.js';
 
 export interface Suggestion {
   file: FileAnalysis;
   destination: string;
   ruleName: string;
   confidence: number;
-  action: 'move' | 'copy' | 'delete' | 'archive';
+  action: ActionType;
   requiresConfirmation: boolean;
+  tags?: string[];
+  // Steps of an action chain; `action` and `destination` describe the last one
+  steps?: ResolvedAction[];
+  // Set when the suggestion comes from a learned pattern instead of a rule
+  learned?: TrackedPattern;
 }
 
 export interface SuggestionOptions {
@@ -17,11 +24,33 @@ export interface SuggestionOptions {
   useGlobalDestinations?: boolean;  // Use global destinations like ~/Documents
 }
 
+/**
+ * Short description of where a suggestion sends the file, for CLI output
+ */
+export function formatSuggestionTarget(
+  suggestion: Pick<Suggestion, 'action' | 'destination' | 'tags' | 'steps'>
+): string {
+  if (suggestion.steps) {
+    return suggestion.steps.map(formatAction).join(' → ');
+  }
+
+  switch (suggestion.action) {
+    case 'delete':
+      return 'trash';
+    case 'tag':
+      return `tags: ${(suggestion.tags || []).join(', ')}`;
+    default:
+      return suggestion.destination;
+  }
+}
+
 export class Suggester {
   private ruleEngine: RuleEngine;
+  private patternTracker?: PatternTracker;
 
-  constructor(ruleEngine: RuleEngine, _config: Config) {
+  constructor(ruleEngine: RuleEngine, _config: Config, patternTracker?: PatternTracker) {
     this.ruleEngine = ruleEngine;
+    this.patternTracker = patternTracker;
   }
 
   generateSuggestion(file: FileAnalysis, options: SuggestionOptions = {}): Suggestion | null {
@@ -31,12 +60,61 @@ export class Suggester {
     };
 
     const match = this.ruleEngine.match(file, matchOptions);
+    let fromRule = match ? this.matchToSuggestion(file, match) : null;
+    let learned = this.learnedSuggestion(file, options);
+
+    // Stop proposing what was undone again and again
+    if (fromRule && this.isSuppressed(fromRule)) {
+      fromRule = null;
+    }
+    if (learned && this.isSuppressed(learned)) {
+      learned = null;
+    }
+
+    // Learned patterns compete with rules on confidence
+    if (learned && (!fromRule || learned.confidence > fromRule.confidence)) {
+      return learned;
+    }
+
+    return fromRule;
+  }
+
+  private isSuppressed(suggestion: Suggestion): boolean {
+    if (!this.patternTracker || !suggestion.destination || suggestion.action === 'tag') {
+      return false;
+    }
+    return this.patternTracker.isSuppressed(suggestion.ruleName, dirname(suggestion.destination));
+  }
+
+  /**
+   * Suggest a move to where similar files were put before, based on the
+   * patterns recorded from accepted and corrected suggestions
+   */
+  private learnedSuggestion(file: FileAnalysis, options: SuggestionOptions): Suggestion | null {
+    if (!this.patternTracker) {
+      return null;
+    }
 
-    if (!match) {
+    const pattern = this.patternTracker.suggestDestination(file);
+    if (!pattern || pattern.destination === dirname(file.path)) {
       return null;
     }
 
-    return this.matchToSuggestion(file, match);
+    // Organizing locally must not send files out of the directory
+    const { baseDir, useGlobalDestinations = false } = options;
+    if (baseDir && !useGlobalDestinations && !pattern.destination.startsWith(baseDir + sep)) {
+      return null;
+    }
+
+    return {
+      file,
+      destination: join(pattern.destination, file.filename),
+      ruleName: `Learned: ${pattern.type} ${pattern.pattern}`,
+      confidence: pattern.confidence,
+      action: 'move',
+      requiresConfirmation: false,
+      learned: pattern,
+    };
   }
 
   generateSuggestions(files: FileAnalysis[], options: SuggestionOptions = {}): Suggestion[] {
@@ -56,41 +134,29 @@ export class Suggester {
   }
 
   private matchToSuggestion(file: FileAnalysis, match: RuleMatch): Suggestion | null {
-    const { rule, confidence, destination } = match;
-
-    // Determine action type
-    let action: Suggestion['action'] = 'move';
-    let requiresConfirmation = false;
+    const { rule, confidence, action, steps } = match;
 
-    if (rule.action.delete) {
-      action = 'delete';
-      requiresConfirmation = rule.action.confirm ?? true;
-    } else if (rule.action.archiveTo) {
-      action = 'archive';
-    } else if (rule.action.suggestTo) {
-      action = 'move';
-      requiresConfirmation = true;
+    if (!action) {
+      return null;
     }
 
-    // Build final destination path
-    let finalDestination = destination || '';
-
-    if (action !== 'delete' && !finalDestination) {
-      return null;
+    if (steps) {
+      return this.chainToSuggestion(file, match, steps);
     }
 
-    // Add filename to destination if it's a directory path (doesn't end with a filename)
-    // Use basename comparison instead of includes to avoid false positives
-    if (action !== 'delete') {
-      const destBasename = basename(finalDestination);
-      // If destination basename doesn't match file's filename, append the filename
-      if (destBasename !== file.filename) {
-        finalDestination = join(finalDestination, file.filename);
+    // Delete has no destination; tags are applied in place
+    let finalDestination = '';
+    if (action.type === 'tag') {
+      finalDestination = file.path;
+    } else if (action.type !== 'delete') {
+      if (!action.destination) {
+        return null;
       }
+      finalDestination = action.destination;
     }
 
-    // Don't suggest moving to same location
-    if (action === 'move' && finalDestination === file.path) {
+    // Don't suggest moving or renaming to same location
+    if ((action.type === 'move' || action.type === 'rename') && finalDestination === file.path) {
       return null;
     }
 
@@ -99,8 +165,36 @@ export class Suggester {
       destination: finalDestination,
       ruleName: rule.name,
       confidence,
-      action,
-      requiresConfirmation,
+      action: action.type,
+      requiresConfirmation: action.requiresConfirmation,
+      tags: action.tags,
+    };
+  }
+
+  private chainToSuggestion(file: FileAnalysis, match: RuleMatch, steps: ResolvedAction[]): Suggestion {
+    // Follow the file through the chain to its final location
+    let destination = file.path;
+    const tags: string[] = [];
+
+    for (const step of steps) {
+      if (step.type === 'delete') {
+        destination = '';
+      } else if (step.type === 'tag') {
+        tags.push(...(step.tags || []));
+      } else if (step.type !== 'copy' && step.destination) {
+        destination = step.destination;
+      }
+    }
+
+    return {
+      file,
+      destination,
+      ruleName: match.rule.name,
+      confidence: match.confidence,
+      action: steps[steps.length - 1].type,
+      requiresConfirmation: steps.some(s => s.requiresConfirmation),
+      tags: tags.length > 0 ? tags : undefined,
+      steps,
     };
   }
 
@@ -141,7 +235,9 @@ export class Suggester {
     reasons.push(`Confidence: ${Math.round(suggestion.confidence * 100)}%`);
     reasons.push(`Action: ${suggestion.action}`);
 
-    if (suggestion.destination) {
+    if (suggestion.tags && suggestion.tags.length > 0) {
+      reasons.push(`Tags: ${suggestion.tags.join(', ')}`);
+    } else if (suggestion.destination) {
       reasons.push(`Destination: ${suggestion.destination}`);
     }
 
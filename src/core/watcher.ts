@@ -1,17 +1,31 @@
 import { EventEmitter } from 'events';
+import { existsSync } from 'fs';
+import { stat } from 'fs/promises';
+import { basename, dirname, join, sep } from 'path';
 import chokidar, { FSWatcher } from 'chokidar';
-import { Database } from '../storage/database.js';
+import { Database, type SessionCounts } from '../storage/database.js';
 import { Analyzer, type FileAnalysis } from './analyzer.js';
 import { RuleEngine } from './rule-engine.js';
-import { Suggester } from './suggester.js';
+import { Suggester, type Suggestion } from './suggester.js';
+import { Inbox } from './inbox.js';
+import { PatternTracker } from '../learning/pattern-tracker.js';
+import { FeedbackHandler, type RuleAccuracy } from '../learning/feedback.js';
 import { Executor } from './executor.js';
-import type { Config } from '../config.js';
+import { expandPath, type Config, type WatchDirectory } from '../config.js';
+import { hashFile, hashFileQuick } from '../utils/file-hash.js';
+import { listDirectory } from '../utils/fs-safe.js';
+import type { RulesFile } from '../rules/parser.js';
 
 export interface WatcherOptions {
   auto?: boolean;
   minConfidence?: number;
   debounceMs?: number;
   ignorePatterns?: string[];
+  // Only apply the rules with these names
+  rules?: string[];
+  // How long a removed file may take to reappear under another name; by
+  // default a little longer than a new file takes to be handled
+  renameWindowMs?: number;
 }
 
 export interface WatcherEvents {
@@ -19,10 +33,35 @@ export interface WatcherEvents {
   changed: (file: FileAnalysis) => void;
   organized: (file: FileAnalysis, destination: string) => void;
   skipped: (file: FileAnalysis, reason: string) => void;
+  // A suggestion that waits in the inbox
+  suggested: (file: FileAnalysis, suggestion: Suggestion) => void;
   error: (error: Error) => void;
+  // A file was renamed or moved by hand within the watched folder
+  renamed: (from: string, to: string) => void;
+  // A file sortora knew about was deleted or moved away
+  removed: (path: string) => void;
+  // A new folder, handled as a whole
+  directory: (path: string, files: FileAnalysis[]) => void;
+  directoryOrganized: (path: string, destination: string) => void;
+  directorySkipped: (path: string, reason: string) => void;
+  // A folder move that waits in the inbox
+  directorySuggested: (path: string, destination: string) => void;
+}
+
+// chokidar reports a file once it hasn't grown for this long
+const WRITE_STABILITY_MS = 2000;
+
+// Time on top of that for hashing the file that reappeared
+const RENAME_MARGIN_MS = 3000;
+
+interface PendingRemoval {
+  // What the database knew about a removed file; null for folders
+  known: { size: number; hash: string | null; fullHash: string | null } | null;
+  timeout: NodeJS.Timeout;
 }
 
 export class Watcher extends EventEmitter {
+  private db: Database;
   private config: Config;
   private watcher: FSWatcher | null = null;
   private analyzer: Analyzer;
@@ -30,15 +69,31 @@ export class Watcher extends EventEmitter {
   private suggester: Suggester;
   private executor: Executor;
   private pendingFiles = new Map<string, NodeJS.Timeout>();
+  // Removed paths, forgotten once they haven't reappeared under another name
+  private pendingRemovals = new Map<string, PendingRemoval>();
+  // Folders that appeared while watching, with the timer that handles them
+  private newDirectories = new Map<string, NodeJS.Timeout | null>();
+  private ignored: RegExp[] = [];
   private options: WatcherOptions = {};
-
-  constructor(db: Database, config: Config, modelsDir: string) {
+  // Auto-organizing watch runs are recorded as a session
+  private sessionId: number | null = null;
+  private counts: SessionCounts = { filesTotal: 0, succeeded: 0, failed: 0, skipped: 0 };
+  // Rules below the accuracy threshold are not applied automatically
+  private demoted = new Map<string, RuleAccuracy>();
+  private feedback: FeedbackHandler;
+  private inbox: Inbox;
+
+  constructor(db: Database, config: Config, modelsDir: string, rulesFile?: RulesFile) {
     super();
+    this.db = db;
     this.config = config;
     this.analyzer = new Analyzer(modelsDir);
-    this.ruleEngine = new RuleEngine(config);
-    this.suggester = new Suggester(this.ruleEngine, config);
+    this.ruleEngine = new RuleEngine(config, rulesFile);
+    const patternTracker = new PatternTracker(db);
+    this.suggester = new Suggester(this.ruleEngine, config, patternTracker);
+    this.feedback = new FeedbackHandler(db, patternTracker);
     this.executor = new Executor(db);
+    this.inbox = new Inbox(db, this.analyzer);
   }
 
   async start(path: string, options: WatcherOptions = {}): Promise<void> {
@@ -49,8 +104,34 @@ export class Watcher extends EventEmitter {
       ignorePatterns: this.config.settings.ignorePatterns,
       ...options,
     };
+    // A renamed file is only recognized once its new name is handled
+    this.options.renameWindowMs ??= this.options.debounceMs! + WRITE_STABILITY_MS + RENAME_MARGIN_MS;
+
+    if (this.options.auto && this.sessionId === null) {
+      this.sessionId = this.db.startSession({
+        command: 'watch',
+        commandLine: process.argv.slice(2).join(' '),
+        path,
+      });
+      this.executor = new Executor(this.db, { sessionId: this.sessionId });
+    }
+
+    if (this.options.rules) {
+      // Collected first: removeRule changes the list getRules returns
+      const dropped = this.ruleEngine.getRules()
+        .filter(rule => !this.options.rules!.includes(rule.name))
+        .map(rule => rule.name);
+      for (const name of dropped) {
+        this.ruleEngine.removeRule(name);
+      }
+    }
 
-    const ignored = [
+    if (this.options.auto) {
+      const { demoteBelow, minSamples } = this.config.learning;
+      this.demoted = this.feedback.getDemotedRules(demoteBelow, minSamples);
+    }
+
+    this.ignored = [
       /(^|[\/\\])\../, // Dotfiles
       ...this.options.ignorePatterns!.map(p => new RegExp(p.replace(/\*/g, '.*'))),
     ];
@@ -58,20 +139,43 @@ export class Watcher extends EventEmitter {
     this.watcher = chokidar.watch(path, {
       persistent: true,
       ignoreInitial: true,
-      ignored,
+      ignored: this.ignored,
       awaitWriteFinish: {
-        stabilityThreshold: 2000,
+        stabilityThreshold: WRITE_STABILITY_MS,
         pollInterval: 100,
       },
     });
 
+    // Files in a new folder are handled with the folder
     this.watcher.on('add', (filePath) => {
-      this.handleFileAdded(filePath);
+      const directory = this.getNewDirectory(filePath);
+      if (directory) {
+        this.scheduleDirectory(directory);
+      } else {
+        this.handleFileAdded(filePath);
+      }
+    });
+
+    this.watcher.on('addDir', (dirPath) => {
+      this.scheduleDirectory(this.getNewDirectory(dirPath) ?? dirPath);
     });
 
     // #15: Handle change events
     this.watcher.on('change', (filePath) => {
-      this.handleFileChanged(filePath);
+      const directory = this.getNewDirectory(filePath);
+      if (directory) {
+        this.scheduleDirectory(directory);
+      } else {
+        this.handleFileChanged(filePath);
+      }
+    });
+
+    this.watcher.on('unlink', (filePath) => {
+      this.handleFileRemoved(filePath);
+    });
+
+    this.watcher.on('unlinkDir', (dirPath) => {
+      this.handleDirectoryRemoved(dirPath);
     });
 
     this.watcher.on('error', (error) => {
@@ -90,6 +194,30 @@ export class Watcher extends EventEmitter {
       clearTimeout(timeout);
     }
     this.pendingFiles.clear();
+
+    for (const timeout of this.newDirectories.values()) {
+      if (timeout) clearTimeout(timeout);
+    }
+    this.newDirectories.clear();
+
+    // Nothing reappeared in time
+    for (const [path, removal] of this.pendingRemovals) {
+      clearTimeout(removal.timeout);
+      this.forget(path);
+    }
+
+    if (this.sessionId !== null) {
+      this.db.finishSession(this.sessionId, this.counts);
+      this.sessionId = null;
+    }
+  }
+
+  private countOutcome(outcome: Exclude<keyof SessionCounts, 'filesTotal'>): void {
+    if (this.sessionId === null) return;
+
+    this.counts.filesTotal++;
+    this.counts[outcome]++;
+    this.db.updateSessionCounts(this.sessionId, this.counts);
   }
 
   private handleFileAdded(filePath: string): void {
@@ -122,8 +250,259 @@ export class Watcher extends EventEmitter {
     this.pendingFiles.set(filePath, timeout);
   }
 
+  private handleFileRemoved(filePath: string): void {
+    // A new file that is gone before it was handled
+    const pending = this.pendingFiles.get(filePath);
+    if (pending) {
+      clearTimeout(pending);
+      this.pendingFiles.delete(filePath);
+    }
+
+    const known = this.db.getFileHashes(filePath);
+    if (known) {
+      this.scheduleRemoval(filePath, known);
+    }
+  }
+
+  private handleDirectoryRemoved(dirPath: string): void {
+    const timeout = this.newDirectories.get(dirPath);
+    if (timeout) {
+      clearTimeout(timeout);
+    }
+    this.newDirectories.delete(dirPath);
+
+    // Its files are reported one by one; this also drops records of files
+    // the watcher ignores
+    this.scheduleRemoval(dirPath, null);
+  }
+
+  private scheduleRemoval(path: string, known: PendingRemoval['known']): void {
+    const existing = this.pendingRemovals.get(path);
+    if (existing) {
+      clearTimeout(existing.timeout);
+    }
+
+    const timeout = setTimeout(() => this.expireRemoval(path), this.options.renameWindowMs);
+    this.pendingRemovals.set(path, { known, timeout });
+  }
+
+  private expireRemoval(path: string): void {
+    const removal = this.pendingRemovals.get(path);
+
+    // A new file or folder still waiting to be handled may be this one,
+    // e.g. a moved folder whose files kept arriving
+    const waiting = this.pendingFiles.size > 0
+      || [...this.newDirectories.values()].some(timeout => timeout !== null);
+    if (removal && waiting) {
+      this.scheduleRemoval(path, removal.known);
+      return;
+    }
+
+    this.forget(path);
+  }
+
+  private forget(path: string): void {
+    const removal = this.pendingRemovals.get(path);
+    this.pendingRemovals.delete(path);
+
+    // Replaced by a new file of the same name in the meantime
+    if (existsSync(path)) return;
+
+    this.db.deleteFile(path);
+    if (removal?.known) {
+      this.emit('removed', path);
+    }
+  }
+
+  /**
+   * A new file with the size and hash of a file removed moments ago is that
+   * file, renamed or moved by hand. Its records follow it and it is left
+   * where the user put it.
+   */
+  private async detectRename(filePath: string): Promise<boolean> {
+    if (this.pendingRemovals.size === 0) {
+      return false;
+    }
+
+    const { size } = await stat(filePath);
+    let fullHash: string | undefined;
+    let quickHash: string | undefined;
+
+    for (const [oldPath, removal] of this.pendingRemovals) {
+      if (!removal.known || removal.known.size !== size) continue;
+
+      let same = false;
+      if (removal.known.fullHash) {
+        fullHash ??= await hashFile(filePath);
+        same = fullHash === removal.known.fullHash;
+      } else if (removal.known.hash) {
+        quickHash ??= await hashFileQuick(filePath);
+        same = quickHash === removal.known.hash;
+      }
+
+      if (same) {
+        clearTimeout(removal.timeout);
+        this.pendingRemovals.delete(oldPath);
+        this.db.updateFilePath(oldPath, filePath);
+        this.emit('renamed', oldPath, filePath);
+        return true;
+      }
+    }
+
+    return false;
+  }
+
+  private getNewDirectory(path: string): string | null {
+    for (const directory of this.newDirectories.keys()) {
+      if (path.startsWith(directory + sep)) {
+        return directory;
+      }
+    }
+    return null;
+  }
+
+  private scheduleDirectory(dirPath: string): void {
+    const existing = this.newDirectories.get(dirPath);
+    if (existing) {
+      clearTimeout(existing);
+    }
+
+    // Wait until files stop arriving, e.g. while an archive is extracted
+    const timeout = setTimeout(async () => {
+      this.newDirectories.set(dirPath, null);
+      await this.processDirectory(dirPath);
+    }, this.options.debounceMs! + WRITE_STABILITY_MS);
+
+    this.newDirectories.set(dirPath, timeout);
+  }
+
+  /**
+   * Handle a new folder, such as an extracted archive, as one unit instead
+   * of splitting it up file by file. It is only moved when all its files
+   * would go to the same folder.
+   */
+  private async processDirectory(dirPath: string): Promise<void> {
+    try {
+      if (!existsSync(dirPath)) {
+        return;
+      }
+
+      const paths = (await listDirectory(dirPath, { recursive: true }))
+        .filter(path => !this.ignored.some(pattern => pattern.test(path)));
+
+      // A folder moved by hand within the watched folder
+      let renamed = 0;
+      for (const path of paths) {
+        if (await this.detectRename(path)) renamed++;
+      }
+      if (renamed > 0 || paths.length === 0) {
+        return;
+      }
+
+      const files: FileAnalysis[] = [];
+      for (const path of paths) {
+        files.push(await this.analyzer.analyze(path));
+      }
+
+      const plan = this.planDirectory(dirPath, files);
+      if (!plan) {
+        return;
+      }
+
+      this.emit('directory', dirPath, files);
+
+      if (typeof plan === 'string') {
+        this.countOutcome('skipped');
+        this.emit('directorySkipped', dirPath, plan);
+        return;
+      }
+
+      if (plan.confirm) {
+        // Keep the plan for "sortora inbox"
+        this.inbox.addDirectory(dirPath, plan);
+        this.countOutcome('skipped');
+        this.emit('directorySuggested', dirPath, plan.destination);
+        return;
+      }
+
+      const result = await this.executor.move(dirPath, plan.destination, plan.ruleName, plan.confidence);
+
+      if (result.success) {
+        this.countOutcome('succeeded');
+        this.emit('directoryOrganized', dirPath, result.finalPath!);
+      } else {
+        this.countOutcome('failed');
+        this.emit('error', new Error(result.error || 'Execution failed'));
+      }
+    } catch (error) {
+      this.emit('error', error instanceof Error ? error : new Error('Unknown error'));
+    } finally {
+      // Files added to it from now on are new files of their own, unless
+      // more arrived while it was handled and it is scheduled again
+      if (this.newDirectories.get(dirPath) === null) {
+        this.newDirectories.delete(dirPath);
+      }
+    }
+  }
+
+  /**
+   * Where a new folder goes, or why it stays. Null when it is already where
+   * its files belong, e.g. after the watcher moved it there itself.
+   */
+  private planDirectory(
+    dirPath: string,
+    files: FileAnalysis[]
+  ): { destination: string; ruleName?: string; confidence: number; confirm: boolean } | string | null {
+    const folders = new Set<string>();
+    const rules = new Set<string>();
+    let confidence = 1;
+    let confirm = false;
+
+    for (const file of files) {
+      const suggestion = this.suggester.generateSuggestion(file);
+
+      if (!suggestion || (this.options.rules && suggestion.learned)) {
+        return `No matching rule for ${file.filename}`;
+      }
+      if (suggestion.action !== 'move' || suggestion.steps) {
+        return `${file.filename} would not be moved`;
+      }
+
+      folders.add(dirname(suggestion.destination));
+      rules.add(suggestion.ruleName);
+      confidence = Math.min(confidence, suggestion.confidence);
+      confirm ||= suggestion.requiresConfirmation || this.demoted.has(suggestion.ruleName);
+    }
+
+    if (folders.size > 1) {
+      return 'Its files would go to different folders';
+    }
+
+    const [folder] = folders;
+    if (folder === dirname(dirPath) || (folder + sep).startsWith(dirPath + sep)) {
+      return null;
+    }
+
+    if (confidence < this.options.minConfidence!) {
+      return `Low confidence: ${Math.round(confidence * 100)}%`;
+    }
+
+    return {
+      destination: join(folder, basename(dirPath)),
+      ruleName: rules.size === 1 ? [...rules][0] : undefined,
+      confidence,
+      // Outside auto mode folders wait in the inbox, like files
+      confirm: !this.options.auto || confirm,
+    };
+  }
+
   private async processFile(filePath: string): Promise<void> {
     try {
+      // A file the user renamed or moved is left where it is
+      if (await this.detectRename(filePath)) {
+        return;
+      }
+
       // Analyze file
       const analysis = await this.analyzer.analyze(filePath);
       this.emit('file', analysis);
@@ -131,30 +510,37 @@ export class Watcher extends EventEmitter {
       // Generate suggestion
       const suggestion = this.suggester.generateSuggestion(analysis);
 
-      if (!suggestion) {
+      // With a rule subset, learned patterns don't apply either
+      if (!suggestion || (this.options.rules && suggestion.learned)) {
+        this.countOutcome('skipped');
         this.emit('skipped', analysis, 'No matching rule');
         return;
       }
 
       // Check confidence threshold
       if (suggestion.confidence < this.options.minConfidence!) {
+        this.countOutcome('skipped');
         this.emit('skipped', analysis, `Low confidence: ${Math.round(suggestion.confidence * 100)}%`);
         return;
       }
 
-      // Check if auto mode or needs confirmation
-      if (this.options.auto && !suggestion.requiresConfirmation) {
+      // Check if auto mode or needs confirmation; demoted rules only suggest
+      if (this.options.auto && !suggestion.requiresConfirmation && !this.demoted.has(suggestion.ruleName)) {
         // Execute automatically
         const result = await this.executor.execute(suggestion);
 
         if (result.success) {
+          this.countOutcome('succeeded');
           this.emit('organized', analysis, suggestion.destination);
         } else {
+          this.countOutcome('failed');
           this.emit('error', new Error(result.error || 'Execution failed'));
         }
       } else {
-        // Just emit the suggestion for manual handling
-        this.emit('skipped', analysis, 'Requires confirmation');
+        // Keep the suggestion for "sortora inbox"
+        this.inbox.add(suggestion);
+        this.countOutcome('skipped');
+        this.emit('suggested', analysis, suggestion);
       }
     } catch (error) {
       this.emit('error', error instanceof Error ? error : new Error('Unknown error'));
@@ -171,11 +557,14 @@ export class Watcher extends EventEmitter {
       if (this.options.auto) {
         const suggestion = this.suggester.generateSuggestion(analysis);
 
-        if (suggestion && suggestion.confidence >= this.options.minConfidence! && !suggestion.requiresConfirmation) {
+        if (suggestion && suggestion.confidence >= this.options.minConfidence! && !suggestion.requiresConfirmation
+          && !this.demoted.has(suggestion.ruleName) && !(this.options.rules && suggestion.learned)) {
           const result = await this.executor.execute(suggestion);
           if (result.success) {
+            this.countOutcome('succeeded');
             this.emit('organized', analysis, suggestion.destination);
           } else {
+            this.countOutcome('failed');
             this.emit('error', new Error(result.error || 'Execution failed'));
           }
         }
@@ -231,9 +620,10 @@ export async function watchMultiple(
   db: Database,
   config: Config,
   modelsDir: string,
-  options: WatcherOptions = {}
+  options: WatcherOptions = {},
+  rulesFile?: RulesFile
 ): Promise<Watcher> {
-  const watcher = new Watcher(db, config, modelsDir);
+  const watcher = new Watcher(db, config, modelsDir, rulesFile);
 
   // Start with first path
   if (paths.length > 0) {
@@ -247,3 +637,40 @@ export async function watchMultiple(
 
   return watcher;
 }
+
+/**
+ * Options for watching a directory from the watch section of the config
+ */
+export function getWatchDirectoryOptions(directory: WatchDirectory, config: Config): WatcherOptions {
+  return {
+    auto: directory.mode === 'auto',
+    minConfidence: directory.minConfidence,
+    debounceMs: directory.debounceMs,
+    ignorePatterns: [...config.settings.ignorePatterns, ...directory.ignorePatterns],
+    rules: directory.rules,
+  };
+}
+
+/**
+ * Watch the configured directories, each with its own watcher and settings
+ */
+export async function watchDirectories(
+  directories: WatchDirectory[],
+  db: Database,
+  config: Config,
+  modelsDir: string,
+  rulesFile?: RulesFile,
+  setup?: (watcher: Watcher, directory: WatchDirectory) => void
+): Promise<Watcher[]> {
+  const watchers: Watcher[] = [];
+
+  for (const directory of directories) {
+    const watcher = new Watcher(db, config, modelsDir, rulesFile);
+    // Listeners go on before start so no event is missed
+    setup?.(watcher, directory);
+    await watcher.start(expandPath(directory.path), getWatchDirectoryOptions(directory, config));
+    watchers.push(watcher);
+  }
+
+  return watchers;
+}
@@ -1,4 +1,4 @@
-import { Database } from '../storage/database.js';
+import { Database, type RuleFeedbackCounts } from '../storage/database.js';
 import { PatternTracker } from './pattern-tracker.js';
 import type { FileAnalysis } from '../core/analyzer.js';
 import type { Suggestion } from '../core/suggester.js';
@@ -22,6 +22,36 @@ export interface FeedbackStats {
   ruleAccuracy: Record<string, number>;
 }
 
+export interface RuleAccuracy extends RuleFeedbackCounts {
+  acceptanceRate: number | null;
+  modificationRate: number | null;
+  undoRate: number | null;
+  accuracy: number;
+  // Decisions the rates are based on: applied operations plus rejections
+  samples: number;
+}
+
+/**
+ * Rates for one rule from its stored feedback and operations. Accuracy is
+ * the acceptance rate times the share of operations that were kept; a rate
+ * without data counts as 1.
+ */
+export function computeRuleAccuracy(counts: RuleFeedbackCounts): RuleAccuracy {
+  const reviewed = counts.accepted + counts.rejected + counts.modified;
+  const acceptanceRate = reviewed > 0 ? counts.accepted / reviewed : null;
+  const modificationRate = reviewed > 0 ? counts.modified / reviewed : null;
+  const undoRate = counts.applied > 0 ? counts.undone / counts.applied : null;
+
+  return {
+    ...counts,
+    acceptanceRate,
+    modificationRate,
+    undoRate,
+    accuracy: (acceptanceRate ?? 1) * (1 - (undoRate ?? 0)),
+    samples: counts.applied + counts.rejected,
+  };
+}
+
 export class FeedbackHandler {
   private db: Database;
   private patternTracker: PatternTracker;
@@ -46,6 +76,13 @@ export class FeedbackHandler {
 
     this.sessionFeedback.push(feedback);
 
+    this.db.insertRuleFeedback({
+      ruleName: suggestion.ruleName,
+      type,
+      filePath: suggestion.file.path,
+      destination: modifiedDestination ?? suggestion.destination,
+    });
+
     // Learn from feedback
     switch (type) {
       case 'accept':
@@ -63,7 +100,10 @@ export class FeedbackHandler {
   }
 
   private handleAccept(suggestion: Suggestion): void {
-    // Track the successful pattern
+    // Track the successful pattern; only moves say where files belong
+    if (suggestion.action !== 'move') {
+      return;
+    }
     this.patternTracker.trackMove(suggestion.file, suggestion.destination);
   }
 
@@ -167,11 +207,39 @@ export class FeedbackHandler {
     return 'low';
   }
 
+  /**
+   * Accuracy of every rule over all stored feedback, least accurate first
+   */
+  getRuleAccuracy(): RuleAccuracy[] {
+    return this.db.getRuleFeedbackCounts()
+      .map(computeRuleAccuracy)
+      .sort((a, b) => a.accuracy - b.accuracy);
+  }
+
+  /**
+   * Rules that should only suggest, even in auto mode
+   */
+  getDemotedRules(threshold: number, minSamples: number): Map<string, RuleAccuracy> {
+    const demoted = new Map<string, RuleAccuracy>();
+
+    for (const rule of this.getRuleAccuracy()) {
+      if (rule.samples >= minSamples && rule.accuracy < threshold) {
+        demoted.set(rule.ruleName, rule);
+      }
+    }
+
+    return demoted;
+  }
+
   getProblematicRules(): { ruleName: string; accuracy: number; feedback: Feedback[] }[] {
     const stats = this.getSessionStats();
     const problematic: { ruleName: string; accuracy: number; feedback: Feedback[] }[] = [];
 
-    for (const [ruleName, accuracy] of Object.entries(stats.ruleAccuracy)) {
+    // Judge rules seen in this session by their whole history
+    const stored = new Map(this.getRuleAccuracy().map(rule => [rule.ruleName, rule.accuracy]));
+
+    for (const ruleName of Object.keys(stats.ruleAccuracy)) {
+      const accuracy = stored.get(ruleName) ?? stats.ruleAccuracy[ruleName];
       if (accuracy < 0.5) {
         const ruleFeedback = this.sessionFeedback.filter(
           fb => fb.suggestion.ruleName === ruleName
@@ -1,5 +1,5 @@
 import { basename, dirname, extname } from 'path';
-import { Database, type PatternRecord } from '../storage/database.js';
+import { Database, type PatternRecord, type OperationRecord } from '../storage/database.js';
 import type { FileAnalysis } from '../core/analyzer.js';
 
 export interface TrackedPattern {
@@ -11,6 +11,18 @@ export interface TrackedPattern {
   confidence: number;
 }
 
+const CLEANUP_KEY = 'patterns_cleaned_at';
+
+// Undos of the same rule and destination after which it is no longer suggested
+const SUPPRESS_AFTER_UNDOS = 2;
+
+/**
+ * Stable identity of a pattern, used to remember dismissed ones
+ */
+export function patternKey(pattern: Pick<TrackedPattern, 'type' | 'pattern' | 'destination'>): string {
+  return `${pattern.type}:${pattern.pattern}->${pattern.destination}`;
+}
+
 export class PatternTracker {
   private db: Database;
   private minOccurrences = 3;
@@ -38,6 +50,37 @@ export class PatternTracker {
     this.recordPattern('folder', sourceDir, destDir);
   }
 
+  /**
+   * Learn from an undone move: patterns that sent the file to the undone
+   * destination lose weight
+   */
+  trackUndo(source: string, destination: string): void {
+    const destDir = dirname(destination);
+    const filename = basename(source);
+    const extension = extname(filename).toLowerCase();
+
+    const candidates: [string, string | null][] = [
+      ['extension', extension || null],
+      ['filename', this.extractFilenamePattern(filename)],
+      ['folder', dirname(source)],
+    ];
+
+    for (const [type, pattern] of candidates) {
+      const existing = pattern ? this.db.findPattern(type, pattern) : null;
+      if (existing && existing.destination === destDir) {
+        this.db.penalizePattern(existing.id);
+      }
+    }
+  }
+
+  /**
+   * Whether a rule's moves into a directory were undone often enough that
+   * it should stop being suggested
+   */
+  isSuppressed(ruleName: string, destinationDir: string): boolean {
+    return this.db.countUndoneFiles(ruleName, destinationDir) >= SUPPRESS_AFTER_UNDOS;
+  }
+
   private recordPattern(type: string, pattern: string, destination: string): void {
     const existing = this.db.findPattern(type, pattern);
 
@@ -132,8 +175,11 @@ export class PatternTracker {
       confidence += 0.1;
     }
 
-    // Cap at 1.0
-    return Math.min(confidence, 1.0);
+    // Each undone move following the pattern counts against it
+    confidence -= pattern.rejections * 0.2;
+
+    // Keep within 0..1
+    return Math.max(0, Math.min(confidence, 1.0));
   }
 
   suggestDestination(file: FileAnalysis): TrackedPattern | null {
@@ -148,11 +194,8 @@ export class PatternTracker {
 
     // Check filename patterns
     for (const p of patterns) {
-      if (p.type === 'filename') {
-        const regex = new RegExp(p.pattern.replace(/\*/g, '.*'), 'i');
-        if (regex.test(file.filename)) {
-          return p;
-        }
+      if (p.type === 'filename' && this.matchesFilename(p.pattern, file.filename)) {
+        return p;
       }
     }
 
@@ -167,6 +210,43 @@ export class PatternTracker {
     return null;
   }
 
+  private matchesFilename(pattern: string, filename: string): boolean {
+    const regex = new RegExp(pattern.replace(/\*/g, '.*'), 'i');
+    return regex.test(filename);
+  }
+
+  /**
+   * Recent moves that back up a pattern, newest first
+   */
+  getEvidence(pattern: TrackedPattern, limit = 3): OperationRecord[] {
+    const moves = this.db.getMovesInto(pattern.destination, 200);
+
+    return moves.filter(op => {
+      if (!op.destination || dirname(op.destination) !== pattern.destination) {
+        return false;
+      }
+
+      switch (pattern.type) {
+        case 'extension':
+          return extname(op.source).toLowerCase() === pattern.pattern.toLowerCase();
+        case 'filename':
+          return this.matchesFilename(pattern.pattern, basename(op.source));
+        case 'folder':
+          return dirname(op.source) === pattern.pattern;
+        default:
+          return false;
+      }
+    }).slice(0, limit);
+  }
+
+  dismissPattern(pattern: TrackedPattern): void {
+    this.db.dismissPattern(patternKey(pattern));
+  }
+
+  getDismissedPatterns(): Set<string> {
+    return new Set(this.db.getDismissedPatterns());
+  }
+
   getPatternStats(): {
     totalPatterns: number;
     byType: Record<string, number>;
@@ -201,13 +281,30 @@ export class PatternTracker {
     let removed = 0;
     for (const p of patterns) {
       if (p.lastUsed < cutoff && p.occurrences < 5) {
-        // Would need a delete method in db
+        this.db.deletePattern(p.id);
         removed++;
       }
     }
 
     return removed;
   }
+
+  /**
+   * Run clearOldPatterns at most once per interval; returns the number of
+   * patterns removed, or null when cleanup was not due yet
+   */
+  cleanupIfDue(intervalDays = 7, maxAgeDays = 90): number | null {
+    const now = Math.floor(Date.now() / 1000);
+    const last = parseInt(this.db.getMeta(CLEANUP_KEY) || '0', 10);
+
+    if (now - last < intervalDays * 24 * 60 * 60) {
+      return null;
+    }
+
+    const removed = this.clearOldPatterns(maxAgeDays);
+    this.db.setMeta(CLEANUP_KEY, String(now));
+    return removed;
+  }
 }
 
 export default PatternTracker;
@@ -1,4 +1,4 @@
-import { PatternTracker, type TrackedPattern } from './pattern-tracker.js';
+import { PatternTracker, patternKey, type TrackedPattern } from './pattern-tracker.js';
 import type { ParsedRule } from '../rules/parser.js';
 import type { Config } from '../config.js';
 
@@ -19,7 +19,10 @@ export class RuleSuggester {
   }
 
   suggestRules(minConfidence = 0.7): SuggestedRule[] {
-    const patterns = this.patternTracker.getLearnedPatterns(minConfidence);
+    // Patterns dismissed in `sortora learn` never come back as candidates
+    const dismissed = this.patternTracker.getDismissedPatterns();
+    const patterns = this.patternTracker.getLearnedPatterns(minConfidence)
+      .filter(p => !dismissed.has(patternKey(p)));
     const suggestions: SuggestedRule[] = [];
     const processedPatterns = new Set<string>();
 
@@ -70,12 +73,23 @@ export class RuleSuggester {
       descriptions.push(`files with extensions: ${match.extension.join(', ')}`);
     }
 
-    if (filenames.length > 0) {
-      match.filename = filenames.map(p => p.pattern);
-      descriptions.push(`files matching: ${match.filename.join(', ')}`);
+    // Prefix patterns like "Invoice*" are globs; the built-in ones are regexes
+    const globs = filenames.filter(p => /^[A-Za-z]+\*$/.test(p.pattern)).map(p => p.pattern);
+    const regexes = filenames.filter(p => !globs.includes(p.pattern)).map(p => p.pattern);
+
+    if (globs.length > 0) {
+      match.filename = globs;
+      descriptions.push(`files matching: ${globs.join(', ')}`);
+    }
+
+    if (regexes.length > 0) {
+      match.filenameRegex = regexes.length === 1
+        ? regexes[0]
+        : regexes.map(r => `(?:${r})`).join('|');
+      descriptions.push(`files matching /${match.filenameRegex}/`);
     }
 
-    if (folders.length > 0 && !match.extension && !match.filename) {
+    if (folders.length > 0 && !match.extension && !match.filename && !match.filenameRegex) {
       match.location = folders[0].pattern;
       descriptions.push(`files from: ${folders[0].pattern}`);
     }
@@ -121,7 +135,9 @@ export class RuleSuggester {
       if (pattern.toLowerCase().includes('invoice') || pattern.toLowerCase().includes('счёт')) {
         return 'Learned: Invoices';
       }
-      return `Learned: ${pattern.replace(/[*?]/g, '')} files`;
+      if (/^[A-Za-z]+\*$/.test(pattern)) {
+        return `Learned: ${pattern.replace(/[*?]/g, '')} files`;
+      }
     }
 
     if (ext) {
@@ -160,7 +176,7 @@ export class RuleSuggester {
 
     // Check if match conditions are specific enough
     const match = suggestion.rule.match;
-    if (!match.extension && !match.filename && !match.location && !match.type) {
+    if (!match.extension && !match.filename && !match.filenameRegex && !match.location && !match.type) {
       issues.push('Rule has no match conditions');
     }
 
@@ -1,8 +1,7 @@
 import { join, dirname, basename, extname } from 'path';
-import { expandPath, type Config } from '../config.js';
 import { interpolatePath } from '../utils/paths.js';
 import type { FileAnalysis } from '../core/analyzer.js';
-import type { ParsedRule } from './parser.js';
+import type { RuleAction } from './parser.js';
 
 export type ActionType = 'move' | 'copy' | 'delete' | 'archive' | 'rename' | 'tag';
 
@@ -14,16 +13,16 @@ export interface ResolvedAction {
   requiresConfirmation: boolean;
 }
 
+/**
+ * Resolve a rule action for a file. `destinationDir` is the already
+ * resolved target folder (local or global) for move/copy/archive actions.
+ */
 export function resolveAction(
   file: FileAnalysis,
-  rule: ParsedRule,
-  config: Config
+  action: RuleAction,
+  variables: Record<string, string | number>,
+  destinationDir?: string
 ): ResolvedAction | null {
-  const action = rule.action;
-
-  // Build variables for path interpolation
-  const variables = buildVariables(file, config);
-
   // Determine action type and destination
   if (action.delete) {
     return {
@@ -32,46 +31,39 @@ export function resolveAction(
     };
   }
 
-  if (action.moveTo) {
-    const dest = resolvePath(action.moveTo, file.filename, variables);
+  if (action.moveTo || action.suggestTo) {
+    if (!destinationDir) return null;
     return {
       type: 'move',
-      destination: dest,
-      requiresConfirmation: action.confirm ?? false,
+      destination: withFilename(destinationDir, file.filename),
+      // Always confirm suggestions
+      requiresConfirmation: action.moveTo ? action.confirm ?? false : true,
     };
   }
 
   if (action.copyTo) {
-    const dest = resolvePath(action.copyTo, file.filename, variables);
+    if (!destinationDir) return null;
     return {
       type: 'copy',
-      destination: dest,
+      destination: withFilename(destinationDir, file.filename),
       requiresConfirmation: action.confirm ?? false,
     };
   }
 
-  if (action.suggestTo) {
-    const dest = resolvePath(action.suggestTo, file.filename, variables);
-    return {
-      type: 'move',
-      destination: dest,
-      requiresConfirmation: true, // Always confirm suggestions
-    };
-  }
-
   if (action.archiveTo) {
-    const dest = resolvePath(action.archiveTo, file.filename, variables);
+    if (!destinationDir) return null;
     return {
       type: 'archive',
-      destination: dest,
+      destination: withFilename(destinationDir, file.filename),
       requiresConfirmation: action.confirm ?? false,
     };
   }
 
   if (action.rename) {
-    const newName = interpolatePath(action.rename, variables);
+    const newName = sanitizeForPath(interpolatePath(action.rename, variables));
     return {
       type: 'rename',
+      destination: join(dirname(file.path), newName),
       newName,
       requiresConfirmation: action.confirm ?? true,
     };
@@ -88,9 +80,30 @@ export function resolveAction(
   return null;
 }
 
-function buildVariables(
+/**
+ * Get the destination template of an action, if it has one
+ */
+export function getDestinationTemplate(action: RuleAction): string | undefined {
+  return action.moveTo || action.suggestTo || action.copyTo || action.archiveTo;
+}
+
+/**
+ * Variables buildVariables can provide, besides `destinations.*` and
+ * `match.*`. Metadata variables are only set when the file has that metadata.
+ */
+export const TEMPLATE_VARIABLES = [
+  'filename', 'basename', 'extension', 'category', 'size',
+  'year', 'month', 'day',
+  'now.year', 'now.month', 'now.day',
+  'exif.year', 'exif.month', 'exif.day', 'exif.camera',
+  'audio.artist', 'audio.album', 'audio.title', 'audio.year',
+  'doc.author', 'doc.title',
+];
+
+export function buildVariables(
   file: FileAnalysis,
-  config: Config
+  destinations: Record<string, string>,
+  captures: Record<string, string> = {}
 ): Record<string, string | number> {
   const now = new Date();
   const fileDate = getFileDate(file);
@@ -115,10 +128,15 @@ function buildVariables(
   };
 
   // Add destinations from config
-  for (const [key, value] of Object.entries(config.destinations)) {
+  for (const [key, value] of Object.entries(destinations)) {
     variables[`destinations.${key}`] = value;
   }
 
+  // Named groups from filenameRegex
+  for (const [name, value] of Object.entries(captures)) {
+    variables[`match.${name}`] = sanitizeForPath(value);
+  }
+
   // Add metadata variables if available
   if (file.metadata) {
     const meta = file.metadata as Record<string, unknown>;
@@ -146,6 +164,10 @@ function buildVariables(
     }
     if (typeof meta.year === 'number') {
       variables['audio.year'] = meta.year;
+      // Release year is a better {year} than the file date for music
+      if (!(meta.dateTaken instanceof Date)) {
+        variables.year = meta.year;
+      }
     }
 
     // Document metadata
@@ -177,20 +199,9 @@ function getFileDate(file: FileAnalysis): Date {
   return file.modified;
 }
 
-function resolvePath(
-  template: string,
-  filename: string,
-  variables: Record<string, string | number>
-): string {
-  let result = interpolatePath(template, variables);
-  result = expandPath(result);
-
-  // If template doesn't include filename, append it
-  if (!result.includes(filename)) {
-    result = join(result, filename);
-  }
-
-  return result;
+function withFilename(dir: string, filename: string): string {
+  // Directory templates get the filename appended; full paths are kept
+  return basename(dir) === filename ? dir : join(dir, filename);
 }
 
 function sanitizeForPath(str: string): string {
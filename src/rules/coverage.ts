@@ -0,0 +1,77 @@
+import type { FileAnalysis } from '../core/analyzer.js';
+import type { RuleEngine } from '../core/rule-engine.js';
+
+export interface RuleCoverage {
+  name: string;
+  priority: number;
+  enabled: boolean;
+  // Files this rule handles, i.e. it is the first rule that matches
+  claimed: number;
+  // Files this rule matches at all, including ones claimed by earlier rules
+  matched: number;
+}
+
+export interface RuleOverlap {
+  path: string;
+  // Matching rules in evaluation order; the first one wins
+  rules: string[];
+}
+
+export interface CoverageReport {
+  totalFiles: number;
+  rules: RuleCoverage[];
+  unmatched: string[];
+  neverFired: string[];
+  overlaps: RuleOverlap[];
+}
+
+/**
+ * Run files through the rule engine and count, per rule, the files it
+ * claims and matches. Rules are listed in evaluation order.
+ */
+export function computeCoverage(engine: RuleEngine, files: FileAnalysis[]): CoverageReport {
+  const coverage = new Map<string, RuleCoverage>();
+  for (const rule of engine.getRules()) {
+    // Built-in rules can share a name with user rules; count them together
+    if (!coverage.has(rule.name)) {
+      coverage.set(rule.name, {
+        name: rule.name,
+        priority: rule.priority,
+        enabled: rule.enabled !== false,
+        claimed: 0,
+        matched: 0,
+      });
+    }
+  }
+
+  const unmatched: string[] = [];
+  const overlaps: RuleOverlap[] = [];
+
+  for (const file of files) {
+    const matches = engine.matchAll(file);
+
+    if (matches.length === 0) {
+      unmatched.push(file.path);
+      continue;
+    }
+
+    coverage.get(matches[0].rule.name)!.claimed++;
+    for (const match of matches) {
+      coverage.get(match.rule.name)!.matched++;
+    }
+
+    if (matches.length > 1) {
+      overlaps.push({ path: file.path, rules: matches.map(m => m.rule.name) });
+    }
+  }
+
+  const rules = [...coverage.values()];
+
+  return {
+    totalFiles: files.length,
+    rules,
+    unmatched,
+    neverFired: rules.filter(r => r.enabled && r.matched === 0).map(r => r.name),
+    overlaps,
+  };
+}
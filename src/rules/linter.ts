@@ -0,0 +1,341 @@
+import { expandPath, type Config } from '../config.js';
+import { RuleEngine, getDefaultRules, type Rule } from '../core/rule-engine.js';
+import { TEMPLATE_VARIABLES } from './actions.js';
+import { parseAge, parseSize, type MatchConditions, type RuleAction, type RulesFile } from './parser.js';
+
+export type LintSeverity = 'error' | 'warning';
+
+export type LintKind =
+  | 'shadowed'
+  | 'duplicate-name'
+  | 'unknown-variable'
+  | 'unknown-destination'
+  | 'invalid-age'
+  | 'invalid-size'
+  | 'impossible-pattern';
+
+export interface LintIssue {
+  severity: LintSeverity;
+  kind: LintKind;
+  rule: string;
+  message: string;
+}
+
+const SIZE_KEYS = ['size', 'minSize', 'maxSize'] as const;
+
+/**
+ * Statically check the rules from config.yaml and rules.yaml together with
+ * the built-in rules, in the order the rule engine evaluates them.
+ */
+export function lintRules(config: Config, rulesFile?: RulesFile): LintIssue[] {
+  const engine = new RuleEngine(config, rulesFile);
+  const destinations = { ...config.destinations, ...rulesFile?.destinations };
+  const rules = engine.getRules();
+
+  const issues: LintIssue[] = [
+    ...findDuplicateNames(config.rules, rulesFile?.rules ?? []),
+  ];
+
+  for (const rule of rules) {
+    issues.push(...checkTemplates(rule, destinations));
+    issues.push(...checkConditions(rule, rule.match));
+  }
+
+  issues.push(...findShadowedRules(rules));
+
+  return issues;
+}
+
+function findDuplicateNames(configRules: Rule[], fileRules: Rule[]): LintIssue[] {
+  const issues: LintIssue[] = [];
+
+  // A rules.yaml rule replacing a config.yaml rule is intended; repeats
+  // within one file are not, only the last one is used
+  for (const [source, rules] of [['config.yaml', configRules], ['rules.yaml', fileRules]] as const) {
+    const seen = new Set<string>();
+    for (const rule of rules) {
+      if (seen.has(rule.name)) {
+        issues.push({
+          severity: 'error',
+          kind: 'duplicate-name',
+          rule: rule.name,
+          message: `defined more than once in ${source}; only the last definition is used`,
+        });
+      }
+      seen.add(rule.name);
+    }
+  }
+
+  // Built-in rules are not replaced by name, both stay active
+  const builtIn = new Set(getDefaultRules().map(r => r.name));
+  const userNames = new Set([...configRules, ...fileRules].map(r => r.name));
+  for (const name of userNames) {
+    if (builtIn.has(name)) {
+      issues.push({
+        severity: 'warning',
+        kind: 'duplicate-name',
+        rule: name,
+        message: 'has the same name as a built-in rule; both rules are active',
+      });
+    }
+  }
+
+  return issues;
+}
+
+function checkTemplates(rule: Rule, destinations: Record<string, string>): LintIssue[] {
+  const issues: LintIssue[] = [];
+  const actions: RuleAction[] = rule.actions && rule.actions.length > 0 ? rule.actions : [rule.action];
+  const captureNames = getCaptureNames(rule.match);
+
+  for (const action of actions) {
+    const templates = [action.moveTo, action.suggestTo, action.copyTo, action.archiveTo, action.rename]
+      .filter((t): t is string => !!t);
+
+    for (const template of templates) {
+      for (const [, variable] of template.matchAll(/\{([^}]+)\}/g)) {
+        if (variable.startsWith('destinations.')) {
+          const key = variable.slice('destinations.'.length);
+          if (!(key in destinations)) {
+            issues.push({
+              severity: 'error',
+              kind: 'unknown-destination',
+              rule: rule.name,
+              message: `"${template}" uses {${variable}}, but no destination "${key}" is configured`,
+            });
+          }
+        } else if (variable.startsWith('match.')) {
+          if (!captureNames.has(variable.slice('match.'.length))) {
+            issues.push({
+              severity: 'error',
+              kind: 'unknown-variable',
+              rule: rule.name,
+              message: `"${template}" uses {${variable}}, but filenameRegex has no such named group`,
+            });
+          }
+        } else if (!TEMPLATE_VARIABLES.includes(variable)) {
+          issues.push({
+            severity: 'error',
+            kind: 'unknown-variable',
+            rule: rule.name,
+            message: `"${template}" uses unknown variable {${variable}}`,
+          });
+        }
+      }
+    }
+  }
+
+  return issues;
+}
+
+function getCaptureNames(match: MatchConditions): Set<string> {
+  const names = new Set<string>();
+  if (match.filenameRegex) {
+    for (const [, name] of match.filenameRegex.matchAll(/\(\?<([A-Za-z_$][\w$]*)>/g)) {
+      names.add(name);
+    }
+  }
+  for (const block of [...(match.all ?? []), ...(match.any ?? [])]) {
+    for (const name of getCaptureNames(block)) {
+      names.add(name);
+    }
+  }
+  return names;
+}
+
+function checkConditions(rule: Rule, match: MatchConditions): LintIssue[] {
+  const issues: LintIssue[] = [];
+  const issue = (severity: LintSeverity, kind: LintKind, message: string) =>
+    issues.push({ severity, kind, rule: rule.name, message });
+
+  // matchAge treats a spec it can't parse as "doesn't match"
+  for (const key of ['age', 'accessed'] as const) {
+    const spec = match[key];
+    if (spec && !parseAge(spec)) {
+      issue('error', 'invalid-age', `${key}: "${spec}" is not a valid age (expected e.g. "> 30 days")`);
+    }
+  }
+
+  for (const key of SIZE_KEYS) {
+    const spec = match[key];
+    if (spec && parseSize(spec) === null) {
+      issue('error', 'invalid-size', `${key}: "${spec}" is not a valid size (expected e.g. "10MB")`);
+    }
+  }
+
+  // Extensions are compared against the lowercased extension without the dot
+  for (const extension of match.extension ?? []) {
+    if (extension.startsWith('.') || extension !== extension.toLowerCase()) {
+      issue('error', 'impossible-pattern', `extension "${extension}" never matches; use "${extension.replace(/^\./, '').toLowerCase()}"`);
+    }
+  }
+
+  for (const pattern of match.filename ?? []) {
+    const problem = checkFilenamePattern(pattern, match.extension);
+    if (problem) {
+      issue('error', 'impossible-pattern', `filename "${pattern}" ${problem}`);
+    }
+  }
+
+  if (match.filenameRegex) {
+    try {
+      new RegExp(match.filenameRegex);
+    } catch (error) {
+      issue('error', 'impossible-pattern', `filenameRegex "${match.filenameRegex}" is not a valid regex: ${error instanceof Error ? error.message : error}`);
+    }
+  }
+
+  for (const block of [...(match.all ?? []), ...(match.any ?? []), ...(match.not ? [match.not] : [])]) {
+    issues.push(...checkConditions(rule, block));
+  }
+
+  return issues;
+}
+
+function checkFilenamePattern(pattern: string, extensions?: string[]): string | null {
+  if (pattern.trim() === '') {
+    return 'is empty';
+  }
+
+  // Patterns are matched against the file name only
+  if (pattern.includes('/') || pattern.includes('\\')) {
+    return 'contains a path separator, but only the file name is matched';
+  }
+
+  // A literal extension in the pattern has to be one of the rule's extensions
+  const literalExtension = pattern.match(/\.([a-z0-9]+)$/i);
+  if (literalExtension && extensions && extensions.length > 0) {
+    const extension = literalExtension[1].toLowerCase();
+    if (!extensions.some(e => e.toLowerCase() === extension)) {
+      return `ends in .${extension}, which is not in the rule's extensions (${extensions.join(', ')})`;
+    }
+  }
+
+  return null;
+}
+
+/**
+ * Report enabled rules that can never be reached because an earlier rule
+ * matches every file they match. The check is conservative: it only reports
+ * a rule when the earlier rule's required conditions are provably looser.
+ */
+function findShadowedRules(rules: Rule[]): LintIssue[] {
+  const issues: LintIssue[] = [];
+  const active = rules.filter(r => r.enabled !== false);
+
+  for (let i = 0; i < active.length; i++) {
+    const rule = active[i];
+    const shadow = active.slice(0, i).find(earlier => covers(earlier.match, rule.match));
+
+    if (shadow) {
+      issues.push({
+        severity: 'warning',
+        kind: 'shadowed',
+        rule: rule.name,
+        message: `never applies: every file it matches is matched first by "${shadow.name}" (priority ${shadow.priority})`,
+      });
+    }
+  }
+
+  return issues;
+}
+
+/**
+ * Whether every file matching `narrow` also matches `broad`. Soft
+ * conditions don't stop a rule from matching once a required one holds.
+ */
+function covers(broad: MatchConditions, narrow: MatchConditions): boolean {
+  const required = [
+    'extension', 'filename', 'filenameRegex', 'pathGlob', 'type', 'location', ...SIZE_KEYS, 'all', 'any', 'not',
+  ] as const;
+  if (!required.some(key => broad[key] !== undefined)) {
+    return false;
+  }
+
+  if (broad.extension && broad.extension.length > 0) {
+    const allowed = broad.extension.map(e => e.toLowerCase());
+    if (!narrow.extension || narrow.extension.length === 0) return false;
+    if (!narrow.extension.every(e => allowed.includes(e.toLowerCase()))) return false;
+  }
+
+  // Case-sensitive patterns don't cover case-insensitive ones
+  if (broad.caseSensitive && !narrow.caseSensitive && (broad.filename || broad.filenameRegex || broad.pathGlob)) {
+    return false;
+  }
+
+  if (broad.filename && broad.filename.length > 0) {
+    if (!narrow.filename || narrow.filename.length === 0) return false;
+    if (!narrow.filename.every(p => broad.filename!.some(b => globCovers(b, p)))) return false;
+  }
+
+  if (broad.type && broad.type !== narrow.type) {
+    return false;
+  }
+
+  if (broad.location) {
+    if (!narrow.location) return false;
+    if (!expandPath(narrow.location).startsWith(expandPath(broad.location))) return false;
+  }
+
+  if (broad.size && broad.size !== narrow.size) {
+    return false;
+  }
+
+  if (broad.minSize) {
+    const min = parseSize(broad.minSize);
+    const narrowMin = narrow.minSize ? parseSize(narrow.minSize) : null;
+    if (min === null || narrowMin === null || narrowMin < min) return false;
+  }
+
+  if (broad.maxSize) {
+    const max = parseSize(broad.maxSize);
+    const narrowMax = narrow.maxSize ? parseSize(narrow.maxSize) : null;
+    if (max === null || narrowMax === null || narrowMax > max) return false;
+  }
+
+  // Regexes, path globs and groups are only compared for equality
+  for (const key of ['filenameRegex', 'pathGlob', 'all', 'any', 'not'] as const) {
+    if (broad[key] && JSON.stringify(broad[key]) !== JSON.stringify(narrow[key])) {
+      return false;
+    }
+  }
+
+  return true;
+}
+
+/**
+ * Whether every name matching glob `narrow` also matches glob `broad`.
+ * Only understands `*x`, `x*` and `*x*` for `broad`; false when unsure.
+ */
+function globCovers(broad: string, narrow: string): boolean {
+  if (broad.toLowerCase() === narrow.toLowerCase() || broad === '*') {
+    return true;
+  }
+
+  const inner = broad.replace(/^\*/, '').replace(/\*$/, '');
+  if (/[*?]/.test(inner)) {
+    return false;
+  }
+
+  const startsLoose = broad.startsWith('*');
+  const endsLoose = broad.endsWith('*');
+  const lower = narrow.toLowerCase();
+  const literal = inner.toLowerCase();
+
+  if (startsLoose && endsLoose) {
+    return !/[*?]/.test(narrow) ? lower.includes(literal) : narrowKeeps(narrow, literal);
+  }
+  if (endsLoose) {
+    return lower.startsWith(literal) && !/[*?]/.test(narrow.slice(0, inner.length));
+  }
+  if (startsLoose) {
+    return lower.endsWith(literal) && !/[*?]/.test(narrow.slice(narrow.length - inner.length));
+  }
+
+  return false;
+}
+
+// Whether some wildcard-free stretch of `narrow` contains `literal`
+function narrowKeeps(narrow: string, literal: string): boolean {
+  return narrow.toLowerCase().split(/[*?]/).some(part => part.includes(literal));
+}
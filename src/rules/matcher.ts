@@ -1,132 +1,142 @@
 import { dirname } from 'path';
 import { expandPath } from '../config.js';
 import type { FileAnalysis } from '../core/analyzer.js';
-import type { ParsedRule } from './parser.js';
+import type { ParsedRule, MatchConditions } from './parser.js';
 import { parseSize, parseAge } from './parser.js';
 
+export interface ConditionTrace {
+  condition: string;
+  matched: boolean;
+  children?: ConditionTrace[];
+}
+
 export interface MatchResult {
   matched: boolean;
   confidence: number;
   matchedConditions: string[];
   failedConditions: string[];
+  trace: ConditionTrace[];
+  // Named groups captured by filenameRegex, including from matched groups
+  captures: Record<string, string>;
+}
+
+export interface GroupResult {
+  matched: boolean;
+  confidence: number;
+  trace: ConditionTrace;
+  captures: Record<string, string>;
+}
+
+export function matchFile(file: FileAnalysis, rule: Pick<ParsedRule, 'match'>): MatchResult {
+  return matchConditions(file, rule.match);
 }
 
-export function matchFile(file: FileAnalysis, rule: ParsedRule): MatchResult {
+/**
+ * Evaluate a match block. Nested all/any/not groups are evaluated
+ * recursively with the same semantics and count as required conditions.
+ */
+export function matchConditions(file: FileAnalysis, match: MatchConditions): MatchResult {
   const matchedConditions: string[] = [];
   const failedConditions: string[] = [];
+  const trace: ConditionTrace[] = [];
+  const captures: Record<string, string> = {};
   let requiredFailed = false;
-
-  const match = rule.match;
+  let score = 0;
+  const caseSensitive = match.caseSensitive ?? false;
+
+  const check = (condition: string, ok: boolean, required = false) => {
+    trace.push({ condition, matched: ok });
+    if (ok) {
+      matchedConditions.push(condition);
+      score++;
+    } else {
+      failedConditions.push(condition);
+      if (required) requiredFailed = true;
+    }
+  };
 
   // Extension match (required if specified)
   if (match.extension && match.extension.length > 0) {
-    if (match.extension.includes(file.extension.toLowerCase())) {
-      matchedConditions.push('extension');
-    } else {
-      failedConditions.push('extension');
-      requiredFailed = true;
-    }
+    check('extension', match.extension.includes(file.extension.toLowerCase()), true);
   }
 
-  // Filename pattern match
+  // Filename pattern match (required if specified)
   if (match.filename && match.filename.length > 0) {
-    const matched = match.filename.some(pattern => matchGlob(file.filename, pattern));
-    if (matched) {
-      matchedConditions.push('filename');
-    } else {
-      failedConditions.push('filename');
-    }
+    check('filename', match.filename.some(pattern => matchGlob(file.filename, pattern, caseSensitive)), true);
+  }
+
+  // Filename regex (required if specified); named groups become {match.<name>}
+  if (match.filenameRegex) {
+    const groups = matchRegex(file.filename, match.filenameRegex, caseSensitive);
+    check('filenameRegex', groups !== null, true);
+    Object.assign(captures, groups);
+  }
+
+  // Full path glob (required if specified)
+  if (match.pathGlob && match.pathGlob.length > 0) {
+    check('pathGlob', match.pathGlob.some(pattern => matchPathGlob(file.path, pattern, caseSensitive)), true);
   }
 
   // Type/category match (required if specified)
   if (match.type) {
-    if (file.category === match.type) {
-      matchedConditions.push('type');
-    } else {
-      failedConditions.push('type');
-      requiredFailed = true;
-    }
+    check('type', file.category === match.type, true);
   }
 
   // EXIF check
   if (match.hasExif !== undefined) {
-    const hasExif = file.metadata && 'dateTaken' in file.metadata;
-    if (hasExif === match.hasExif) {
-      matchedConditions.push('hasExif');
-    } else {
-      failedConditions.push('hasExif');
-    }
+    const hasExif = !!file.metadata && 'dateTaken' in file.metadata;
+    check('hasExif', hasExif === match.hasExif);
   }
 
   // Content contains
   if (match.contentContains && match.contentContains.length > 0) {
-    if (file.textContent) {
-      const lowerContent = file.textContent.toLowerCase();
-      const matched = match.contentContains.some(term =>
-        lowerContent.includes(term.toLowerCase())
-      );
-      if (matched) {
-        matchedConditions.push('contentContains');
-      } else {
-        failedConditions.push('contentContains');
-      }
-    } else {
-      failedConditions.push('contentContains');
-    }
+    const lowerContent = file.textContent?.toLowerCase();
+    check('contentContains', !!lowerContent && match.contentContains.some(term =>
+      lowerContent.includes(term.toLowerCase())
+    ));
   }
 
   // Location match (required if specified)
   if (match.location) {
     const fileDir = dirname(file.path);
     const targetDir = expandPath(match.location);
-    if (fileDir.startsWith(targetDir)) {
-      matchedConditions.push('location');
-    } else {
-      failedConditions.push('location');
-      requiredFailed = true;
-    }
+    check('location', fileDir.startsWith(targetDir), true);
   }
 
   // Age check
   if (match.age) {
-    if (matchAge(file.modified, match.age)) {
-      matchedConditions.push('age');
-    } else {
-      failedConditions.push('age');
-    }
+    check('age', matchAge(file.modified, match.age));
   }
 
   // Access time check
   if (match.accessed) {
-    if (matchAge(file.accessed, match.accessed)) {
-      matchedConditions.push('accessed');
-    } else {
-      failedConditions.push('accessed');
-    }
+    check('accessed', matchAge(file.accessed, match.accessed));
   }
 
-  // Size checks
+  // Size checks (required if specified)
   if (match.size) {
-    if (matchSizeExact(file.size, match.size)) {
-      matchedConditions.push('size');
-    } else {
-      failedConditions.push('size');
-    }
+    check('size', matchSizeExact(file.size, match.size), true);
   }
 
   if (match.minSize) {
-    if (matchSizeMin(file.size, match.minSize)) {
-      matchedConditions.push('minSize');
-    } else {
-      failedConditions.push('minSize');
-    }
+    check('minSize', matchSizeMin(file.size, match.minSize), true);
   }
 
   if (match.maxSize) {
-    if (matchSizeMax(file.size, match.maxSize)) {
-      matchedConditions.push('maxSize');
+    check('maxSize', matchSizeMax(file.size, match.maxSize), true);
+  }
+
+  // Boolean groups (required if specified); a group contributes its own
+  // confidence instead of a flat 1
+  for (const group of matchGroups(file, match)) {
+    trace.push(group.trace);
+    if (group.matched) {
+      matchedConditions.push(group.trace.condition);
+      score += group.confidence;
+      Object.assign(captures, group.captures);
     } else {
-      failedConditions.push('maxSize');
+      failedConditions.push(group.trace.condition);
+      requiredFailed = true;
     }
   }
 
@@ -139,27 +149,156 @@ export function matchFile(file: FileAnalysis, rule: ParsedRule): MatchResult {
       confidence: 0,
       matchedConditions,
       failedConditions,
+      trace,
+      captures: {},
     };
   }
 
-  const confidence = matchedConditions.length / totalConditions;
-
   return {
-    matched: matchedConditions.length > 0 && !requiredFailed,
-    confidence,
+    matched: matchedConditions.length > 0,
+    confidence: score / totalConditions,
     matchedConditions,
     failedConditions,
+    trace,
+    captures,
+  };
+}
+
+/**
+ * Evaluate the all/any/not groups of a match block. Branches inherit
+ * caseSensitive unless they set their own.
+ *
+ * - all: every branch must match; confidence is the mean of the branches
+ * - any: at least one branch must match; confidence and captures come from
+ *   the best matching branch
+ * - not: the branch must not match; confidence is 1
+ */
+export function matchGroups(file: FileAnalysis, match: MatchConditions): GroupResult[] {
+  const results: GroupResult[] = [];
+  const evaluate = (block: MatchConditions) =>
+    matchConditions(file, { ...block, caseSensitive: block.caseSensitive ?? match.caseSensitive });
+
+  if (match.all && match.all.length > 0) {
+    const branches = match.all.map(evaluate);
+    const matched = branches.every(b => b.matched);
+    const confidence = matched
+      ? branches.reduce((sum, b) => sum + b.confidence, 0) / branches.length
+      : 0;
+
+    results.push({
+      matched,
+      confidence,
+      captures: matched ? Object.assign({}, ...branches.map(b => b.captures)) : {},
+      trace: {
+        condition: 'all',
+        matched,
+        children: branches.map((b, i) => branchTrace(`all[${i}]`, b)),
+      },
+    });
+  }
+
+  if (match.any && match.any.length > 0) {
+    const branches = match.any.map(evaluate);
+    // The first of the best scoring branches
+    const best = branches
+      .filter(b => b.matched)
+      .reduce<MatchResult | null>((top, b) => (!top || b.confidence > top.confidence ? b : top), null);
+    const matched = best !== null;
+
+    results.push({
+      matched,
+      confidence: best?.confidence ?? 0,
+      captures: best?.captures ?? {},
+      trace: {
+        condition: 'any',
+        matched,
+        children: branches.map((b, i) => branchTrace(`any[${i}]`, b)),
+      },
+    });
+  }
+
+  if (match.not) {
+    const branch = evaluate(match.not);
+    const matched = !branch.matched;
+
+    results.push({
+      matched,
+      confidence: matched ? 1 : 0,
+      captures: {},
+      trace: {
+        condition: 'not',
+        matched,
+        children: branch.trace,
+      },
+    });
+  }
+
+  return results;
+}
+
+function branchTrace(label: string, result: MatchResult): ConditionTrace {
+  return {
+    condition: label,
+    matched: result.matched,
+    children: result.trace,
   };
 }
 
-export function matchGlob(filename: string, pattern: string): boolean {
+export function matchGlob(filename: string, pattern: string, caseSensitive = false): boolean {
   // Convert glob pattern to regex
   const regex = pattern
     .replace(/[.+^${}()|[\]\\]/g, '\\$&')
     .replace(/\*/g, '.*')
     .replace(/\?/g, '.');
 
-  return new RegExp(`^${regex}$`, 'i').test(filename);
+  return new RegExp(`^${regex}$`, caseSensitive ? '' : 'i').test(filename);
+}
+
+/**
+ * Match a full path against a glob. `*` and `?` stay within one path
+ * segment, `**` spans any number of directories. Patterns may start with ~.
+ */
+export function matchPathGlob(path: string, pattern: string, caseSensitive = false): boolean {
+  const regex = expandPath(pattern)
+    .replace(/[.+^${}()|[\]\\]/g, '\\$&')
+    .replace(/\*\*\/|\*\*|\*|\?/g, token => {
+      switch (token) {
+        case '**/': return '(?:.*/)?';
+        case '**': return '.*';
+        case '*': return '[^/]*';
+        default: return '[^/]';
+      }
+    });
+
+  return new RegExp(`^${regex}$`, caseSensitive ? '' : 'i').test(path);
+}
+
+/**
+ * Match a filename against a regex. Returns the named groups (empty if
+ * there are none) or null if it doesn't match or the regex is invalid.
+ */
+export function matchRegex(
+  filename: string,
+  pattern: string,
+  caseSensitive = false
+): Record<string, string> | null {
+  let regex: RegExp;
+  try {
+    regex = new RegExp(pattern, caseSensitive ? '' : 'i');
+  } catch {
+    return null;
+  }
+
+  const result = regex.exec(filename);
+  if (!result) return null;
+
+  const groups: Record<string, string> = {};
+  for (const [name, value] of Object.entries(result.groups ?? {})) {
+    if (value !== undefined) {
+      groups[name] = value;
+    }
+  }
+  return groups;
 }
 
 export function matchAge(date: Date, ageSpec: string): boolean {
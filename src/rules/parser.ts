@@ -1,10 +1,36 @@
-import { readFileSync, existsSync } from 'fs';
+import { readFileSync, writeFileSync, existsSync } from 'fs';
+import { dirname } from 'path';
 import YAML from 'yaml';
 import { z } from 'zod';
+import { ensureDirSync } from '../utils/fs-safe.js';
+
+export interface MatchConditions {
+  extension?: string[];
+  filename?: string[];
+  filenameRegex?: string;
+  pathGlob?: string[];
+  caseSensitive?: boolean;
+  type?: string;
+  hasExif?: boolean;
+  contentContains?: string[];
+  location?: string;
+  age?: string;
+  accessed?: string;
+  size?: string;
+  minSize?: string;
+  maxSize?: string;
+  // Boolean groups - nested blocks with the same keys
+  all?: MatchConditions[];
+  any?: MatchConditions[];
+  not?: MatchConditions;
+}
 
-const MatchSchema = z.object({
+export const MatchSchema: z.ZodType<MatchConditions> = z.lazy(() => z.object({
   extension: z.array(z.string()).optional(),
   filename: z.array(z.string()).optional(),
+  filenameRegex: z.string().optional(),
+  pathGlob: z.array(z.string()).optional(),
+  caseSensitive: z.boolean().optional(),
   type: z.string().optional(),
   hasExif: z.boolean().optional(),
   contentContains: z.array(z.string()).optional(),
@@ -14,7 +40,10 @@ const MatchSchema = z.object({
   size: z.string().optional(),
   minSize: z.string().optional(),
   maxSize: z.string().optional(),
-});
+  all: z.array(MatchSchema).optional(),
+  any: z.array(MatchSchema).optional(),
+  not: MatchSchema.optional(),
+}));
 
 const ActionSchema = z.object({
   moveTo: z.string().optional(),
@@ -27,13 +56,37 @@ const ActionSchema = z.object({
   tag: z.array(z.string()).optional(),
 });
 
-const RuleSchema = z.object({
+export const RuleSchema = z.object({
   name: z.string(),
   priority: z.number().default(50),
   enabled: z.boolean().default(true),
   match: MatchSchema,
   useAi: z.boolean().optional(),
-  action: ActionSchema,
+  action: ActionSchema.default({}),
+  // Ordered action chain; takes precedence over `action` when set
+  actions: z.array(ActionSchema).optional(),
+});
+
+// Synthetic file for a rule test; everything but the name is optional
+const TestFileSchema = z.object({
+  name: z.string(),             // filename, or a path for location rules
+  extension: z.string().optional(),
+  size: z.union([z.number(), z.string()]).optional(),
+  mtime: z.string().optional(),
+  metadata: z.record(z.unknown()).optional(),
+  content: z.string().optional(),
+});
+
+export const RuleTestSchema = z.object({
+  name: z.string().optional(),
+  file: TestFileSchema,
+  // Resolve destinations globally, like `organize --global`
+  global: z.boolean().default(false),
+  expect: z.object({
+    rule: z.string().nullable(),  // null: no rule should apply
+    destination: z.string().optional(),
+    action: z.enum(['move', 'copy', 'delete', 'archive', 'rename', 'tag']).optional(),
+  }),
 });
 
 const RulesFileSchema = z.object({
@@ -46,9 +99,12 @@ const RulesFileSchema = z.object({
   }).optional(),
   destinations: z.record(z.string()).optional(),
   rules: z.array(RuleSchema).default([]),
+  tests: z.array(RuleTestSchema).optional(),
 });
 
 export type ParsedRule = z.infer<typeof RuleSchema>;
+export type RuleAction = z.infer<typeof ActionSchema>;
+export type RuleTest = z.infer<typeof RuleTestSchema>;
 export type RulesFile = z.infer<typeof RulesFileSchema>;
 
 export function parseRulesFile(filePath: string): RulesFile {
@@ -62,6 +118,24 @@ export function parseRulesFile(filePath: string): RulesFile {
   return RulesFileSchema.parse(parsed);
 }
 
+/**
+ * Replace the rules of a rules file, keeping its other sections and comments
+ */
+export function saveRulesFileRules(filePath: string, rules: ParsedRule[]): void {
+  const doc = existsSync(filePath)
+    ? YAML.parseDocument(readFileSync(filePath, 'utf-8'))
+    : new YAML.Document({ version: 1 });
+
+  // An empty file parses to a null document
+  if (!YAML.isMap(doc.contents)) {
+    doc.contents = doc.createNode({ version: 1 });
+  }
+  doc.set('rules', rules);
+
+  ensureDirSync(dirname(filePath));
+  writeFileSync(filePath, doc.toString({ indent: 2, lineWidth: 100 }), 'utf-8');
+}
+
 export function parseRulesFromYaml(yamlContent: string): RulesFile {
   const parsed = YAML.parse(yamlContent);
   return RulesFileSchema.parse(parsed);
@@ -0,0 +1,72 @@
+import type { ParsedRule } from '../parser.js';
+import { photosPreset } from './photos.js';
+import { documentsPreset } from './documents.js';
+import { downloadsPreset } from './downloads.js';
+import { desktopPreset } from './desktop.js';
+
+export interface RulePreset {
+  name: string;
+  description: string;
+  rules: ParsedRule[];
+}
+
+export interface PresetConflict {
+  presetRule: string;
+  existingRule: string;
+  reason: 'name' | 'priority';
+}
+
+export const presets: RulePreset[] = [
+  { name: 'photos', description: 'Sort photos by EXIF date, camera and type', rules: photosPreset },
+  { name: 'documents', description: 'File invoices, contracts, resumes and other documents', rules: documentsPreset },
+  { name: 'downloads', description: 'Clean up installers, temp files and downloads', rules: downloadsPreset },
+  { name: 'desktop', description: 'Tidy screenshots and loose files on the desktop', rules: desktopPreset },
+];
+
+export function getPreset(name: string): RulePreset | undefined {
+  return presets.find(p => p.name === name.toLowerCase());
+}
+
+/**
+ * Rule names are prefixed with the preset name ("downloads/Screenshots"),
+ * so an enabled preset can be recognized and removed again
+ */
+export function getPresetRules(preset: RulePreset): ParsedRule[] {
+  return preset.rules.map(rule => ({ ...rule, name: `${preset.name}/${rule.name}` }));
+}
+
+export function isPresetRule(preset: RulePreset, rule: Pick<ParsedRule, 'name'>): boolean {
+  return rule.name.startsWith(`${preset.name}/`);
+}
+
+/**
+ * Find existing rules that a preset would collide with: rules with the same
+ * name as a preset rule (both would stay active), and rules with the same
+ * priority that can match the same extensions, where the winner depends on
+ * the order the rules happen to be loaded in.
+ */
+export function findPresetConflicts(preset: RulePreset, existing: ParsedRule[]): PresetConflict[] {
+  const conflicts: PresetConflict[] = [];
+  const others = existing.filter(rule => !isPresetRule(preset, rule) && rule.enabled !== false);
+
+  for (const rule of preset.rules) {
+    for (const other of others) {
+      if (other.name === rule.name) {
+        conflicts.push({ presetRule: rule.name, existingRule: other.name, reason: 'name' });
+      } else if (other.priority === rule.priority && extensionsOverlap(rule, other)) {
+        conflicts.push({ presetRule: rule.name, existingRule: other.name, reason: 'priority' });
+      }
+    }
+  }
+
+  return conflicts;
+}
+
+function extensionsOverlap(a: ParsedRule, b: ParsedRule): boolean {
+  // A rule without an extension list can match any extension
+  if (!a.match.extension || !b.match.extension) {
+    return true;
+  }
+  const extensions = new Set(a.match.extension.map(e => e.toLowerCase()));
+  return b.match.extension.some(e => extensions.has(e.toLowerCase()));
+}
@@ -0,0 +1,114 @@
+import { join, dirname, basename, extname, resolve } from 'path';
+import { homedir } from 'os';
+import { expandPath } from '../config.js';
+import type { FileAnalysis } from '../core/analyzer.js';
+import type { Suggester } from '../core/suggester.js';
+import type { FileMetadata } from '../analyzers/index.js';
+import { getMimeType, getFileCategory } from '../utils/mime.js';
+import { parseSize, type RuleTest } from './parser.js';
+
+export interface RuleTestResult {
+  test: RuleTest;
+  label: string;
+  passed: boolean;
+  actualRule: string | null;
+  actualDestination?: string;
+  actualAction?: string;
+  failures: string[];
+}
+
+const DATE_PATTERN = /^\d{4}-\d{2}-\d{2}([T ][\d:.]+(Z|[+-]\d{2}:?\d{2})?)?$/;
+
+/**
+ * Build the analysis the analyzer would produce for a test's synthetic file.
+ * A bare filename is placed in the home directory.
+ */
+export function buildTestFile(test: RuleTest): FileAnalysis {
+  const { file } = test;
+
+  const path = file.name.includes('/')
+    ? resolve(expandPath(file.name))
+    : join(homedir(), file.name);
+  const filename = basename(path);
+  const extension = (file.extension ?? extname(filename).slice(1)).replace(/^\./, '').toLowerCase();
+  const mimeType = getMimeType(filename);
+  const modified = file.mtime ? new Date(file.mtime) : new Date();
+
+  let size = 0;
+  if (typeof file.size === 'number') {
+    size = file.size;
+  } else if (file.size) {
+    size = parseSize(file.size) ?? 0;
+  }
+
+  // YAML leaves dates as strings; metadata conditions expect Date objects
+  let metadata: Record<string, unknown> | undefined;
+  if (file.metadata) {
+    metadata = {};
+    for (const [key, value] of Object.entries(file.metadata)) {
+      metadata[key] = typeof value === 'string' && DATE_PATTERN.test(value) ? new Date(value) : value;
+    }
+  }
+
+  return {
+    path,
+    filename,
+    extension,
+    size,
+    created: modified,
+    modified,
+    accessed: modified,
+    mimeType,
+    category: getFileCategory(filename, mimeType ?? undefined),
+    metadata: metadata as FileMetadata | undefined,
+    textContent: file.content,
+  };
+}
+
+/**
+ * Run rule tests through the suggester, the same way organize picks an
+ * action for a file in the test file's directory.
+ */
+export function runRuleTests(suggester: Suggester, tests: RuleTest[]): RuleTestResult[] {
+  return tests.map((test, index) => {
+    const file = buildTestFile(test);
+    const suggestion = suggester.generateSuggestion(file, {
+      baseDir: dirname(file.path),
+      useGlobalDestinations: test.global,
+    });
+
+    const failures: string[] = [];
+    const actualRule = suggestion?.ruleName ?? null;
+
+    if (actualRule !== test.expect.rule) {
+      failures.push(`expected rule ${describeRule(test.expect.rule)}, got ${describeRule(actualRule)}`);
+    }
+
+    if (suggestion && test.expect.action && suggestion.action !== test.expect.action) {
+      failures.push(`expected action ${test.expect.action}, got ${suggestion.action}`);
+    }
+
+    if (suggestion && test.expect.destination !== undefined) {
+      const expected = test.expect.destination;
+      // A trailing slash only checks the folder the file ends up in
+      const actual = expected.endsWith('/') ? dirname(suggestion.destination) : suggestion.destination;
+      if (actual !== resolve(expandPath(expected))) {
+        failures.push(`expected destination ${expected}, got ${suggestion.destination || '(none)'}`);
+      }
+    }
+
+    return {
+      test,
+      label: test.name ?? `#${index + 1} ${test.file.name}`,
+      passed: failures.length === 0,
+      actualRule,
+      actualDestination: suggestion?.destination,
+      actualAction: suggestion?.action,
+      failures,
+    };
+  });
+}
+
+function describeRule(name: string | null): string {
+  return name === null ? 'none' : `"${name}"`;
+}
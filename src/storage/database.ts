@@ -1,8 +1,9 @@
 import initSqlJs, { type Database as SqlJsDatabase, type SqlValue } from 'sql.js';
-import { readFileSync, writeFileSync, existsSync } from 'fs';
-import { dirname } from 'path';
+import { readFileSync, writeFileSync, renameSync, statSync, openSync, writeSync, closeSync, unlinkSync } from 'fs';
+import { basename, dirname, extname, join, sep } from 'path';
 import { ensureDirSync } from '../utils/fs-safe.js';
 import { runMigrations } from './migrations.js';
+import { isProcessAlive } from '../utils/process.js';
 
 export interface FileRecord {
   id: number;
@@ -32,6 +33,46 @@ export interface OperationRecord {
   confidence: number | null;
   createdAt: number;
   undoneAt: number | null;
+  // Operations from one action chain share the id of the chain's first operation
+  groupId: number | null;
+  batchId: number | null;
+  sessionId: number | null;
+  // Set on operations created by redo: the undone operation they re-apply
+  redoOf: number | null;
+  // Archive operations: the file was gzipped rather than moved
+  compressed: boolean;
+  // Journaled before the file change; cleared once the change is done
+  pending: boolean;
+}
+
+export interface SessionCounts {
+  filesTotal: number;
+  succeeded: number;
+  failed: number;
+  skipped: number;
+}
+
+export interface SessionRecord extends SessionCounts {
+  id: number;
+  command: string;
+  commandLine: string | null;
+  path: string | null;
+  startedAt: number;
+  finishedAt: number | null;
+  operationCount: number;
+  undoneCount: number;
+}
+
+// failed: a rollback that could not restore every file
+export type BatchStatus = 'pending' | 'committed' | 'rolled_back' | 'failed';
+
+export interface BatchRecord {
+  id: number;
+  status: BatchStatus;
+  // Process that runs the batch; null for batches from before it was kept
+  ownerPid: number | null;
+  createdAt: number;
+  finishedAt: number | null;
 }
 
 export interface PatternRecord {
@@ -40,10 +81,48 @@ export interface PatternRecord {
   pattern: string;
   destination: string;
   occurrences: number;
+  // Times a move following this pattern was undone
+  rejections: number;
   lastUsed: number;
   createdAt: number;
 }
 
+export interface RuleFeedbackCounts {
+  ruleName: string;
+  accepted: number;
+  rejected: number;
+  modified: number;
+  skipped: number;
+  // Operations the rule produced (a chain counts once), and how many of
+  // them the user undid
+  applied: number;
+  undone: number;
+}
+
+export interface TrashRecord {
+  id: number;
+  originalPath: string;
+  trashPath: string;
+  deletedAt: number;
+  // The delete operation that trashed it, if any
+  operationId: number | null;
+}
+
+export interface InboxRecord {
+  id: number;
+  path: string;
+  destination: string;
+  action: string;
+  ruleName: string;
+  confidence: number;
+  tagsJson: string | null;
+  // Steps of an action chain
+  stepsJson: string | null;
+  // A new folder moved as a whole
+  directory: boolean;
+  createdAt: number;
+}
+
 let SQL: Awaited<ReturnType<typeof initSqlJs>> | null = null;
 
 async function getSql() {
@@ -53,29 +132,161 @@ async function getSql() {
   return SQL;
 }
 
+// How long to wait for another sortora process to finish writing
+const LOCK_TIMEOUT_MS = 10000;
+// A lock older than this was left by a process that hung or crashed
+const STALE_LOCK_MS = 30000;
+// Changes are written at most this long after the first one, so a busy
+// process doesn't keep other processes from writing
+const MAX_SAVE_DELAY_MS = 1000;
+
+// Write locks held in this process, so a second connection to the same file
+// can make the first one save instead of waiting on itself
+const heldLocks = new Map<string, Database>();
+
+function sleepSync(ms: number): void {
+  Atomics.wait(new Int32Array(new SharedArrayBuffer(4)), 0, 0, ms);
+}
+
+/**
+ * sql.js keeps the whole database in memory and writes it back as one file,
+ * so several processes (the daemon, organize, inbox...) share it like this:
+ * the first write takes a lock file and reloads the file if another process
+ * changed it, and the save that follows writes the file and lets go of the
+ * lock. Reads reload the file when it changed.
+ */
 export class Database {
   private db: SqlJsDatabase | null = null;
   private dbPath: string;
+  private lockPath: string;
   private saveTimer: NodeJS.Timeout | null = null;
+  // Set while this connection holds the write lock
+  private lockedAt: number | null = null;
+  // Identifies the file contents the in-memory copy matches
+  private fileStamp: string | null = null;
 
   constructor(dbPath: string) {
     this.dbPath = dbPath;
+    this.lockPath = join(dirname(dbPath), `.${basename(dbPath)}.lock`);
     ensureDirSync(dirname(dbPath));
   }
 
   async init(): Promise<void> {
     const SqlJs = await getSql();
 
-    if (existsSync(this.dbPath)) {
-      const buffer = readFileSync(this.dbPath);
-      this.db = new SqlJs.Database(buffer);
-    } else {
+    this.acquireLock();
+    const existed = this.db !== null;
+    if (!this.db) {
       this.db = new SqlJs.Database();
+      this.db.run('PRAGMA foreign_keys = ON');
     }
 
-    this.db.run('PRAGMA foreign_keys = ON');
-    runMigrations(this.db);
-    this.save();
+    const migrated = runMigrations(this.db) > 0;
+    if (existed && migrated) {
+      this.saveNow();
+    } else {
+      // A new database is written with its first change
+      this.releaseLock();
+    }
+  }
+
+  private getFileStamp(): string | null {
+    try {
+      const stats = statSync(this.dbPath);
+      // Saves replace the file, so the inode changes on every write
+      return `${stats.ino}:${stats.size}:${stats.mtimeMs}`;
+    } catch {
+      return null;
+    }
+  }
+
+  /**
+   * Load the file again if another process wrote it since
+   */
+  private reload(): void {
+    const stamp = this.getFileStamp();
+    if (stamp === null || stamp === this.fileStamp) {
+      return;
+    }
+
+    const db = new SQL!.Database(readFileSync(this.dbPath));
+    db.run('PRAGMA foreign_keys = ON');
+    this.db?.close();
+    this.db = db;
+    this.fileStamp = stamp;
+  }
+
+  private acquireLock(): void {
+    if (this.lockedAt !== null) {
+      return;
+    }
+
+    const deadline = Date.now() + LOCK_TIMEOUT_MS;
+
+    for (;;) {
+      try {
+        const fd = openSync(this.lockPath, 'wx');
+        writeSync(fd, `${process.pid}\n`);
+        closeSync(fd);
+        break;
+      } catch (error) {
+        if ((error as NodeJS.ErrnoException).code !== 'EEXIST') {
+          throw error;
+        }
+      }
+
+      const holder = heldLocks.get(this.lockPath);
+      if (holder && holder !== this) {
+        holder.flush();
+        continue;
+      }
+
+      if (this.isStaleLock()) {
+        try {
+          unlinkSync(this.lockPath);
+        } catch {
+          // Another process broke it first
+        }
+        continue;
+      }
+
+      if (Date.now() > deadline) {
+        throw new Error(`The database is locked by another sortora process (${this.lockPath})`);
+      }
+      sleepSync(25);
+    }
+
+    this.lockedAt = Date.now();
+    heldLocks.set(this.lockPath, this);
+    this.reload();
+  }
+
+  private isStaleLock(): boolean {
+    try {
+      const pid = parseInt(readFileSync(this.lockPath, 'utf-8').trim(), 10);
+      // A lock of this process that no connection holds is left over too
+      if (isNaN(pid) || pid === process.pid || !isProcessAlive(pid)) {
+        return true;
+      }
+      return Date.now() - statSync(this.lockPath).mtimeMs > STALE_LOCK_MS;
+    } catch {
+      // Gone already, or not written yet
+      return false;
+    }
+  }
+
+  private releaseLock(): void {
+    if (this.lockedAt === null) {
+      return;
+    }
+
+    try {
+      unlinkSync(this.lockPath);
+    } catch {
+      // Broken as stale by another process
+    }
+    heldLocks.delete(this.lockPath);
+    this.lockedAt = null;
   }
 
   private save(): void {
@@ -83,24 +294,42 @@ export class Database {
     if (this.saveTimer) {
       clearTimeout(this.saveTimer);
     }
+    const delay = Math.max(0, Math.min(100, this.lockedAt! + MAX_SAVE_DELAY_MS - Date.now()));
     this.saveTimer = setTimeout(() => {
+      this.saveTimer = null;
       this.saveNow();
-    }, 100);
+    }, delay);
   }
 
   private saveNow(): void {
-    if (this.db) {
-      const data = this.db.export();
-      const buffer = Buffer.from(data);
-      writeFileSync(this.dbPath, buffer);
+    // Only a connection that wrote something holds the lock
+    if (!this.db || this.lockedAt === null) {
+      return;
     }
+
+    // Write a new file and swap it in, so readers never see half of one
+    const tempPath = join(dirname(this.dbPath), `.${basename(this.dbPath)}.${process.pid}.tmp`);
+    writeFileSync(tempPath, Buffer.from(this.db.export()));
+    renameSync(tempPath, this.dbPath);
+
+    this.fileStamp = this.getFileStamp();
+    this.releaseLock();
   }
 
-  close(): void {
+  /**
+   * Write pending changes to disk immediately instead of waiting for the
+   * debounced save
+   */
+  flush(): void {
     if (this.saveTimer) {
       clearTimeout(this.saveTimer);
+      this.saveTimer = null;
     }
     this.saveNow();
+  }
+
+  close(): void {
+    this.flush();
     if (this.db) {
       this.db.close();
       this.db = null;
@@ -111,6 +340,10 @@ export class Database {
     if (!this.db) {
       throw new Error('Database not initialized. Call init() first.');
     }
+    // Unsaved changes of this connection are newer than the file
+    if (this.lockedAt === null) {
+      this.reload();
+    }
     return this.db;
   }
 
@@ -142,6 +375,8 @@ export class Database {
   }
 
   private run(sql: string, params: SqlValue[] = []): number {
+    this.ensureDb();
+    this.acquireLock();
     const db = this.ensureDb();
     db.run(sql, params);
     this.save();
@@ -233,12 +468,120 @@ export class Database {
     };
   }
 
+  // A file's hashes are kept together while its size and mtime stay the
+  // same; caching one for a changed file drops the other
+
+  getCachedFullHash(path: string, size: number, mtimeMs: number): string | null {
+    const row = this.queryOne<{ full_hash: string | null }>(`
+      SELECT full_hash FROM hash_cache
+      WHERE path = ? AND size = ? AND mtime_ms = ?
+    `, [path, size, mtimeMs]);
+
+    return row?.full_hash ?? null;
+  }
+
+  cacheFullHash(path: string, size: number, mtimeMs: number, hash: string): void {
+    this.run(`
+      INSERT INTO hash_cache (path, size, mtime_ms, full_hash)
+      VALUES (?, ?, ?, ?)
+      ON CONFLICT(path) DO UPDATE SET
+        perceptual_hash = CASE WHEN size = excluded.size AND mtime_ms = excluded.mtime_ms THEN perceptual_hash END,
+        size = excluded.size,
+        mtime_ms = excluded.mtime_ms,
+        full_hash = excluded.full_hash
+    `, [path, size, mtimeMs, hash]);
+  }
+
+  getCachedPerceptualHash(path: string, size: number, mtimeMs: number): string | null {
+    const row = this.queryOne<{ perceptual_hash: string | null }>(`
+      SELECT perceptual_hash FROM hash_cache
+      WHERE path = ? AND size = ? AND mtime_ms = ?
+    `, [path, size, mtimeMs]);
+
+    return row?.perceptual_hash ?? null;
+  }
+
+  cachePerceptualHash(path: string, size: number, mtimeMs: number, hash: string): void {
+    this.run(`
+      INSERT INTO hash_cache (path, size, mtime_ms, perceptual_hash)
+      VALUES (?, ?, ?, ?)
+      ON CONFLICT(path) DO UPDATE SET
+        full_hash = CASE WHEN size = excluded.size AND mtime_ms = excluded.mtime_ms THEN full_hash END,
+        size = excluded.size,
+        mtime_ms = excluded.mtime_ms,
+        perceptual_hash = excluded.perceptual_hash
+    `, [path, size, mtimeMs, hash]);
+  }
+
+  /**
+   * Size and hashes known for a file, to recognize it after a rename
+   */
+  getFileHashes(path: string): { size: number; hash: string | null; fullHash: string | null } | null {
+    const file = this.queryOne<{ size: number; hash: string | null }>(
+      'SELECT size, hash FROM files WHERE path = ?',
+      [path]
+    );
+    const cached = this.queryOne<{ size: number; full_hash: string }>(
+      'SELECT size, full_hash FROM hash_cache WHERE path = ? AND full_hash IS NOT NULL',
+      [path]
+    );
+
+    if (!file && !cached) {
+      return null;
+    }
+    return {
+      size: file?.size ?? cached!.size,
+      hash: file?.hash ?? null,
+      fullHash: cached && (!file || cached.size === file.size) ? cached.full_hash : null,
+    };
+  }
+
+  /**
+   * Forget a file, or a folder and everything in it
+   */
   deleteFile(path: string): void {
-    this.run('DELETE FROM files WHERE path = ?', [path]);
+    const prefix = path + sep;
+    this.run('DELETE FROM files WHERE path = ? OR substr(path, 1, ?) = ?', [path, prefix.length, prefix]);
+    this.run('DELETE FROM hash_cache WHERE path = ? OR substr(path, 1, ?) = ?', [path, prefix.length, prefix]);
   }
 
+  /**
+   * Point the records of a file, or of everything in a folder, to its new path
+   */
   updateFilePath(oldPath: string, newPath: string): void {
-    this.run('UPDATE files SET path = ? WHERE path = ?', [newPath, oldPath]);
+    const prefix = oldPath + sep;
+
+    // A stale record at the new path is replaced
+    this.run('UPDATE OR REPLACE files SET path = ?, filename = ?, extension = ? WHERE path = ?', [
+      newPath,
+      basename(newPath),
+      extname(newPath).slice(1).toLowerCase() || null,
+      oldPath,
+    ]);
+    this.run('UPDATE OR REPLACE files SET path = ? || substr(path, ?) WHERE substr(path, 1, ?) = ?', [
+      newPath + sep,
+      prefix.length + 1,
+      prefix.length,
+      prefix,
+    ]);
+
+    // A rename keeps size and mtime, so the cached hashes stay valid
+    this.run('UPDATE OR REPLACE hash_cache SET path = ? WHERE path = ?', [newPath, oldPath]);
+    this.run('UPDATE OR REPLACE hash_cache SET path = ? || substr(path, ?) WHERE substr(path, 1, ?) = ?', [
+      newPath + sep,
+      prefix.length + 1,
+      prefix.length,
+      prefix,
+    ]);
+
+    // Tags follow the file
+    this.run('UPDATE OR REPLACE tags SET path = ? WHERE path = ?', [newPath, oldPath]);
+    this.run('UPDATE OR REPLACE tags SET path = ? || substr(path, ?) WHERE substr(path, 1, ?) = ?', [
+      newPath + sep,
+      prefix.length + 1,
+      prefix.length,
+      prefix,
+    ]);
   }
 
   getAllHashes(): { hash: string; count: number }[] {
@@ -255,16 +598,24 @@ export class Database {
   // Operations
   // ═══════════════════════════════════════════════════════════════
 
-  insertOperation(op: Omit<OperationRecord, 'id' | 'createdAt' | 'undoneAt'>): number {
+  insertOperation(
+    op: Omit<OperationRecord, 'id' | 'createdAt' | 'undoneAt' | 'groupId' | 'batchId' | 'sessionId' | 'redoOf' | 'compressed' | 'pending'>
+      & { batchId?: number | null; sessionId?: number | null; redoOf?: number | null; compressed?: boolean; pending?: boolean }
+  ): number {
     return this.run(`
-      INSERT INTO operations (type, source, destination, rule_name, confidence, created_at)
-      VALUES (?, ?, ?, ?, ?, strftime('%s', 'now'))
+      INSERT INTO operations (type, source, destination, rule_name, confidence, batch_id, session_id, redo_of, compressed, pending, created_at)
+      VALUES (?, ?, ?, ?, ?, ?, ?, ?, ?, ?, strftime('%s', 'now'))
     `, [
       op.type,
       op.source,
       op.destination,
       op.ruleName,
       op.confidence,
+      op.batchId ?? null,
+      op.sessionId ?? null,
+      op.redoOf ?? null,
+      op.compressed ? 1 : 0,
+      op.pending ? 1 : 0,
     ]);
   }
 
@@ -273,9 +624,9 @@ export class Database {
       SELECT
         id, type, source, destination,
         rule_name, confidence,
-        created_at, undone_at
+        created_at, undone_at, group_id, batch_id, session_id, redo_of, compressed, pending
       FROM operations
-      ORDER BY created_at DESC
+      ORDER BY created_at DESC, id DESC
       LIMIT ?
     `, [limit]);
 
@@ -287,7 +638,7 @@ export class Database {
       SELECT
         id, type, source, destination,
         rule_name, confidence,
-        created_at, undone_at
+        created_at, undone_at, group_id, batch_id, session_id, redo_of, compressed, pending
       FROM operations WHERE id = ?
     `, [id]);
 
@@ -295,6 +646,28 @@ export class Database {
     return this.mapOperationRecord(row);
   }
 
+  /**
+   * Mark operations as one group, so they are undone together
+   */
+  groupOperations(ids: number[]): void {
+    if (ids.length === 0) return;
+    const placeholders = ids.map(() => '?').join(', ');
+    this.run(`UPDATE operations SET group_id = ? WHERE id IN (${placeholders})`, [ids[0], ...ids]);
+  }
+
+  getOperationGroup(groupId: number): OperationRecord[] {
+    const rows = this.queryAll<Record<string, unknown>>(`
+      SELECT
+        id, type, source, destination,
+        rule_name, confidence,
+        created_at, undone_at, group_id, batch_id, session_id, redo_of, compressed, pending
+      FROM operations WHERE group_id = ?
+      ORDER BY id ASC
+    `, [groupId]);
+
+    return rows.map(row => this.mapOperationRecord(row));
+  }
+
   private mapOperationRecord(row: Record<string, unknown>): OperationRecord {
     return {
       id: row.id as number,
@@ -305,18 +678,245 @@ export class Database {
       confidence: row.confidence as number | null,
       createdAt: row.created_at as number,
       undoneAt: row.undone_at as number | null,
+      groupId: row.group_id as number | null,
+      batchId: row.batch_id as number | null,
+      sessionId: row.session_id as number | null,
+      redoOf: row.redo_of as number | null,
+      compressed: row.compressed === 1,
+      pending: row.pending === 1,
     };
   }
 
+  /**
+   * Mark a pending operation as done, with where the file ended up
+   */
+  finishOperation(id: number, destination: string | null): void {
+    this.run('UPDATE operations SET pending = 0, destination = ? WHERE id = ?', [destination, id]);
+  }
+
+  /**
+   * Drop a pending operation whose change didn't happen. Done operations
+   * are kept.
+   */
+  deletePendingOperation(id: number): void {
+    this.run('DELETE FROM operations WHERE id = ? AND pending = 1', [id]);
+  }
+
   markOperationUndone(id: number): void {
     this.run('UPDATE operations SET undone_at = strftime(\'%s\', \'now\') WHERE id = ?', [id]);
   }
 
+  /**
+   * Undone operations that haven't been redone yet, most recently undone first
+   */
+  getRedoableOperations(limit = 50): OperationRecord[] {
+    const rows = this.queryAll<Record<string, unknown>>(`
+      SELECT
+        id, type, source, destination,
+        rule_name, confidence,
+        created_at, undone_at, group_id, batch_id, session_id, redo_of, compressed, pending
+      FROM operations o
+      WHERE undone_at IS NOT NULL
+        AND NOT EXISTS (SELECT 1 FROM operations r WHERE r.redo_of = o.id)
+      ORDER BY undone_at DESC, id DESC
+      LIMIT ?
+    `, [limit]);
+
+    return rows.map(row => this.mapOperationRecord(row));
+  }
+
+  /**
+   * The operation that re-applied an undone operation, if it was redone
+   */
+  getRedoOperation(operationId: number): OperationRecord | null {
+    const row = this.queryOne<Record<string, unknown>>(`
+      SELECT
+        id, type, source, destination,
+        rule_name, confidence,
+        created_at, undone_at, group_id, batch_id, session_id, redo_of, compressed, pending
+      FROM operations WHERE redo_of = ?
+    `, [operationId]);
+
+    if (!row) return null;
+    return this.mapOperationRecord(row);
+  }
+
+  // ═══════════════════════════════════════════════════════════════
+  // Sessions
+  // ═══════════════════════════════════════════════════════════════
+
+  startSession(session: { command: string; commandLine?: string; path?: string }): number {
+    return this.run(`
+      INSERT INTO sessions (command, command_line, path, started_at)
+      VALUES (?, ?, ?, strftime('%s', 'now'))
+    `, [session.command, session.commandLine ?? null, session.path ?? null]);
+  }
+
+  updateSessionCounts(id: number, counts: SessionCounts): void {
+    this.run(`
+      UPDATE sessions SET files_total = ?, succeeded = ?, failed = ?, skipped = ?
+      WHERE id = ?
+    `, [counts.filesTotal, counts.succeeded, counts.failed, counts.skipped, id]);
+  }
+
+  finishSession(id: number, counts: SessionCounts): void {
+    this.updateSessionCounts(id, counts);
+    this.run('UPDATE sessions SET finished_at = strftime(\'%s\', \'now\') WHERE id = ?', [id]);
+  }
+
+  getSessions(limit = 20): SessionRecord[] {
+    const rows = this.queryAll<Record<string, unknown>>(`
+      SELECT
+        s.id, s.command, s.command_line, s.path,
+        s.started_at, s.finished_at,
+        s.files_total, s.succeeded, s.failed, s.skipped,
+        COUNT(o.id) as operation_count,
+        COUNT(o.undone_at) as undone_count
+      FROM sessions s
+      LEFT JOIN operations o ON o.session_id = s.id
+      GROUP BY s.id
+      ORDER BY s.started_at DESC, s.id DESC
+      LIMIT ?
+    `, [limit]);
+
+    return rows.map(row => this.mapSessionRecord(row));
+  }
+
+  getSession(id: number): SessionRecord | null {
+    const row = this.queryOne<Record<string, unknown>>(`
+      SELECT
+        s.id, s.command, s.command_line, s.path,
+        s.started_at, s.finished_at,
+        s.files_total, s.succeeded, s.failed, s.skipped,
+        COUNT(o.id) as operation_count,
+        COUNT(o.undone_at) as undone_count
+      FROM sessions s
+      LEFT JOIN operations o ON o.session_id = s.id
+      WHERE s.id = ?
+      GROUP BY s.id
+    `, [id]);
+
+    if (!row) return null;
+    return this.mapSessionRecord(row);
+  }
+
+  getSessionOperations(sessionId: number): OperationRecord[] {
+    const rows = this.queryAll<Record<string, unknown>>(`
+      SELECT
+        id, type, source, destination,
+        rule_name, confidence,
+        created_at, undone_at, group_id, batch_id, session_id, redo_of, compressed, pending
+      FROM operations WHERE session_id = ?
+      ORDER BY id ASC
+    `, [sessionId]);
+
+    return rows.map(row => this.mapOperationRecord(row));
+  }
+
+  private mapSessionRecord(row: Record<string, unknown>): SessionRecord {
+    return {
+      id: row.id as number,
+      command: row.command as string,
+      commandLine: row.command_line as string | null,
+      path: row.path as string | null,
+      startedAt: row.started_at as number,
+      finishedAt: row.finished_at as number | null,
+      filesTotal: row.files_total as number,
+      succeeded: row.succeeded as number,
+      failed: row.failed as number,
+      skipped: row.skipped as number,
+      operationCount: row.operation_count as number,
+      undoneCount: row.undone_count as number,
+    };
+  }
+
+  // ═══════════════════════════════════════════════════════════════
+  // Batches
+  // ═══════════════════════════════════════════════════════════════
+
+  createBatch(ownerPid = process.pid): number {
+    return this.run(`
+      INSERT INTO batches (status, owner_pid, created_at)
+      VALUES ('pending', ?, strftime('%s', 'now'))
+    `, [ownerPid]);
+  }
+
+  finishBatch(id: number, status: Exclude<BatchStatus, 'pending'>): void {
+    this.run(`
+      UPDATE batches SET status = ?, finished_at = strftime('%s', 'now')
+      WHERE id = ?
+    `, [status, id]);
+  }
+
+  getPendingBatches(): BatchRecord[] {
+    const rows = this.queryAll<Record<string, unknown>>(`
+      SELECT id, status, owner_pid, created_at, finished_at
+      FROM batches WHERE status = 'pending'
+      ORDER BY id ASC
+    `);
+
+    return rows.map(row => ({
+      id: row.id as number,
+      status: row.status as BatchStatus,
+      ownerPid: row.owner_pid as number | null,
+      createdAt: row.created_at as number,
+      finishedAt: row.finished_at as number | null,
+    }));
+  }
+
+  getBatchOperations(batchId: number): OperationRecord[] {
+    const rows = this.queryAll<Record<string, unknown>>(`
+      SELECT
+        id, type, source, destination,
+        rule_name, confidence,
+        created_at, undone_at, group_id, batch_id, session_id, redo_of, compressed, pending
+      FROM operations WHERE batch_id = ?
+      ORDER BY id ASC
+    `, [batchId]);
+
+    return rows.map(row => this.mapOperationRecord(row));
+  }
+
+  // ═══════════════════════════════════════════════════════════════
+  // Tags
+  // ═══════════════════════════════════════════════════════════════
+
+  /**
+   * Add tags to a path. Returns the tags that were not already set.
+   */
+  addTags(path: string, tags: string[]): string[] {
+    const added: string[] = [];
+    for (const tag of tags) {
+      const existing = this.queryOne<{ id: number }>(
+        'SELECT id FROM tags WHERE path = ? AND tag = ?',
+        [path, tag]
+      );
+      if (!existing) {
+        this.run('INSERT INTO tags (path, tag) VALUES (?, ?)', [path, tag]);
+        added.push(tag);
+      }
+    }
+    return added;
+  }
+
+  removeTags(path: string, tags: string[]): void {
+    for (const tag of tags) {
+      this.run('DELETE FROM tags WHERE path = ? AND tag = ?', [path, tag]);
+    }
+  }
+
+  getTags(path: string): string[] {
+    return this.queryAll<{ tag: string }>(
+      'SELECT tag FROM tags WHERE path = ? ORDER BY tag',
+      [path]
+    ).map(row => row.tag);
+  }
+
   // ═══════════════════════════════════════════════════════════════
   // Patterns
   // ═══════════════════════════════════════════════════════════════
 
-  insertPattern(pattern: Omit<PatternRecord, 'id' | 'createdAt'>): number {
+  insertPattern(pattern: Omit<PatternRecord, 'id' | 'createdAt' | 'rejections'>): number {
     return this.run(`
       INSERT INTO patterns (type, pattern, destination, occurrences, last_used, created_at)
       VALUES (?, ?, ?, ?, ?, strftime('%s', 'now'))
@@ -337,12 +937,16 @@ export class Database {
     `, [id]);
   }
 
+  penalizePattern(id: number): void {
+    this.run('UPDATE patterns SET rejections = rejections + 1 WHERE id = ?', [id]);
+  }
+
   getPatterns(type?: string): PatternRecord[] {
     if (type) {
       const rows = this.queryAll<Record<string, unknown>>(`
         SELECT
           id, type, pattern, destination, occurrences,
-          last_used, created_at
+          rejections, last_used, created_at
         FROM patterns WHERE type = ?
         ORDER BY occurrences DESC
       `, [type]);
@@ -352,7 +956,7 @@ export class Database {
     const rows = this.queryAll<Record<string, unknown>>(`
       SELECT
         id, type, pattern, destination, occurrences,
-        last_used, created_at
+        rejections, last_used, created_at
       FROM patterns
       ORDER BY occurrences DESC
     `);
@@ -363,7 +967,7 @@ export class Database {
     const row = this.queryOne<Record<string, unknown>>(`
       SELECT
         id, type, pattern, destination, occurrences,
-        last_used, created_at
+        rejections, last_used, created_at
       FROM patterns WHERE type = ? AND pattern = ?
     `, [type, pattern]);
 
@@ -371,6 +975,41 @@ export class Database {
     return this.mapPatternRecord(row);
   }
 
+  deletePattern(id: number): void {
+    this.run('DELETE FROM patterns WHERE id = ?', [id]);
+  }
+
+  dismissPattern(key: string): void {
+    this.run(`
+      INSERT OR IGNORE INTO dismissed_patterns (key, dismissed_at)
+      VALUES (?, strftime('%s', 'now'))
+    `, [key]);
+  }
+
+  getDismissedPatterns(): string[] {
+    return this.queryAll<{ key: string }>('SELECT key FROM dismissed_patterns')
+      .map(row => row.key);
+  }
+
+  /**
+   * Moves into a directory (or its subdirectories) that are still in place
+   */
+  getMovesInto(dir: string, limit = 50): OperationRecord[] {
+    const rows = this.queryAll<Record<string, unknown>>(`
+      SELECT
+        id, type, source, destination,
+        rule_name, confidence,
+        created_at, undone_at, group_id, batch_id, session_id, redo_of, compressed, pending
+      FROM operations
+      WHERE type = 'move' AND undone_at IS NULL
+        AND (destination LIKE ? ESCAPE '\\')
+      ORDER BY created_at DESC, id DESC
+      LIMIT ?
+    `, [`${dir.replace(/[\\%_]/g, '\\$&')}/%`, limit]);
+
+    return rows.map(row => this.mapOperationRecord(row));
+  }
+
   private mapPatternRecord(row: Record<string, unknown>): PatternRecord {
     return {
       id: row.id as number,
@@ -378,11 +1017,256 @@ export class Database {
       pattern: row.pattern as string,
       destination: row.destination as string,
       occurrences: row.occurrences as number,
+      rejections: (row.rejections as number) ?? 0,
       lastUsed: row.last_used as number,
       createdAt: row.created_at as number,
     };
   }
 
+  // ═══════════════════════════════════════════════════════════════
+  // Rule feedback
+  // ═══════════════════════════════════════════════════════════════
+
+  insertRuleFeedback(feedback: {
+    ruleName: string;
+    type: string;
+    filePath: string;
+    destination?: string | null;
+  }): number {
+    return this.run(`
+      INSERT INTO rule_feedback (rule_name, type, file_path, destination, created_at)
+      VALUES (?, ?, ?, ?, strftime('%s', 'now'))
+    `, [feedback.ruleName, feedback.type, feedback.filePath, feedback.destination ?? null]);
+  }
+
+  /**
+   * Undos recorded against rules, with the destination of each undone operation
+   */
+  getUndoFeedback(): { ruleName: string; filePath: string; destination: string }[] {
+    const rows = this.queryAll<{ rule_name: string; file_path: string; destination: string }>(`
+      SELECT rule_name, file_path, destination
+      FROM rule_feedback
+      WHERE type = 'undo' AND destination IS NOT NULL
+    `);
+
+    return rows.map(row => ({
+      ruleName: row.rule_name,
+      filePath: row.file_path,
+      destination: row.destination,
+    }));
+  }
+
+  /**
+   * How many files a rule moved into a directory (not a subdirectory) and
+   * saw undone
+   */
+  countUndoneFiles(ruleName: string, destinationDir: string): number {
+    const prefix = destinationDir + sep;
+    const row = this.queryOne<{ count: number }>(`
+      SELECT COUNT(DISTINCT file_path) as count
+      FROM rule_feedback
+      WHERE rule_name = ? AND type = 'undo'
+        AND substr(destination, 1, ?) = ?
+        AND instr(substr(destination, ?), ?) = 0
+    `, [ruleName, prefix.length, prefix, prefix.length + 1, sep]);
+
+    return row?.count ?? 0;
+  }
+
+  getRuleFeedbackCounts(): RuleFeedbackCounts[] {
+    const counts = new Map<string, RuleFeedbackCounts>();
+    const entry = (ruleName: string): RuleFeedbackCounts => {
+      let existing = counts.get(ruleName);
+      if (!existing) {
+        existing = { ruleName, accepted: 0, rejected: 0, modified: 0, skipped: 0, applied: 0, undone: 0 };
+        counts.set(ruleName, existing);
+      }
+      return existing;
+    };
+
+    const feedback = this.queryAll<{ rule_name: string; type: string; count: number }>(`
+      SELECT rule_name, type, COUNT(*) as count
+      FROM rule_feedback
+      GROUP BY rule_name, type
+    `);
+
+    for (const row of feedback) {
+      const rule = entry(row.rule_name);
+      switch (row.type) {
+        case 'accept': rule.accepted = row.count; break;
+        case 'reject': rule.rejected = row.count; break;
+        case 'modify': rule.modified = row.count; break;
+        case 'skip': rule.skipped = row.count; break;
+        // Only undos the user asked for; rollbacks record no feedback
+        case 'undo': rule.undone = row.count; break;
+      }
+    }
+
+    // The steps of an action chain are one application of the rule. Steps
+    // a batch rollback reverted never counted as applied; a failed rollback
+    // left some of its steps in place.
+    const operations = this.queryAll<{ rule_name: string; applied: number }>(`
+      SELECT rule_name, COUNT(DISTINCT COALESCE(group_id, id)) as applied
+      FROM operations
+      WHERE rule_name IS NOT NULL AND pending = 0
+        AND NOT EXISTS (
+          SELECT 1 FROM batches
+          WHERE batches.id = operations.batch_id
+            AND (batches.status = 'rolled_back' OR (batches.status = 'failed' AND operations.undone_at IS NOT NULL))
+        )
+      GROUP BY rule_name
+    `);
+
+    for (const row of operations) {
+      entry(row.rule_name).applied = row.applied;
+    }
+
+    return [...counts.values()];
+  }
+
+  // ═══════════════════════════════════════════════════════════════
+  // Trash
+  // ═══════════════════════════════════════════════════════════════
+
+  insertTrashEntry(entry: {
+    originalPath: string;
+    trashPath: string;
+    deletedAt?: number;
+    operationId?: number | null;
+  }): number {
+    return this.run(`
+      INSERT OR REPLACE INTO trash (original_path, trash_path, deleted_at, operation_id)
+      VALUES (?, ?, ?, ?)
+    `, [
+      entry.originalPath,
+      entry.trashPath,
+      entry.deletedAt ?? Math.floor(Date.now() / 1000),
+      entry.operationId ?? null,
+    ]);
+  }
+
+  /**
+   * Trash entries, newest first
+   */
+  getTrashEntries(): TrashRecord[] {
+    const rows = this.queryAll<Record<string, unknown>>(`
+      SELECT id, original_path, trash_path, deleted_at, operation_id
+      FROM trash
+      ORDER BY deleted_at DESC, id DESC
+    `);
+
+    return rows.map(row => this.mapTrashRecord(row));
+  }
+
+  getTrashEntry(id: number): TrashRecord | null {
+    const row = this.queryOne<Record<string, unknown>>(`
+      SELECT id, original_path, trash_path, deleted_at, operation_id
+      FROM trash WHERE id = ?
+    `, [id]);
+
+    return row ? this.mapTrashRecord(row) : null;
+  }
+
+  getTrashEntryByPath(trashPath: string): TrashRecord | null {
+    const row = this.queryOne<Record<string, unknown>>(`
+      SELECT id, original_path, trash_path, deleted_at, operation_id
+      FROM trash WHERE trash_path = ?
+    `, [trashPath]);
+
+    return row ? this.mapTrashRecord(row) : null;
+  }
+
+  deleteTrashEntry(id: number): void {
+    this.run('DELETE FROM trash WHERE id = ?', [id]);
+  }
+
+  private mapTrashRecord(row: Record<string, unknown>): TrashRecord {
+    return {
+      id: row.id as number,
+      originalPath: row.original_path as string,
+      trashPath: row.trash_path as string,
+      deletedAt: row.deleted_at as number,
+      operationId: row.operation_id as number | null,
+    };
+  }
+
+  // ═══════════════════════════════════════════════════════════════
+  // Inbox
+  // ═══════════════════════════════════════════════════════════════
+
+  /**
+   * Add a suggestion, replacing an earlier one for the same file
+   */
+  insertInboxEntry(entry: Omit<InboxRecord, 'id' | 'createdAt' | 'directory'> & { directory?: boolean }): number {
+    return this.run(`
+      INSERT OR REPLACE INTO inbox (path, destination, action, rule_name, confidence, tags_json, steps_json, directory, created_at)
+      VALUES (?, ?, ?, ?, ?, ?, ?, ?, strftime('%s', 'now'))
+    `, [
+      entry.path,
+      entry.destination,
+      entry.action,
+      entry.ruleName,
+      entry.confidence,
+      entry.tagsJson,
+      entry.stepsJson,
+      entry.directory ? 1 : 0,
+    ]);
+  }
+
+  /**
+   * Inbox entries, oldest first
+   */
+  getInboxEntries(): InboxRecord[] {
+    const rows = this.queryAll<Record<string, unknown>>(`
+      SELECT id, path, destination, action, rule_name, confidence, tags_json, steps_json, directory, created_at
+      FROM inbox
+      ORDER BY created_at ASC, id ASC
+    `);
+
+    return rows.map(row => this.mapInboxRecord(row));
+  }
+
+  getInboxEntry(id: number): InboxRecord | null {
+    const row = this.queryOne<Record<string, unknown>>(`
+      SELECT id, path, destination, action, rule_name, confidence, tags_json, steps_json, directory, created_at
+      FROM inbox WHERE id = ?
+    `, [id]);
+
+    return row ? this.mapInboxRecord(row) : null;
+  }
+
+  deleteInboxEntry(id: number): void {
+    this.run('DELETE FROM inbox WHERE id = ?', [id]);
+  }
+
+  private mapInboxRecord(row: Record<string, unknown>): InboxRecord {
+    return {
+      id: row.id as number,
+      path: row.path as string,
+      destination: row.destination as string,
+      action: row.action as string,
+      ruleName: row.rule_name as string,
+      confidence: row.confidence as number,
+      tagsJson: row.tags_json as string | null,
+      stepsJson: row.steps_json as string | null,
+      directory: row.directory === 1,
+      createdAt: row.created_at as number,
+    };
+  }
+
+  // ═══════════════════════════════════════════════════════════════
+  // Meta
+  // ═══════════════════════════════════════════════════════════════
+
+  getMeta(key: string): string | null {
+    const row = this.queryOne<{ value: string }>('SELECT value FROM meta WHERE key = ?', [key]);
+    return row?.value ?? null;
+  }
+
+  setMeta(key: string, value: string): void {
+    this.run('INSERT OR REPLACE INTO meta (key, value) VALUES (?, ?)', [key, value]);
+  }
+
   // ═══════════════════════════════════════════════════════════════
   // Stats
   // ═══════════════════════════════════════════════════════════════
@@ -75,9 +75,249 @@ const migrations: Migration[] = [
       CREATE INDEX IF NOT EXISTS idx_files_size ON files(size);
     `,
   },
+  {
+    version: 3,
+    name: 'add_tags',
+    up: `
+      CREATE TABLE IF NOT EXISTS tags (
+        id INTEGER PRIMARY KEY,
+        path TEXT NOT NULL,
+        tag TEXT NOT NULL,
+        created_at INTEGER DEFAULT (strftime('%s', 'now')),
+        UNIQUE(path, tag)
+      );
+
+      CREATE INDEX IF NOT EXISTS idx_tags_path ON tags(path);
+      CREATE INDEX IF NOT EXISTS idx_tags_tag ON tags(tag);
+    `,
+  },
+  {
+    version: 4,
+    name: 'add_operation_groups',
+    up: `
+      ALTER TABLE operations ADD COLUMN group_id INTEGER;
+      CREATE INDEX IF NOT EXISTS idx_operations_group ON operations(group_id);
+    `,
+  },
+  {
+    version: 5,
+    name: 'add_batches',
+    up: `
+      -- Journal for transactional batches
+      CREATE TABLE IF NOT EXISTS batches (
+        id INTEGER PRIMARY KEY,
+        status TEXT NOT NULL DEFAULT 'pending',
+        created_at INTEGER DEFAULT (strftime('%s', 'now')),
+        finished_at INTEGER
+      );
+
+      ALTER TABLE operations ADD COLUMN batch_id INTEGER;
+      CREATE INDEX IF NOT EXISTS idx_operations_batch ON operations(batch_id);
+      CREATE INDEX IF NOT EXISTS idx_batches_status ON batches(status);
+    `,
+  },
+  {
+    version: 6,
+    name: 'add_sessions',
+    up: `
+      -- One row per organize/rename/duplicates/watch run
+      CREATE TABLE IF NOT EXISTS sessions (
+        id INTEGER PRIMARY KEY,
+        command TEXT NOT NULL,
+        command_line TEXT,
+        path TEXT,
+        started_at INTEGER DEFAULT (strftime('%s', 'now')),
+        finished_at INTEGER,
+        files_total INTEGER DEFAULT 0,
+        succeeded INTEGER DEFAULT 0,
+        failed INTEGER DEFAULT 0,
+        skipped INTEGER DEFAULT 0
+      );
+
+      ALTER TABLE operations ADD COLUMN session_id INTEGER;
+      CREATE INDEX IF NOT EXISTS idx_operations_session ON operations(session_id);
+      CREATE INDEX IF NOT EXISTS idx_sessions_started ON sessions(started_at);
+    `,
+  },
+  {
+    version: 7,
+    name: 'add_redo',
+    up: `
+      -- Operations created by redo point at the undone operation they re-apply
+      ALTER TABLE operations ADD COLUMN redo_of INTEGER;
+      CREATE INDEX IF NOT EXISTS idx_operations_redo ON operations(redo_of);
+    `,
+  },
+  {
+    version: 8,
+    name: 'add_learning_state',
+    up: `
+      -- Learned patterns the user dismissed in "sortora learn"
+      CREATE TABLE IF NOT EXISTS dismissed_patterns (
+        key TEXT PRIMARY KEY,
+        dismissed_at INTEGER DEFAULT (strftime('%s', 'now'))
+      );
+
+      -- Small key/value state, e.g. when maintenance last ran
+      CREATE TABLE IF NOT EXISTS meta (
+        key TEXT PRIMARY KEY,
+        value TEXT
+      );
+    `,
+  },
+  {
+    version: 9,
+    name: 'add_rule_feedback',
+    up: `
+      -- Answers given to rule suggestions (accept, reject, modify, skip)
+      CREATE TABLE IF NOT EXISTS rule_feedback (
+        id INTEGER PRIMARY KEY AUTOINCREMENT,
+        rule_name TEXT NOT NULL,
+        type TEXT NOT NULL,
+        file_path TEXT,
+        destination TEXT,
+        created_at INTEGER DEFAULT (strftime('%s', 'now'))
+      );
+
+      CREATE INDEX IF NOT EXISTS idx_rule_feedback_rule ON rule_feedback(rule_name);
+    `,
+  },
+  {
+    version: 10,
+    name: 'add_pattern_rejections',
+    up: `
+      -- Undone moves that followed a pattern
+      ALTER TABLE patterns ADD COLUMN rejections INTEGER DEFAULT 0;
+    `,
+  },
+  {
+    version: 11,
+    name: 'add_full_hash',
+    up: `
+      -- Full content hash confirmed during duplicate detection, valid while
+      -- size and mtime (in ms) are unchanged
+      ALTER TABLE files ADD COLUMN full_hash TEXT;
+      ALTER TABLE files ADD COLUMN full_hash_mtime INTEGER;
+    `,
+  },
+  {
+    version: 12,
+    name: 'add_perceptual_hash',
+    up: `
+      -- dHash of images, for near-duplicate detection
+      ALTER TABLE files ADD COLUMN perceptual_hash TEXT;
+      ALTER TABLE files ADD COLUMN perceptual_hash_mtime INTEGER;
+    `,
+  },
+  {
+    version: 13,
+    name: 'add_trash',
+    up: `
+      -- Files and folders sortora moved to the trash, for restoring them later
+      CREATE TABLE IF NOT EXISTS trash (
+        id INTEGER PRIMARY KEY AUTOINCREMENT,
+        original_path TEXT NOT NULL,
+        trash_path TEXT NOT NULL UNIQUE,
+        deleted_at INTEGER DEFAULT (strftime('%s', 'now')),
+        operation_id INTEGER
+      );
+
+      CREATE INDEX IF NOT EXISTS idx_trash_deleted ON trash(deleted_at);
+    `,
+  },
+  {
+    version: 14,
+    name: 'add_inbox',
+    up: `
+      -- Suggestions from watch mode waiting for review, one per file
+      CREATE TABLE IF NOT EXISTS inbox (
+        id INTEGER PRIMARY KEY AUTOINCREMENT,
+        path TEXT NOT NULL UNIQUE,
+        destination TEXT NOT NULL,
+        action TEXT NOT NULL,
+        rule_name TEXT NOT NULL,
+        confidence REAL NOT NULL,
+        tags_json TEXT,
+        steps_json TEXT,
+        created_at INTEGER DEFAULT (strftime('%s', 'now'))
+      );
+
+      CREATE INDEX IF NOT EXISTS idx_inbox_created ON inbox(created_at);
+    `,
+  },
+  {
+    version: 15,
+    name: 'add_operation_compressed',
+    up: `
+      -- Whether an archive operation gzipped the file or only moved it.
+      -- Earlier archives compressed exactly when they added .gz.
+      ALTER TABLE operations ADD COLUMN compressed INTEGER DEFAULT 0;
+      UPDATE operations SET compressed = 1
+        WHERE type = 'archive' AND destination LIKE '%.gz' AND source NOT LIKE '%.gz';
+    `,
+  },
+  {
+    version: 16,
+    name: 'add_operation_pending',
+    up: `
+      -- Operations are journaled before their file change runs and marked
+      -- done after it; a pending one may or may not have happened
+      ALTER TABLE operations ADD COLUMN pending INTEGER DEFAULT 0;
+    `,
+  },
+  {
+    version: 17,
+    name: 'add_inbox_directory',
+    up: `
+      -- Inbox entries for a whole new folder instead of a file
+      ALTER TABLE inbox ADD COLUMN directory INTEGER DEFAULT 0;
+    `,
+  },
+  {
+    version: 18,
+    name: 'add_batch_owner',
+    up: `
+      -- Process running the batch, so another one only recovers it once
+      -- that process is gone
+      ALTER TABLE batches ADD COLUMN owner_pid INTEGER;
+    `,
+  },
+  {
+    version: 19,
+    name: 'add_hash_cache',
+    up: `
+      -- Hashes computed for duplicate detection, valid while size and mtime
+      -- (in ms) are unchanged. Kept apart from files, which only holds
+      -- analyzed files; the hash columns on files are no longer used.
+      CREATE TABLE IF NOT EXISTS hash_cache (
+        path TEXT PRIMARY KEY,
+        size INTEGER NOT NULL,
+        mtime_ms INTEGER NOT NULL,
+        full_hash TEXT,
+        perceptual_hash TEXT
+      );
+
+      INSERT OR IGNORE INTO hash_cache (path, size, mtime_ms, full_hash)
+        SELECT path, size, full_hash_mtime, full_hash FROM files WHERE full_hash IS NOT NULL;
+      INSERT OR IGNORE INTO hash_cache (path, size, mtime_ms)
+        SELECT path, size, perceptual_hash_mtime FROM files WHERE perceptual_hash IS NOT NULL;
+      UPDATE hash_cache SET perceptual_hash = (
+        SELECT perceptual_hash FROM files
+        WHERE files.path = hash_cache.path AND files.perceptual_hash_mtime = hash_cache.mtime_ms
+      );
+
+      -- Rows that caching a hash added for files that were never analyzed
+      DELETE FROM files
+        WHERE mime_type IS NULL AND hash IS NULL AND category IS NULL
+          AND (full_hash IS NOT NULL OR perceptual_hash IS NOT NULL);
+    `,
+  },
 ];
 
-export function runMigrations(db: SqlJsDatabase): void {
+/**
+ * Apply the migrations the database doesn't have yet. Returns how many ran.
+ */
+export function runMigrations(db: SqlJsDatabase): number {
   // Ensure schema_version table exists
   db.run(`
     CREATE TABLE IF NOT EXISTS schema_version (
@@ -92,6 +332,7 @@ export function runMigrations(db: SqlJsDatabase): void {
     : 0;
 
   // Run pending migrations
+  let applied = 0;
   for (const migration of migrations) {
     if (migration.version > currentVersion) {
       // sql.js doesn't have native transactions like better-sqlite3
@@ -101,12 +342,15 @@ export function runMigrations(db: SqlJsDatabase): void {
         db.run(migration.up);
         db.run('INSERT INTO schema_version (version) VALUES (?)', [migration.version]);
         db.run('COMMIT');
+        applied++;
       } catch (error) {
         db.run('ROLLBACK');
         throw error;
       }
     }
   }
+
+  return applied;
 }
 
 export function getCurrentVersion(db: SqlJsDatabase): number {
@@ -1,7 +1,11 @@
 import Table from 'cli-table3';
 import chalk from 'chalk';
-import { formatSize, formatNumber, colorByCategory } from './colors.js';
+import { basename } from 'path';
+import { formatSize, formatNumber, formatDate, colorByCategory } from './colors.js';
 import type { FileAnalysis } from '../core/analyzer.js';
+import type { RuleAccuracy } from '../learning/feedback.js';
+import type { InboxEntry } from '../core/inbox.js';
+import { formatSuggestionTarget } from '../core/suggester.js';
 import { getCategoryIcon } from '../utils/mime.js';
 
 export interface PeriodStats {
@@ -221,12 +225,144 @@ export function renderOperationsTable(
   console.log(table.toString().split('\n').map(line => '  ' + line).join('\n'));
 }
 
+export function renderSessionsTable(
+  sessions: {
+    id: number;
+    command: string;
+    path: string | null;
+    startedAt: number;
+    finishedAt: number | null;
+    succeeded: number;
+    failed: number;
+    skipped: number;
+    operationCount: number;
+    undoneCount: number;
+  }[]
+): void {
+  const table = new Table({
+    head: [
+      chalk.bold('ID'),
+      chalk.bold('Started'),
+      chalk.bold('Command'),
+      chalk.bold('Path'),
+      chalk.bold('Done/Failed/Skipped'),
+      chalk.bold('Status'),
+    ],
+    colWidths: [6, 20, 12, 34, 21, 14],
+    style: {
+      head: [],
+      border: ['gray'],
+    },
+  });
+
+  for (const session of sessions) {
+    const path = session.path && session.path.length > 30
+      ? '...' + session.path.slice(-29)
+      : session.path || '';
+
+    let status: string;
+    if (session.operationCount > 0 && session.undoneCount === session.operationCount) {
+      status = chalk.gray('undone');
+    } else if (session.undoneCount > 0) {
+      status = chalk.yellow('partly undone');
+    } else if (session.finishedAt === null) {
+      status = chalk.yellow('unfinished');
+    } else {
+      status = chalk.green('done');
+    }
+
+    table.push([
+      `#${session.id}`,
+      formatDate(session.startedAt),
+      chalk.cyan(session.command),
+      path,
+      `${session.succeeded}/${session.failed}/${session.skipped}`,
+      status,
+    ]);
+  }
+
+  console.log(table.toString().split('\n').map(line => '  ' + line).join('\n'));
+}
+
+export function renderTrashTable(
+  entries: {
+    id: number;
+    originalPath: string;
+    deletedAt: Date;
+    size: number;
+  }[]
+): void {
+  const table = new Table({
+    head: [
+      chalk.bold('ID'),
+      chalk.bold('Deleted'),
+      chalk.bold('Size'),
+      chalk.bold('Original location'),
+    ],
+    colWidths: [6, 20, 10, 50],
+    style: {
+      head: [],
+      border: ['gray'],
+    },
+  });
+
+  for (const entry of entries) {
+    const path = entry.originalPath.length > 46
+      ? '...' + entry.originalPath.slice(-45)
+      : entry.originalPath;
+
+    table.push([
+      `#${entry.id}`,
+      formatDate(entry.deletedAt),
+      formatSize(entry.size),
+      path,
+    ]);
+  }
+
+  console.log(table.toString().split('\n').map(line => '  ' + line).join('\n'));
+}
+
+export function renderInboxTable(entries: InboxEntry[]): void {
+  const table = new Table({
+    head: [
+      chalk.bold('ID'),
+      chalk.bold('Added'),
+      chalk.bold('File'),
+      chalk.bold('Suggestion'),
+      chalk.bold('Rule'),
+      chalk.bold('Conf.'),
+    ],
+    colWidths: [6, 14, 28, 36, 20, 7],
+    style: {
+      head: [],
+      border: ['gray'],
+    },
+  });
+
+  for (const entry of entries) {
+    const filename = basename(entry.path) + (entry.directory ? '/' : '');
+    const target = formatSuggestionTarget(entry);
+    const rule = entry.ruleName || 'several rules';
+
+    table.push([
+      `#${entry.id}`,
+      formatRelativeTime(entry.createdAt),
+      filename.length > 26 ? filename.slice(0, 23) + '...' : filename,
+      target.length > 34 ? '...' + target.slice(-31) : target,
+      rule.length > 18 ? rule.slice(0, 15) + '...' : rule,
+      `${Math.round(entry.confidence * 100)}%`,
+    ]);
+  }
+
+  console.log(table.toString().split('\n').map(line => '  ' + line).join('\n'));
+}
+
 export function renderRulesTable(
   rules: {
     name: string;
     priority: number;
-    match: Record<string, unknown>;
-    action: Record<string, unknown>;
+    match: object;
+    action: object;
   }[]
 ): void {
   const table = new Table({
@@ -266,6 +402,88 @@ export function renderRulesTable(
   console.log(table.toString().split('\n').map(line => '  ' + line).join('\n'));
 }
 
+export function renderCoverageTable(
+  rules: {
+    name: string;
+    priority: number;
+    enabled: boolean;
+    claimed: number;
+    matched: number;
+  }[],
+  totalFiles: number
+): void {
+  const table = new Table({
+    head: [
+      chalk.bold('Rule'),
+      chalk.bold('Priority'),
+      chalk.bold('Claimed'),
+      chalk.bold('Matched'),
+      chalk.bold('Share'),
+    ],
+    colWidths: [30, 10, 10, 10, 9],
+    style: {
+      head: [],
+      border: ['gray'],
+    },
+  });
+
+  for (const rule of rules) {
+    const share = totalFiles > 0 ? `${Math.round((rule.claimed / totalFiles) * 100)}%` : '-';
+    let name = chalk.cyan(rule.name);
+    if (!rule.enabled) {
+      name = chalk.dim(`${rule.name} (disabled)`);
+    } else if (rule.matched === 0) {
+      name = chalk.yellow(rule.name);
+    }
+
+    table.push([
+      name,
+      rule.priority.toString(),
+      rule.claimed > 0 ? formatNumber(rule.claimed) : chalk.dim('0'),
+      rule.matched > 0 ? formatNumber(rule.matched) : chalk.dim('0'),
+      chalk.dim(share),
+    ]);
+  }
+
+  console.log(table.toString().split('\n').map(line => '  ' + line).join('\n'));
+}
+
+export function renderOverlapsTable(
+  overlaps: { path: string; rules: string[] }[],
+  limit = 20
+): void {
+  const table = new Table({
+    head: [
+      chalk.bold('File'),
+      chalk.bold('Rules (first wins)'),
+    ],
+    colWidths: [40, 45],
+    wordWrap: true,
+    style: {
+      head: [],
+      border: ['gray'],
+    },
+  });
+
+  for (const overlap of overlaps.slice(0, limit)) {
+    const path = overlap.path.length > 36
+      ? '...' + overlap.path.slice(-35)
+      : overlap.path;
+    const [winner, ...others] = overlap.rules;
+
+    table.push([
+      path,
+      chalk.cyan(winner) + chalk.dim(`, ${others.join(', ')}`),
+    ]);
+  }
+
+  console.log(table.toString().split('\n').map(line => '  ' + line).join('\n'));
+
+  if (overlaps.length > limit) {
+    console.log(chalk.dim(`  ... and ${overlaps.length - limit} more`));
+  }
+}
+
 export function renderStatsOverview(stats: StatsData): void {
   console.log(chalk.bold('\n  Organization Statistics\n'));
 
@@ -341,6 +559,54 @@ export function renderTopRules(
   console.log(table.toString().split('\n').map(line => '  ' + line).join('\n'));
 }
 
+export function renderRuleAccuracyTable(
+  rules: RuleAccuracy[],
+  demoteBelow: number,
+  minSamples: number
+): void {
+  if (rules.length === 0) {
+    console.log(chalk.dim('\n  No rule feedback recorded yet.\n'));
+    return;
+  }
+
+  console.log(chalk.bold('\n  Rule Accuracy\n'));
+
+  const rate = (value: number | null) => value === null ? chalk.dim('-') : `${Math.round(value * 100)}%`;
+
+  const table = new Table({
+    head: [
+      chalk.bold('Rule'),
+      chalk.bold('Applied'),
+      chalk.bold('Accepted'),
+      chalk.bold('Modified'),
+      chalk.bold('Undone'),
+      chalk.bold('Accuracy'),
+    ],
+    colWidths: [30, 10, 10, 10, 10, 22],
+    style: {
+      head: [],
+      border: ['gray'],
+    },
+  });
+
+  for (const rule of rules) {
+    const demoted = rule.samples >= minSamples && rule.accuracy < demoteBelow;
+    const accuracy = `${Math.round(rule.accuracy * 100)}%`;
+
+    table.push([
+      chalk.cyan(rule.ruleName),
+      formatNumber(rule.applied),
+      rate(rule.acceptanceRate),
+      rate(rule.modificationRate),
+      rate(rule.undoRate),
+      demoted ? chalk.yellow(`${accuracy} suggest-only`) : accuracy,
+    ]);
+  }
+
+  console.log(table.toString().split('\n').map(line => '  ' + line).join('\n'));
+  console.log(chalk.dim(`\n  Rules under ${Math.round(demoteBelow * 100)}% accuracy after ${minSamples} decisions are not applied by --auto.\n`));
+}
+
 export function renderDuplicateStats(stats: StatsData): void {
   console.log(chalk.bold('\n  Duplicate Files\n'));
 
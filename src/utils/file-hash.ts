@@ -92,3 +92,18 @@ export async function hashBuffer(buffer: Buffer): Promise<string> {
 export function areHashesEqual(hash1: string, hash2: string): boolean {
   return hash1.toLowerCase() === hash2.toLowerCase();
 }
+
+/**
+ * Number of differing bits between two hex hashes of the same length
+ */
+export function hammingDistance(hash1: string, hash2: string): number {
+  let diff = BigInt(`0x${hash1}`) ^ BigInt(`0x${hash2}`);
+  let distance = 0;
+
+  while (diff > 0n) {
+    distance += Number(diff & 1n);
+    diff >>= 1n;
+  }
+
+  return distance;
+}
@@ -11,6 +11,8 @@ import {
   mkdir,
   readdir,
   copyFile,
+  cp,
+  rm,
   rename,
   unlink,
   readFile,
@@ -149,6 +151,23 @@ export function getFileInfoSync(path: string): ReturnType<typeof getFileInfo> ex
   }
 }
 
+/**
+ * The path itself if nothing is there, otherwise the first free
+ * "name (n).ext" next to it
+ */
+export async function getAvailablePath(path: string): Promise<string> {
+  let available = resolve(path);
+  let counter = 1;
+  const { base, ext } = parseFilename(available);
+
+  while (await exists(available)) {
+    available = `${base} (${counter})${ext}`;
+    counter++;
+  }
+
+  return available;
+}
+
 export async function safeCopy(
   source: string,
   destination: string,
@@ -170,14 +189,7 @@ export async function safeCopy(
   await ensureDir(destDir);
 
   // Handle name collision using proper filename parsing
-  let finalDest = destValidation.normalized;
-  let counter = 1;
-  const { base, ext } = parseFilename(destValidation.normalized);
-
-  while (await exists(finalDest)) {
-    finalDest = `${base} (${counter})${ext}`;
-    counter++;
-  }
+  const finalDest = await getAvailablePath(destValidation.normalized);
 
   await copyFile(sourceValidation.normalized, finalDest);
   logger.debug(`Copied ${source} to ${finalDest}`);
@@ -205,22 +217,20 @@ export async function safeMove(
   await ensureDir(destDir);
 
   // Handle name collision using proper filename parsing
-  let finalDest = destValidation.normalized;
-  let counter = 1;
-  const { base, ext } = parseFilename(destValidation.normalized);
-
-  while (await exists(finalDest)) {
-    finalDest = `${base} (${counter})${ext}`;
-    counter++;
-  }
+  const finalDest = await getAvailablePath(destValidation.normalized);
 
   try {
     await rename(sourceValidation.normalized, finalDest);
   } catch (error) {
     // Cross-device move: copy then delete
     if ((error as NodeJS.ErrnoException).code === 'EXDEV') {
-      await copyFile(sourceValidation.normalized, finalDest);
-      await unlink(sourceValidation.normalized);
+      if ((await stat(sourceValidation.normalized)).isDirectory()) {
+        await cp(sourceValidation.normalized, finalDest, { recursive: true, preserveTimestamps: true });
+        await rm(sourceValidation.normalized, { recursive: true });
+      } else {
+        await copyFile(sourceValidation.normalized, finalDest);
+        await unlink(sourceValidation.normalized);
+      }
     } else {
       throw error;
     }
@@ -236,12 +246,21 @@ export interface TrashInfo {
   timestamp: number;
 }
 
-// Map to track trashed files for undo functionality
+// Trashed files of this process; the database keeps them across runs
 const trashRegistry = new Map<string, TrashInfo>();
 
+/**
+ * Where safeDelete puts a file in the trash, for callers that have to
+ * record it before the file is moved
+ */
+export function newTrashPath(path: string): string {
+  return join(getTrashPath(), `${Date.now()}-${basename(path)}`);
+}
+
 export async function safeDelete(
   path: string,
-  toTrash = true
+  toTrash = true,
+  trashDest = newTrashPath(path)
 ): Promise<TrashInfo | null> {
   if (!await exists(path)) {
     logger.warn(`File not found for deletion: ${path}`);
@@ -249,14 +268,19 @@ export async function safeDelete(
   }
 
   if (toTrash) {
-    const trashPath = getTrashPath();
-    await ensureDir(trashPath);
+    await ensureDir(dirname(trashDest));
 
-    const filename = basename(path);
     const timestamp = Date.now();
-    const trashDest = join(trashPath, `${timestamp}-${filename}`);
 
-    await safeMove(path, trashDest);
+    // The info file comes first so the desktop trash never sees a file it
+    // can't restore
+    await writeTrashInfo(path, trashDest, new Date(timestamp));
+    try {
+      await safeMove(path, trashDest);
+    } catch (error) {
+      await removeTrashInfo(trashDest);
+      throw error;
+    }
 
     const trashInfo: TrashInfo = {
       originalPath: path,
@@ -295,6 +319,7 @@ export async function restoreFromTrash(originalPath: string): Promise<boolean> {
 
   try {
     await safeMove(trashInfo.trashPath, trashInfo.originalPath);
+    await removeTrashInfo(trashInfo.trashPath);
     trashRegistry.delete(originalPath);
     logger.debug(`Restored from trash: ${trashInfo.trashPath} -> ${originalPath}`);
     return true;
@@ -353,10 +378,50 @@ export function getTrashInfoPath(): string {
     return join(xdgDataHome, 'Trash', 'info');
   }
 
-  // For macOS and Windows, info is stored in memory (trashRegistry)
+  // For macOS and Windows, only the database knows where trashed files came from
   return getTrashPath();
 }
 
+/**
+ * Write the .trashinfo file of the freedesktop.org trash spec, which lets
+ * file managers show where a trashed file came from and put it back
+ */
+async function writeTrashInfo(originalPath: string, trashPath: string, deletedAt: Date): Promise<void> {
+  if (platform() !== 'linux') {
+    return;
+  }
+
+  const infoDir = getTrashInfoPath();
+  await ensureDir(infoDir);
+
+  // Local time without a timezone, as the spec requires
+  const pad = (n: number) => String(n).padStart(2, '0');
+  const date = `${deletedAt.getFullYear()}-${pad(deletedAt.getMonth() + 1)}-${pad(deletedAt.getDate())}` +
+    `T${pad(deletedAt.getHours())}:${pad(deletedAt.getMinutes())}:${pad(deletedAt.getSeconds())}`;
+  const escapedPath = resolve(originalPath).split('/').map(encodeURIComponent).join('/');
+
+  await writeFile(
+    join(infoDir, `${basename(trashPath)}.trashinfo`),
+    `[Trash Info]\nPath=${escapedPath}\nDeletionDate=${date}\n`,
+    { flag: 'wx' }
+  );
+}
+
+/**
+ * Remove the .trashinfo file of a trashed file once it was restored or purged
+ */
+export async function removeTrashInfo(trashPath: string): Promise<void> {
+  if (platform() !== 'linux') {
+    return;
+  }
+
+  try {
+    await unlink(join(getTrashInfoPath(), `${basename(trashPath)}.trashinfo`));
+  } catch {
+    // Already gone
+  }
+}
+
 export async function listDirectory(
   dirPath: string,
   options: { recursive?: boolean; includeHidden?: boolean; maxDepth?: number } = {},
@@ -0,0 +1,10 @@
+export function isProcessAlive(pid: number): boolean {
+  try {
+    // Signal 0 only checks that the process exists
+    process.kill(pid, 0);
+    return true;
+  } catch (error) {
+    // EPERM: it exists, but belongs to someone else
+    return (error as NodeJS.ErrnoException).code === 'EPERM';
+  }
+}
@@ -0,0 +1,138 @@
+import { describe, it, expect, beforeEach, afterEach } from 'vitest';
+import { join } from 'path';
+import { mkdirSync, writeFileSync, readFileSync, rmSync, existsSync } from 'fs';
+import { tmpdir } from 'os';
+import { getDaemonStatus, writePidFile, removePidFile } from '../src/core/daemon';
+import {
+  installService,
+  uninstallService,
+  buildSystemdUnit,
+  getSystemdUnitPath,
+  type CommandRunner,
+  type ServiceCommand,
+} from '../src/core/service';
+
+describe('daemon PID file', () => {
+  const testDir = join(tmpdir(), 'sortora-daemon-test-' + Date.now());
+  const pidFile = join(testDir, 'daemon.pid');
+
+  beforeEach(() => {
+    mkdirSync(testDir, { recursive: true });
+  });
+
+  afterEach(() => {
+    if (existsSync(testDir)) {
+      rmSync(testDir, { recursive: true, force: true });
+    }
+  });
+
+  it('should report a running daemon from its PID file', () => {
+    expect(getDaemonStatus(pidFile).running).toBe(false);
+
+    writePidFile(pidFile, process.pid);
+    const status = getDaemonStatus(pidFile);
+
+    expect(status.running).toBe(true);
+    expect(status.pid).toBe(process.pid);
+    expect(status.startedAt).toBeInstanceOf(Date);
+  });
+
+  it('should treat a PID file of a dead process as not running', () => {
+    // PIDs are far below this on any real system
+    writeFileSync(pidFile, '4194304000\n');
+    expect(getDaemonStatus(pidFile).running).toBe(false);
+
+    writeFileSync(pidFile, 'garbage');
+    expect(getDaemonStatus(pidFile).running).toBe(false);
+  });
+
+  it('should only remove its own PID file', () => {
+    writePidFile(pidFile, process.pid);
+
+    removePidFile(pidFile, process.pid + 1);
+    expect(existsSync(pidFile)).toBe(true);
+
+    removePidFile(pidFile, process.pid);
+    expect(existsSync(pidFile)).toBe(false);
+  });
+});
+
+describe('daemon service', () => {
+  const testDir = join(tmpdir(), 'sortora-service-test-' + Date.now());
+  const originalConfigHome = process.env.XDG_CONFIG_HOME;
+
+  const command: ServiceCommand = {
+    execPath: '/usr/bin/node',
+    args: ['/opt/sortora/dist/cli.js'],
+    env: { SORTORA_CONFIG_DIR: '/home/me/my config', SORTORA_DATA_DIR: '/home/me/.local/share/sortora' },
+    logFile: join(testDir, 'data', 'daemon.log'),
+  };
+
+  // Records calls and keeps a fake crontab instead of touching the system
+  let calls: string[][];
+  let crontab: string;
+  const run: CommandRunner = (program, args, input) => {
+    calls.push([program, ...args]);
+    if (program === 'crontab' && args[0] === '-l') return crontab;
+    if (program === 'crontab' && args[0] === '-') crontab = input ?? '';
+    return '';
+  };
+
+  beforeEach(() => {
+    mkdirSync(testDir, { recursive: true });
+    process.env.XDG_CONFIG_HOME = join(testDir, 'config');
+    calls = [];
+    crontab = '0 3 * * * backup.sh\n';
+  });
+
+  afterEach(() => {
+    if (originalConfigHome === undefined) {
+      delete process.env.XDG_CONFIG_HOME;
+    } else {
+      process.env.XDG_CONFIG_HOME = originalConfigHome;
+    }
+    if (existsSync(testDir)) {
+      rmSync(testDir, { recursive: true, force: true });
+    }
+  });
+
+  it('should write and enable a systemd user unit', () => {
+    const result = installService(command, { method: 'systemd', run });
+    const unitPath = join(testDir, 'config', 'systemd', 'user', 'sortora.service');
+
+    expect(result.location).toBe(unitPath);
+    expect(getSystemdUnitPath()).toBe(unitPath);
+
+    const unit = readFileSync(unitPath, 'utf-8');
+    expect(unit).toContain('ExecStart="/usr/bin/node" "/opt/sortora/dist/cli.js" "daemon" "run"');
+    expect(unit).toContain('Environment="SORTORA_CONFIG_DIR=/home/me/my config"');
+    expect(unit).toContain('WantedBy=default.target');
+    expect(calls).toContainEqual(['systemctl', '--user', 'enable', '--now', 'sortora.service']);
+
+    expect(uninstallService({ run })).toEqual([unitPath]);
+    expect(existsSync(unitPath)).toBe(false);
+    expect(calls).toContainEqual(['systemctl', '--user', 'disable', '--now', 'sortora.service']);
+  });
+
+  it('should escape specifiers in the log path of the unit', () => {
+    const unit = buildSystemdUnit({ ...command, logFile: '/home/me/100% sure/daemon.log' });
+
+    expect(unit).toContain('StandardOutput=append:/home/me/100%% sure/daemon.log\n');
+    expect(unit).toContain('StandardError=append:/home/me/100%% sure/daemon.log\n');
+  });
+
+  it('should fall back to a crontab @reboot entry', () => {
+    installService(command, { method: 'cron', run });
+    installService(command, { method: 'cron', run });
+
+    const lines = crontab.trim().split('\n');
+    expect(lines).toHaveLength(2);
+    expect(lines[0]).toBe('0 3 * * * backup.sh');
+    expect(lines[1]).toMatch(/^@reboot SORTORA_CONFIG_DIR='\/home\/me\/my config' /);
+    expect(lines[1]).toContain("'/usr/bin/node' '/opt/sortora/dist/cli.js' daemon start");
+
+    expect(uninstallService({ run })).toEqual(['crontab']);
+    expect(crontab).toBe('0 3 * * * backup.sh\n');
+    expect(uninstallService({ run })).toEqual([]);
+  });
+});
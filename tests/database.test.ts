@@ -0,0 +1,73 @@
+import { describe, it, expect, beforeEach, afterEach } from 'vitest';
+import { join, resolve } from 'path';
+import { mkdirSync, writeFileSync, rmSync, existsSync } from 'fs';
+import { tmpdir } from 'os';
+import { execFile } from 'child_process';
+import { promisify } from 'util';
+import { Database } from '../src/storage/database';
+
+describe('Database shared between processes', () => {
+  const testDir = join(tmpdir(), 'sortora-database-test-' + Date.now());
+  const dbPath = join(testDir, 'sortora.db');
+  let db: Database;
+
+  // Run a script in another Node process, as another sortora command would
+  const runInOtherProcess = async (body: string): Promise<string> => {
+    const script = join(testDir, `other-${Date.now()}.mts`);
+    const database = resolve('src/storage/database.ts');
+    writeFileSync(script, [
+      `import { Database } from ${JSON.stringify(database)};`,
+      `const db = new Database(${JSON.stringify(dbPath)});`,
+      'await db.init();',
+      body,
+      'db.close();',
+    ].join('\n'));
+
+    const { stdout } = await promisify(execFile)(process.execPath, ['--import', 'tsx', script]);
+    return stdout.trim();
+  };
+
+  beforeEach(async () => {
+    mkdirSync(testDir, { recursive: true });
+    db = new Database(dbPath);
+    await db.init();
+    db.startSession({ command: 'daemon' });
+    db.flush();
+  });
+
+  afterEach(() => {
+    db.close();
+    if (existsSync(testDir)) {
+      rmSync(testDir, { recursive: true, force: true });
+    }
+  });
+
+  it('should keep what another process wrote while a connection stayed open', async () => {
+    const otherId = parseInt(await runInOtherProcess(
+      "console.log(db.startSession({ command: 'organize' }));"
+    ), 10);
+
+    // The long-running connection sees it, and its own write doesn't drop it
+    expect(db.getSession(otherId)?.command).toBe('organize');
+    const ownId = db.startSession({ command: 'watch' });
+    db.close();
+
+    db = new Database(dbPath);
+    await db.init();
+    expect(db.getSessions().map(s => s.command).sort()).toEqual(['daemon', 'organize', 'watch']);
+    expect(ownId).not.toBe(otherId);
+  });
+
+  it('should make another process wait for pending changes', async () => {
+    // Not saved yet: the other process has to wait for the debounced save
+    db.startSession({ command: 'watch' });
+
+    await runInOtherProcess("db.startSession({ command: 'undo' });");
+
+    db.close();
+    db = new Database(dbPath);
+    await db.init();
+    expect(db.getSessions().map(s => s.command).sort()).toEqual(['daemon', 'undo', 'watch']);
+    expect(existsSync(join(testDir, '.sortora.db.lock'))).toBe(false);
+  });
+});
@@ -0,0 +1,160 @@
+import { describe, it, expect, beforeEach, afterEach } from 'vitest';
+import { join } from 'path';
+import { mkdirSync, writeFileSync, rmSync, existsSync, statSync } from 'fs';
+import { tmpdir } from 'os';
+import { Database } from '../src/storage/database';
+import sharp from 'sharp';
+import { findDuplicates, findSimilarImages, findDuplicateFolders, decideKeep, type DuplicateFile } from '../src/actions/deduplicate';
+import { hashFileQuick } from '../src/utils/file-hash';
+
+describe('findDuplicates', () => {
+  const testDir = join(tmpdir(), 'sortora-dedup-test-' + Date.now());
+  let db: Database;
+
+  beforeEach(async () => {
+    mkdirSync(testDir, { recursive: true });
+    db = new Database(join(testDir, 'test.db'));
+    await db.init();
+  });
+
+  afterEach(() => {
+    db.close();
+    if (existsSync(testDir)) {
+      rmSync(testDir, { recursive: true, force: true });
+    }
+  });
+
+  it('should not report files whose quick hash samples collide', async () => {
+    // Large enough to be sampled; they differ outside the sampled ranges
+    const content = Buffer.alloc(400 * 1024, 1);
+    const changed = Buffer.from(content);
+    changed[100 * 1024] = 2;
+
+    const a = join(testDir, 'a.bin');
+    const b = join(testDir, 'b.bin');
+    const c = join(testDir, 'c.bin');
+    writeFileSync(a, content);
+    writeFileSync(b, changed);
+    writeFileSync(c, content);
+
+    expect(await hashFileQuick(a)).toBe(await hashFileQuick(b));
+
+    const groups = await findDuplicates([a, b, c], { db });
+
+    expect(groups).toHaveLength(1);
+    expect(groups[0].files.map(f => f.path).sort()).toEqual([a, c]);
+  });
+
+  it('should cache confirmed full hashes', async () => {
+    const a = join(testDir, 'a.txt');
+    const b = join(testDir, 'b.txt');
+    writeFileSync(a, 'same content');
+    writeFileSync(b, 'same content');
+
+    const [group] = await findDuplicates([a, b], { db });
+    const stats = statSync(a);
+
+    expect(db.getCachedFullHash(a, stats.size, Math.trunc(stats.mtimeMs))).toBe(group.hash);
+    expect(db.getCachedFullHash(a, stats.size + 1, Math.trunc(stats.mtimeMs))).toBeNull();
+    // Hashing a file doesn't make it an analyzed file
+    expect(db.getStats().totalFiles).toBe(0);
+  });
+
+  it('should group resized copies of an image and keep the largest', async () => {
+    // Horizontal and vertical gradients look nothing alike
+    const gradient = (width: number, height: number, vertical: boolean) => {
+      const pixels = Buffer.alloc(width * height * 3);
+      for (let y = 0; y < height; y++) {
+        for (let x = 0; x < width; x++) {
+          pixels.fill(Math.round(255 * (vertical ? y / height : x / width)), (y * width + x) * 3, (y * width + x + 1) * 3);
+        }
+      }
+      return sharp(pixels, { raw: { width, height, channels: 3 } });
+    };
+
+    const original = join(testDir, 'photo.png');
+    const copy = join(testDir, 'photo-small.jpg');
+    const other = join(testDir, 'other.png');
+    await gradient(200, 150, false).png().toFile(original);
+    await sharp(original).resize(100, 75).jpeg({ quality: 60 }).toFile(copy);
+    await gradient(200, 150, true).png().toFile(other);
+
+    const groups = await findSimilarImages([copy, original, other], { db });
+
+    expect(groups).toHaveLength(1);
+    expect(groups[0].files.map(f => f.path)).toEqual([original, copy]);
+    expect(groups[0].files[0]).toMatchObject({ isOriginal: true, width: 200, height: 150 });
+  });
+
+  it('should report the topmost pair of duplicate folders', async () => {
+    const write = (path: string, content: string) => {
+      mkdirSync(join(testDir, path, '..'), { recursive: true });
+      writeFileSync(join(testDir, path), content);
+    };
+    for (const dir of ['import', 'import-again']) {
+      write(`${dir}/a.jpg`, 'photo a');
+      write(`${dir}/b.jpg`, 'photo b');
+      write(`${dir}/raw/a.cr2`, 'raw a');
+      write(`${dir}/raw/b.cr2`, 'raw b');
+    }
+    write('import/notes.txt', 'only here');
+    write('other/a.jpg', 'photo a');
+
+    const files = ['a.jpg', 'b.jpg', 'raw/a.cr2', 'raw/b.cr2']
+      .flatMap(name => [join(testDir, 'import', name), join(testDir, 'import-again', name)])
+      .concat(join(testDir, 'import/notes.txt'), join(testDir, 'other/a.jpg'));
+
+    const pairs = await findDuplicateFolders(files, { root: testDir, minOverlap: 0.8, db });
+
+    expect(pairs).toHaveLength(1);
+    expect(pairs[0].keep).toMatchObject({ path: join(testDir, 'import'), files: 5, unique: 1 });
+    expect(pairs[0].copy).toMatchObject({ path: join(testDir, 'import-again'), files: 4, unique: 0 });
+    expect(pairs[0].overlap).toBe(0.8);
+
+    // Without the near match, the identical subfolders are the topmost pair
+    const identical = await findDuplicateFolders(files, { root: testDir, db });
+    expect(identical).toHaveLength(1);
+    expect([identical[0].keep.path, identical[0].copy.path].sort()).toEqual([
+      join(testDir, 'import-again/raw'),
+      join(testDir, 'import/raw'),
+    ]);
+  });
+
+  describe('decideKeep', () => {
+    const copy = (path: string): DuplicateFile => ({
+      path: join(testDir, path),
+      size: 100,
+      modified: new Date(2024, 0, 1),
+      isOriginal: false,
+    });
+
+    it('should prefer destinations over avoided folders and explain why', async () => {
+      const files = [copy('Downloads/IMG_1234.jpg'), copy('Sorted/beach.jpg'), copy('Sorted/IMG_1234.jpg')];
+
+      const decision = await decideKeep(files, {
+        order: ['destinations', 'not-avoided', 'readable-name', 'shortest-name'],
+        destinations: [join(testDir, 'Sorted')],
+        avoid: [join(testDir, 'Downloads')],
+        isUnreadable: name => name.startsWith('IMG_'),
+      });
+
+      expect(decision.keep.path).toBe(join(testDir, 'Sorted/beach.jpg'));
+      expect(decision.remove).toHaveLength(2);
+      expect(decision.reasons).toEqual([expect.stringContaining('inside destination'), 'readable name']);
+    });
+
+    it('should never remove copies in protected folders', async () => {
+      const files = [copy('Sorted/a.jpg'), copy('Archive/a.jpg'), copy('Archive/b.jpg')];
+
+      const decision = await decideKeep(files, {
+        order: ['destinations'],
+        destinations: [join(testDir, 'Sorted')],
+        protected: [join(testDir, 'Archive')],
+      });
+
+      expect(decision.keep.path).toBe(join(testDir, 'Archive/a.jpg'));
+      expect(decision.protected.map(f => f.path)).toEqual([join(testDir, 'Archive/b.jpg')]);
+      expect(decision.remove.map(f => f.path)).toEqual([join(testDir, 'Sorted/a.jpg')]);
+    });
+  });
+});
@@ -1,7 +1,9 @@
 import { describe, it, expect, beforeEach, afterEach, vi } from 'vitest';
 import { join } from 'path';
-import { mkdirSync, writeFileSync, rmSync, existsSync, readFileSync } from 'fs';
+import { mkdirSync, writeFileSync, rmSync, existsSync, readFileSync, statSync, lstatSync } from 'fs';
 import { tmpdir } from 'os';
+import { gzipSync } from 'zlib';
+import { spawnSync } from 'child_process';
 import { Executor } from '../src/core/executor';
 import { Database } from '../src/storage/database';
 
@@ -53,6 +55,27 @@ describe('Executor', () => {
       expect(history[0].source).toBe(source);
     });
 
+    it('should move the records of a folder and its files along', async () => {
+      const source = join(testDir, 'album');
+      const dest = join(testDir, 'Photos', 'album');
+      mkdirSync(join(source, 'raw'), { recursive: true });
+      writeFileSync(join(source, 'raw', 'a.jpg'), 'image');
+      db.cacheFullHash(join(source, 'raw', 'a.jpg'), 5, 1000, 'abc');
+      db.cacheFullHash(join(testDir, 'album-notes.txt'), 5, 1000, 'def');
+
+      const result = await executor.move(source, dest);
+
+      expect(result.success).toBe(true);
+      expect(db.getFileHashes(join(dest, 'raw', 'a.jpg'))).toEqual({ size: 5, hash: null, fullHash: 'abc' });
+      expect(db.getFileHashes(join(source, 'raw', 'a.jpg'))).toBeNull();
+      // Only paths inside the folder, not ones sharing its name
+      expect(db.getFileHashes(join(testDir, 'album-notes.txt'))).not.toBeNull();
+
+      db.deleteFile(dest);
+      expect(db.getFileHashes(join(dest, 'raw', 'a.jpg'))).toBeNull();
+      expect(db.getFileHashes(join(testDir, 'album-notes.txt'))).not.toBeNull();
+    });
+
     it('should handle errors gracefully', async () => {
       const source = join(testDir, 'nonexistent.txt');
       const dest = join(testDir, 'dest.txt');
@@ -131,6 +154,30 @@ describe('Executor', () => {
       expect(existsSync(source)).toBe(false);
       expect(existsSync(dest)).toBe(true);
     });
+
+    it('should move gzipped files instead of compressing them again', async () => {
+      const source = join(testDir, 'logs.gz');
+      const content = gzipSync('old logs');
+      writeFileSync(source, content);
+
+      const result = await executor.archive(source, join(testDir, 'archive', 'logs.gz'));
+      expect(readFileSync(result.finalPath!)).toEqual(content);
+      expect(db.getOperation(result.operationId!)?.compressed).toBe(false);
+
+      expect(await executor.undo(result.operationId!)).toBe(true);
+      expect(readFileSync(source)).toEqual(content);
+    });
+
+    it('should undo by what the archive did, not by the file name', async () => {
+      const source = join(testDir, 'notes.txt');
+      const dest = join(testDir, 'archive', 'notes.gz');
+      writeFileSync(source, 'plain text');
+
+      const result = await executor.archive(source, dest, undefined, undefined, { compress: false });
+      expect(await executor.undo(result.operationId!)).toBe(true);
+      expect(readFileSync(source, 'utf-8')).toBe('plain text');
+      expect(existsSync(dest)).toBe(false);
+    });
   });
 
   describe('undo', () => {
@@ -163,6 +210,19 @@ describe('Executor', () => {
       expect(existsSync(dest)).toBe(false);
     });
 
+    it('should restore the original when undoing a compressed archive', async () => {
+      const source = join(testDir, 'source.txt');
+      writeFileSync(source, 'test content to compress');
+
+      const archiveResult = await executor.archive(source, join(testDir, 'archived'));
+      expect(existsSync(source)).toBe(false);
+
+      const undoResult = await executor.undo(archiveResult.operationId!);
+      expect(undoResult).toBe(true);
+      expect(readFileSync(source, 'utf-8')).toBe('test content to compress');
+      expect(existsSync(archiveResult.finalPath!)).toBe(false);
+    });
+
     it('should not undo already undone operation', async () => {
       const source = join(testDir, 'source.txt');
       const dest = join(testDir, 'dest.txt');
@@ -176,6 +236,351 @@ describe('Executor', () => {
     });
   });
 
+  describe('redo', () => {
+    it('should re-apply an undone move as a new linked operation', async () => {
+      const source = join(testDir, 'source.txt');
+      const dest = join(testDir, 'dest.txt');
+      writeFileSync(source, 'test content');
+
+      const moveResult = await executor.move(source, dest);
+      await executor.undo(moveResult.operationId!);
+
+      const redoResult = await executor.redo(moveResult.operationId!);
+      expect(redoResult.success).toBe(true);
+      expect(existsSync(dest)).toBe(true);
+      expect(db.getOperation(redoResult.operationId!)?.redoOf).toBe(moveResult.operationId);
+
+      const secondRedo = await executor.redo(moveResult.operationId!);
+      expect(secondRedo.success).toBe(false);
+    });
+
+    it('should refuse to redo when the destination is taken', async () => {
+      const source = join(testDir, 'source.txt');
+      const dest = join(testDir, 'dest.txt');
+      writeFileSync(source, 'test content');
+
+      const moveResult = await executor.move(source, dest);
+      await executor.undo(moveResult.operationId!);
+      writeFileSync(dest, 'other file');
+
+      const redoResult = await executor.redo(moveResult.operationId!);
+      expect(redoResult.success).toBe(false);
+      expect(redoResult.error).toContain('destination already exists');
+      expect(existsSync(source)).toBe(true);
+    });
+  });
+
+  describe('tag', () => {
+    it('should tag a file and undo only the added tags', async () => {
+      const file = join(testDir, 'scan.pdf');
+      writeFileSync(file, 'test content');
+      db.addTags(file, ['inbox']);
+
+      const result = executor.tag(file, ['inbox', 'scan']);
+      expect(result.success).toBe(true);
+      expect(db.getTags(file)).toEqual(['inbox', 'scan']);
+
+      const undoResult = await executor.undo(result.operationId!);
+      expect(undoResult).toBe(true);
+      expect(db.getTags(file)).toEqual(['inbox']);
+    });
+  });
+
+  describe('link', () => {
+    it('should replace a duplicate with a hard link and undo it', async () => {
+      const kept = join(testDir, 'kept.txt');
+      const copy = join(testDir, 'copy.txt');
+      writeFileSync(kept, 'same content');
+      writeFileSync(copy, 'same content');
+
+      const result = await executor.link(copy, kept, 'hard');
+      expect(result.success).toBe(true);
+      expect(result.saved).toBe(12);
+      expect(statSync(copy).ino).toBe(statSync(kept).ino);
+      expect(executor.getHistory(1)[0].type).toBe('link');
+
+      const undoResult = await executor.undo(result.operationId!);
+      expect(undoResult).toBe(true);
+      expect(statSync(copy).ino).not.toBe(statSync(kept).ino);
+      expect(statSync(kept).nlink).toBe(1);
+      expect(readFileSync(copy, 'utf-8')).toBe('same content');
+    });
+
+    it('should turn a symlink back into a file on undo', async () => {
+      const kept = join(testDir, 'kept.txt');
+      const copy = join(testDir, 'copy.txt');
+      writeFileSync(kept, 'same content');
+      writeFileSync(copy, 'same content');
+
+      const result = await executor.link(copy, kept, 'symlink');
+      expect(result.success).toBe(true);
+      expect(lstatSync(copy).isSymbolicLink()).toBe(true);
+
+      await executor.undo(result.operationId!);
+      expect(lstatSync(copy).isSymbolicLink()).toBe(false);
+      expect(readFileSync(copy, 'utf-8')).toBe('same content');
+    });
+
+    it('should leave a file that changed since it was found as a duplicate', async () => {
+      const kept = join(testDir, 'kept.txt');
+      const copy = join(testDir, 'copy.txt');
+      writeFileSync(kept, 'same content');
+      writeFileSync(copy, 'edited text!');
+
+      const result = await executor.link(copy, kept, 'hard');
+      expect(result.success).toBe(false);
+      expect(result.error).toBe('Files differ in content');
+      expect(statSync(copy).ino).not.toBe(statSync(kept).ino);
+      expect(readFileSync(copy, 'utf-8')).toBe('edited text!');
+      expect(executor.getHistory(1)).toEqual([]);
+    });
+  });
+
+  describe('action chains', () => {
+    const chain = (source: string) => ({
+      file: { path: source, filename: 'scan.pdf' } as any,
+      destination: join(testDir, 'docs', 'renamed.pdf'),
+      ruleName: 'Chain',
+      confidence: 0.9,
+      action: 'move' as const,
+      requiresConfirmation: false,
+      steps: [
+        { type: 'rename' as const, destination: join(testDir, 'renamed.pdf'), newName: 'renamed.pdf', requiresConfirmation: false },
+        { type: 'copy' as const, destination: join(testDir, 'backup', 'renamed.pdf'), requiresConfirmation: false },
+        { type: 'move' as const, destination: join(testDir, 'docs', 'renamed.pdf'), requiresConfirmation: false },
+      ],
+    });
+
+    it('should run the steps in order and undo them together', async () => {
+      const source = join(testDir, 'scan.pdf');
+      writeFileSync(source, 'test content');
+
+      const result = await executor.execute(chain(source));
+      expect(result.success).toBe(true);
+      expect(result.finalPath).toBe(join(testDir, 'docs', 'renamed.pdf'));
+      expect(existsSync(join(testDir, 'backup', 'renamed.pdf'))).toBe(true);
+
+      const history = executor.getHistory(10);
+      expect(history.map(op => op.type)).toEqual(['move', 'copy', 'rename']);
+
+      // Undoing any operation of the chain reverses all of it
+      const undoResult = await executor.undo(history[0].id);
+      expect(undoResult).toBe(true);
+      expect(existsSync(source)).toBe(true);
+      expect(existsSync(join(testDir, 'backup', 'renamed.pdf'))).toBe(false);
+      expect(existsSync(join(testDir, 'docs', 'renamed.pdf'))).toBe(false);
+
+      // The chain was one decision of the rule, and one undo of it
+      expect(db.getRuleFeedbackCounts()).toEqual([expect.objectContaining({ ruleName: 'Chain', applied: 1, undone: 1 })]);
+      expect(db.getUndoFeedback()).toEqual([{ ruleName: 'Chain', filePath: source, destination: join(testDir, 'docs', 'renamed.pdf') }]);
+    });
+
+    it('should roll back completed steps when a step fails', async () => {
+      const source = join(testDir, 'scan.pdf');
+      writeFileSync(source, 'test content');
+      const suggestion = chain(source);
+      // Copying onto a path below a file fails
+      writeFileSync(join(testDir, 'backup'), 'not a directory');
+
+      const result = await executor.execute(suggestion);
+
+      expect(result.success).toBe(false);
+      expect(existsSync(source)).toBe(true);
+      expect(existsSync(join(testDir, 'renamed.pdf'))).toBe(false);
+      // A rollback says nothing about the rule
+      expect(db.getRuleFeedbackCounts()[0]).toMatchObject({ undone: 0 });
+    });
+  });
+
+  describe('executeBatch', () => {
+    const moveTo = (source: string, dest: string) => ({
+      file: { path: source, filename: 'file.txt' } as any,
+      destination: dest,
+      ruleName: 'Test',
+      confidence: 0.9,
+      action: 'move' as const,
+      requiresConfirmation: false,
+    });
+
+    // Batch left behind by a process that has exited
+    const createOrphanedBatch = () => db.createBatch(spawnSync(process.execPath, ['-e', '']).pid);
+
+    it('should commit when every action succeeds', async () => {
+      const source = join(testDir, 'source.txt');
+      writeFileSync(source, 'content');
+
+      const batch = await executor.executeBatch([moveTo(source, join(testDir, 'dest.txt'))]);
+
+      expect(batch.success).toBe(true);
+      expect(db.getPendingBatches()).toEqual([]);
+      expect(db.getBatchOperations(batch.batchId).length).toBe(1);
+    });
+
+    it('should roll back completed actions when one fails', async () => {
+      const source1 = join(testDir, 'source1.txt');
+      const source2 = join(testDir, 'source2.txt');
+      writeFileSync(source1, 'content1');
+      writeFileSync(source2, 'content2');
+
+      const batch = await executor.executeBatch([
+        moveTo(source1, join(testDir, 'dest1.txt')),
+        { ...moveTo(source2, join(testDir, 'copy2.txt')), action: 'copy' as const },
+        moveTo(join(testDir, 'missing.txt'), join(testDir, 'dest3.txt')),
+      ]);
+
+      expect(batch.success).toBe(false);
+      expect(batch.rolledBack).toBe(2);
+      expect(existsSync(source1)).toBe(true);
+      expect(existsSync(join(testDir, 'dest1.txt'))).toBe(false);
+      expect(existsSync(join(testDir, 'copy2.txt'))).toBe(false);
+      // Nothing of the batch stayed applied
+      expect(db.getRuleFeedbackCounts()).toEqual([]);
+    });
+
+    it('should roll back a batch interrupted before it finished', async () => {
+      const source = join(testDir, 'source.txt');
+      const dest = join(testDir, 'dest.txt');
+      writeFileSync(dest, 'content');
+
+      // State left behind by a crash: the move happened, the batch never finished
+      const batchId = createOrphanedBatch();
+      db.insertOperation({ type: 'move', source, destination: dest, ruleName: null, confidence: null, batchId });
+
+      const recovered = await executor.recoverPendingBatches();
+
+      expect(recovered).toEqual({ recovered: 1, failed: 0 });
+      expect(existsSync(source)).toBe(true);
+      expect(existsSync(dest)).toBe(false);
+      expect(db.getPendingBatches()).toEqual([]);
+    });
+
+    it('should leave a batch alone while its process is running', async () => {
+      const source = join(testDir, 'source.txt');
+      const dest = join(testDir, 'dest.txt');
+      writeFileSync(dest, 'content');
+
+      // Another sortora process is in the middle of this batch
+      const batchId = db.createBatch(process.ppid);
+      db.insertOperation({ type: 'move', source, destination: dest, ruleName: null, confidence: null, batchId });
+
+      expect(await executor.recoverPendingBatches()).toEqual({ recovered: 0, failed: 0 });
+      expect(existsSync(dest)).toBe(true);
+      expect(db.getPendingBatches().map(batch => batch.id)).toEqual([batchId]);
+    });
+
+    it('should journal each step on disk before running it', async () => {
+      const source = join(testDir, 'source.txt');
+      writeFileSync(source, 'content');
+
+      // What the journal on disk says at each flush
+      const saved: { moved: boolean; pending: number }[] = [];
+      const flush = db.flush.bind(db);
+      vi.spyOn(db, 'flush').mockImplementation(() => {
+        saved.push({ moved: !existsSync(source), pending: db.getOperations().filter(op => op.pending).length });
+        flush();
+      });
+
+      const batch = await executor.executeBatch([moveTo(source, join(testDir, 'dest.txt'))]);
+
+      expect(saved).toContainEqual({ moved: false, pending: 1 });
+      expect(saved[saved.length - 1]).toEqual({ moved: true, pending: 0 });
+      expect(db.getBatchOperations(batch.batchId)[0].destination).toBe(join(testDir, 'dest.txt'));
+    });
+
+    it('should only undo the interrupted step if its change happened', async () => {
+      const moved = join(testDir, 'moved.txt');
+      const untouched = join(testDir, 'untouched.txt');
+      writeFileSync(join(testDir, 'Done.txt'), 'content');
+      writeFileSync(untouched, 'content');
+
+      // A crash left two pending steps: one moved its file, one didn't start
+      const batchId = createOrphanedBatch();
+      const base = { ruleName: null, confidence: null, batchId, pending: true };
+      db.insertOperation({ ...base, type: 'move', source: moved, destination: join(testDir, 'Done.txt') });
+      const notRun = db.insertOperation({ ...base, type: 'move', source: untouched, destination: join(testDir, 'Later.txt') });
+
+      await executor.recoverPendingBatches();
+
+      expect(readFileSync(moved, 'utf-8')).toBe('content');
+      expect(existsSync(untouched)).toBe(true);
+      expect(db.getOperation(notRun)).toBeNull();
+      expect(db.getBatchOperations(batchId).map(op => op.undoneAt !== null)).toEqual([true]);
+    });
+
+    it('should restore a file whose delete was interrupted', async () => {
+      const source = join(testDir, 'old.txt');
+      const originalDataHome = process.env.XDG_DATA_HOME;
+      process.env.XDG_DATA_HOME = join(testDir, 'data');
+
+      try {
+        // The trash path is journaled before the file goes there
+        const seen: (string | null)[] = [];
+        vi.spyOn(db, 'flush').mockImplementation(() => {
+          seen.push(...db.getOperations().filter(op => op.pending).map(op => op.destination));
+        });
+        writeFileSync(source, 'content');
+        await executor.executeBatch([{ ...moveTo(source, ''), action: 'delete' as const }]);
+
+        const [trashed] = db.getOperations();
+        expect(seen).toEqual([trashed.destination]);
+        expect(trashed.destination).toContain(join(testDir, 'data', 'Trash', 'files'));
+
+        // A crash right after the move left the step pending
+        const batchId = createOrphanedBatch();
+        db.insertOperation({ type: 'delete', source, destination: trashed.destination, ruleName: null, confidence: null, batchId, pending: true });
+
+        expect(await executor.recoverPendingBatches()).toEqual({ recovered: 1, failed: 0 });
+        expect(readFileSync(source, 'utf-8')).toBe('content');
+      } finally {
+        process.env.XDG_DATA_HOME = originalDataHome;
+        if (originalDataHome === undefined) {
+          delete process.env.XDG_DATA_HOME;
+        }
+      }
+    });
+
+    it('should report a batch that could not be rolled back as failed', async () => {
+      // A permanent delete can't be undone
+      const batchId = createOrphanedBatch();
+      db.insertOperation({ type: 'delete', source: join(testDir, 'gone.txt'), destination: null, ruleName: null, confidence: null, batchId });
+
+      expect(await executor.recoverPendingBatches()).toEqual({ recovered: 0, failed: 1 });
+      expect(db.getPendingBatches()).toEqual([]);
+    });
+  });
+
+  describe('sessions', () => {
+    it('should record operations under the session and undo them together', async () => {
+      const sessionId = db.startSession({ command: 'organize', path: testDir });
+      const sessionExecutor = new Executor(db, { sessionId });
+
+      for (const name of ['a.txt', 'b.txt']) {
+        const source = join(testDir, name);
+        writeFileSync(source, name);
+        await sessionExecutor.execute({
+          file: { path: source, filename: name } as any,
+          destination: join(testDir, 'out', name),
+          ruleName: 'Test',
+          confidence: 0.9,
+          action: 'move',
+          requiresConfirmation: false,
+        });
+      }
+      db.finishSession(sessionId, { filesTotal: 2, succeeded: 2, failed: 0, skipped: 0 });
+
+      const [session] = db.getSessions();
+      expect(session).toMatchObject({ id: sessionId, command: 'organize', succeeded: 2, operationCount: 2 });
+
+      for (const op of db.getSessionOperations(sessionId)) {
+        await executor.undo(op.id);
+      }
+
+      expect(existsSync(join(testDir, 'a.txt'))).toBe(true);
+      expect(existsSync(join(testDir, 'b.txt'))).toBe(true);
+      expect(db.getSession(sessionId)?.undoneCount).toBe(2);
+    });
+  });
+
   describe('executeMany', () => {
     it('should execute multiple operations sequentially', async () => {
       const source1 = join(testDir, 'source1.txt');
@@ -0,0 +1,125 @@
+import { describe, it, expect, beforeEach, afterEach } from 'vitest';
+import { join, basename, resolve } from 'path';
+import { mkdirSync, writeFileSync, rmSync, existsSync } from 'fs';
+import { tmpdir } from 'os';
+import { execFile } from 'child_process';
+import { promisify } from 'util';
+import { Inbox } from '../src/core/inbox';
+import { Database } from '../src/storage/database';
+import type { Suggestion } from '../src/core/suggester';
+import type { Analyzer, FileAnalysis } from '../src/core/analyzer';
+
+describe('inbox', () => {
+  const testDir = join(tmpdir(), 'sortora-inbox-test-' + Date.now());
+  let db: Database;
+  let inbox: Inbox;
+
+  const analyze = async (path: string): Promise<FileAnalysis> => ({
+    path,
+    filename: basename(path),
+    extension: 'pdf',
+    size: 12,
+    created: new Date(),
+    modified: new Date(),
+    accessed: new Date(),
+    mimeType: 'application/pdf',
+    category: 'document' as FileAnalysis['category'],
+  });
+
+  const suggest = async (filename: string, destination: string): Promise<Suggestion> => {
+    const path = join(testDir, filename);
+    writeFileSync(path, 'test content');
+    return {
+      file: await analyze(path),
+      destination: join(testDir, destination, filename),
+      ruleName: 'Documents',
+      confidence: 0.9,
+      action: 'move',
+      requiresConfirmation: true,
+    };
+  };
+
+  beforeEach(async () => {
+    mkdirSync(testDir, { recursive: true });
+    db = new Database(join(testDir, 'test.db'));
+    await db.init();
+    inbox = new Inbox(db, { analyze } as unknown as Analyzer);
+  });
+
+  afterEach(() => {
+    db.close();
+    if (existsSync(testDir)) {
+      rmSync(testDir, { recursive: true, force: true });
+    }
+  });
+
+  it('should keep one pending suggestion per file and expire stale ones', async () => {
+    inbox.add(await suggest('report.pdf', 'Old'));
+    inbox.add(await suggest('report.pdf', 'Documents'));
+    inbox.add(await suggest('notes.txt', 'Documents'));
+
+    const entries = inbox.list();
+    expect(entries).toHaveLength(2);
+    expect(entries.find(e => e.path.endsWith('report.pdf'))!.destination).toBe(join(testDir, 'Documents', 'report.pdf'));
+
+    rmSync(join(testDir, 'notes.txt'));
+    expect(inbox.list().map(e => e.path)).toEqual([join(testDir, 'report.pdf')]);
+    expect(db.getInboxEntries()).toHaveLength(1);
+  });
+
+  it('should apply accepted and edited suggestions and forget rejected ones', async () => {
+    inbox.add(await suggest('a.pdf', 'Documents'));
+    inbox.add(await suggest('b.pdf', 'Documents'));
+    inbox.add(await suggest('c.pdf', 'Documents'));
+    const [a, b, c] = inbox.list();
+
+    expect((await inbox.accept(a)).success).toBe(true);
+    expect(existsSync(join(testDir, 'Documents', 'a.pdf'))).toBe(true);
+
+    const edited = await inbox.accept(b, join(testDir, 'Elsewhere', 'b.pdf'));
+    expect(edited.finalPath).toBe(join(testDir, 'Elsewhere', 'b.pdf'));
+
+    inbox.reject(c);
+    expect(existsSync(join(testDir, 'c.pdf'))).toBe(true);
+
+    expect(inbox.list()).toHaveLength(0);
+    const counts = db.getRuleFeedbackCounts().find(r => r.ruleName === 'Documents')!;
+    expect(counts).toMatchObject({ accepted: 1, modified: 1, rejected: 1, applied: 2 });
+  });
+
+  it('should keep what the inbox command did while the daemon is running', async () => {
+    inbox.add(await suggest('a.pdf', 'Documents'));
+    inbox.add(await suggest('b.pdf', 'Documents'));
+    db.flush();
+
+    // "sortora inbox accept" and "reject" run in their own process
+    const script = join(testDir, 'inbox-command.mts');
+    writeFileSync(script, [
+      `import { basename } from 'path';`,
+      `import { Database } from ${JSON.stringify(resolve('src/storage/database.ts'))};`,
+      `import { Inbox } from ${JSON.stringify(resolve('src/core/inbox.ts'))};`,
+      `const db = new Database(${JSON.stringify(join(testDir, 'test.db'))});`,
+      'await db.init();',
+      'const analyze = async (path) => ({ path, filename: basename(path), extension: \'pdf\', size: 12,',
+      '  created: new Date(), modified: new Date(), accessed: new Date(), mimeType: \'application/pdf\', category: \'document\' });',
+      'const inbox = new Inbox(db, { analyze });',
+      'const [a, b] = inbox.list();',
+      'await inbox.accept(a);',
+      'inbox.reject(b);',
+      'db.close();',
+    ].join('\n'));
+    await promisify(execFile)(process.execPath, ['--import', 'tsx', script]);
+
+    // The daemon keeps adding suggestions on its open connection
+    expect(inbox.list()).toHaveLength(0);
+    inbox.add(await suggest('c.pdf', 'Documents'));
+    db.close();
+
+    db = new Database(join(testDir, 'test.db'));
+    await db.init();
+    expect(db.getInboxEntries().map(e => basename(e.path))).toEqual(['c.pdf']);
+    expect(db.getOperations().map(op => basename(op.source))).toEqual(['a.pdf']);
+    const counts = db.getRuleFeedbackCounts().find(r => r.ruleName === 'Documents')!;
+    expect(counts).toMatchObject({ accepted: 1, rejected: 1 });
+  });
+});
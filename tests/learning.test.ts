@@ -0,0 +1,201 @@
+import { describe, it, expect, beforeEach, afterEach } from 'vitest';
+import { join } from 'path';
+import { mkdirSync, rmSync, existsSync, writeFileSync } from 'fs';
+import { tmpdir } from 'os';
+import { Database } from '../src/storage/database';
+import { PatternTracker } from '../src/learning/pattern-tracker';
+import { FeedbackHandler, computeRuleAccuracy } from '../src/learning/feedback';
+import { RuleSuggester } from '../src/learning/rule-suggester';
+import { RuleEngine } from '../src/core/rule-engine';
+import { Suggester, type Suggestion } from '../src/core/suggester';
+import { undoOperation } from '../src/actions/undo';
+import type { FileAnalysis } from '../src/core/analyzer';
+import type { Config } from '../src/config';
+
+describe('Learning', () => {
+  const testDir = join(tmpdir(), 'sortora-learning-test-' + Date.now());
+  let db: Database;
+  let tracker: PatternTracker;
+
+  const config = {
+    settings: { mode: 'suggest', confirmDestructive: true, ignoreHidden: true, ignorePatterns: [] },
+    destinations: {},
+    rules: [],
+  } as unknown as Config;
+
+  const createFile = (filename: string): FileAnalysis => ({
+    path: join(testDir, 'inbox', filename),
+    filename,
+    extension: 'xyz',
+    size: 100,
+    created: new Date(),
+    modified: new Date(),
+    accessed: new Date(),
+    mimeType: null,
+    category: 'other' as FileAnalysis['category'],
+  });
+
+  const suggestionFor = (file: FileAnalysis): Suggestion => ({
+    file,
+    destination: join(testDir, 'inbox', 'Rule', file.filename),
+    ruleName: 'Some rule',
+    confidence: 0.8,
+    action: 'move',
+    requiresConfirmation: false,
+  });
+
+  beforeEach(async () => {
+    mkdirSync(testDir, { recursive: true });
+    db = new Database(join(testDir, 'test.db'));
+    await db.init();
+    tracker = new PatternTracker(db);
+  });
+
+  afterEach(() => {
+    db.close();
+    if (existsSync(testDir)) {
+      rmSync(testDir, { recursive: true, force: true });
+    }
+  });
+
+  it('should suggest destinations learned from corrected suggestions', () => {
+    const feedback = new FeedbackHandler(db, tracker);
+    const corrected = join(testDir, 'inbox', 'Models');
+
+    for (const name of ['a.xyz', 'b.xyz', 'c.xyz', 'e.xyz']) {
+      const file = createFile(name);
+      feedback.recordFeedback(suggestionFor(file), 'modify', join(corrected, name));
+    }
+
+    const suggester = new Suggester(new RuleEngine(config), config, tracker);
+    const suggestion = suggester.generateSuggestion(createFile('d.xyz'), { baseDir: join(testDir, 'inbox') });
+
+    expect(suggestion?.learned).toBeDefined();
+    expect(suggestion?.destination).toBe(join(corrected, 'd.xyz'));
+  });
+
+  it('should not learn from rejected suggestions', () => {
+    const feedback = new FeedbackHandler(db, tracker);
+
+    for (const name of ['a.xyz', 'b.xyz', 'c.xyz', 'e.xyz']) {
+      feedback.recordFeedback(suggestionFor(createFile(name)), 'reject');
+    }
+
+    const suggester = new Suggester(new RuleEngine(config), config, tracker);
+    expect(suggester.generateSuggestion(createFile('d.xyz'))).toBeNull();
+  });
+
+  it('should keep learned destinations inside the directory in local mode', () => {
+    for (const name of ['a.xyz', 'b.xyz', 'c.xyz', 'e.xyz']) {
+      tracker.trackMove(createFile(name), join('/elsewhere/Models', name));
+    }
+
+    const suggester = new Suggester(new RuleEngine(config), config, tracker);
+
+    expect(suggester.generateSuggestion(createFile('d.xyz'), { baseDir: join(testDir, 'inbox') })).toBeNull();
+    expect(suggester.generateSuggestion(createFile('d.xyz'))?.destination).toBe('/elsewhere/Models/d.xyz');
+  });
+
+  it('should suggest rules with evidence and forget dismissed candidates', () => {
+    const dest = join(testDir, 'Shots');
+
+    for (const name of ['Screenshot 1.png', 'Screenshot 2.png', 'Screenshot 3.png', 'Screenshot 4.png']) {
+      const file = { ...createFile(name), extension: 'png' };
+      tracker.trackMove(file, join(dest, name));
+      db.insertOperation({ type: 'move', source: file.path, destination: join(dest, name), ruleName: null, confidence: 1 });
+    }
+
+    const suggester = new RuleSuggester(tracker, config);
+    const [candidate] = suggester.suggestRules(0.6);
+
+    expect(candidate.rule.match.extension).toEqual(['png']);
+    expect(candidate.rule.match.filenameRegex).toBe('^(Screenshot|Screen Shot|Снимок|Capture)');
+    expect(candidate.rule.match.filename).toBeUndefined();
+    expect(candidate.rule.action.moveTo).toBe(dest);
+
+    const filenamePattern = candidate.basedOn.find(p => p.type === 'filename')!;
+    expect(tracker.getEvidence(filenamePattern)).toHaveLength(3);
+
+    for (const pattern of candidate.basedOn) {
+      tracker.dismissPattern(pattern);
+    }
+    expect(suggester.suggestRules(0.6)).toHaveLength(0);
+  });
+
+  it('should clear old patterns at most once per interval', () => {
+    const old = Math.floor(Date.now() / 1000) - 120 * 24 * 60 * 60;
+    db.insertPattern({ type: 'extension', pattern: '.old', destination: '/old', occurrences: 1, lastUsed: old });
+
+    expect(tracker.cleanupIfDue()).toBe(1);
+    expect(db.getPatterns()).toHaveLength(0);
+
+    db.insertPattern({ type: 'extension', pattern: '.old', destination: '/old', occurrences: 1, lastUsed: old });
+    expect(tracker.cleanupIfDue()).toBeNull();
+  });
+
+  it('should store feedback per rule and demote inaccurate rules', () => {
+    const feedback = new FeedbackHandler(db, tracker);
+
+    for (const name of ['a.xyz', 'b.xyz', 'c.xyz', 'd.xyz']) {
+      feedback.recordFeedback(suggestionFor(createFile(name)), 'reject');
+    }
+    feedback.recordFeedback(suggestionFor(createFile('e.xyz')), 'accept');
+    const opId = db.insertOperation({ type: 'move', source: 'e.xyz', destination: 'Rule/e.xyz', ruleName: 'Some rule', confidence: 0.8 });
+    db.markOperationUndone(opId);
+    db.insertRuleFeedback({ ruleName: 'Some rule', type: 'undo', filePath: 'e.xyz', destination: 'Rule/e.xyz' });
+
+    const [rule] = new FeedbackHandler(db, tracker).getRuleAccuracy();
+    expect(rule).toMatchObject({ ruleName: 'Some rule', accepted: 1, rejected: 4, applied: 1, undone: 1, samples: 5 });
+    expect(rule.acceptanceRate).toBeCloseTo(0.2);
+    expect(rule.undoRate).toBe(1);
+    expect(rule.accuracy).toBe(0);
+
+    expect(feedback.getDemotedRules(0.5, 5).has('Some rule')).toBe(true);
+    expect(feedback.getDemotedRules(0.5, 6).size).toBe(0);
+  });
+
+  it('should treat missing rates as neutral', () => {
+    const accuracy = computeRuleAccuracy({
+      ruleName: 'Auto only', accepted: 0, rejected: 0, modified: 0, skipped: 0, applied: 10, undone: 1,
+    });
+
+    expect(accuracy.acceptanceRate).toBeNull();
+    expect(accuracy.accuracy).toBeCloseTo(0.9);
+  });
+
+  it('should treat undone moves as negative feedback', async () => {
+    const dest = join(testDir, 'inbox', 'Models');
+    mkdirSync(dest, { recursive: true });
+
+    for (const name of ['a.xyz', 'b.xyz', 'c.xyz', 'e.xyz']) {
+      tracker.trackMove(createFile(name), join(dest, name));
+    }
+
+    const suggester = new Suggester(new RuleEngine(config), config, tracker);
+    expect(suggester.generateSuggestion(createFile('d.xyz'))?.learned).toBeDefined();
+
+    const undoMoveOf = async (name: string) => {
+      writeFileSync(join(dest, name), 'x');
+      const id = db.insertOperation({
+        type: 'move', source: createFile(name).path, destination: join(dest, name), ruleName: 'Some rule', confidence: 0.8,
+      });
+      expect((await undoOperation(db, id)).success).toBe(true);
+    };
+
+    // The learned destination loses weight right away
+    await undoMoveOf('f.xyz');
+    expect(suggester.generateSuggestion(createFile('d.xyz'))).toBeNull();
+    expect(tracker.isSuppressed('Some rule', dest)).toBe(false);
+
+    // The rule is only dropped after repeated undos
+    await undoMoveOf('g.xyz');
+    expect(tracker.isSuppressed('Some rule', dest)).toBe(true);
+    expect(new FeedbackHandler(db, tracker).getRuleAccuracy()[0]).toMatchObject({ applied: 2, undone: 2 });
+
+    // Undos into subfolders or by other rules don't count
+    expect(db.countUndoneFiles('Some rule', dest)).toBe(2);
+    db.insertRuleFeedback({ ruleName: 'Some rule', type: 'undo', filePath: 'h.xyz', destination: join(dest, 'Old', 'h.xyz') });
+    db.insertRuleFeedback({ ruleName: 'Other rule', type: 'undo', filePath: 'i.xyz', destination: join(dest, 'i.xyz') });
+    expect(db.countUndoneFiles('Some rule', dest)).toBe(2);
+  });
+});
@@ -0,0 +1,438 @@
+import { describe, it, expect } from 'vitest';
+import { RuleEngine } from '../src/core/rule-engine';
+import { Suggester } from '../src/core/suggester';
+import { matchFile } from '../src/rules/matcher';
+import { parseRulesFromYaml, parseRulesFile, saveRulesFileRules } from '../src/rules/parser';
+import { runRuleTests } from '../src/rules/testing';
+import { lintRules } from '../src/rules/linter';
+import { computeCoverage } from '../src/rules/coverage';
+import { getPreset, getPresetRules, findPresetConflicts } from '../src/rules/presets/index';
+import { mkdtempSync, writeFileSync, readFileSync, rmSync } from 'fs';
+import { tmpdir } from 'os';
+import { join } from 'path';
+import type { FileAnalysis } from '../src/core/analyzer';
+import type { Config } from '../src/config';
+
+describe('RuleEngine', () => {
+  const createConfig = (rules: Config['rules'] = []): Config => ({
+    version: 1,
+    settings: {
+      mode: 'suggest',
+      confirmDestructive: true,
+      ignoreHidden: true,
+      ignorePatterns: [],
+    },
+    ai: {
+      provider: 'local',
+      openai: { model: 'gpt-4o-mini' },
+      anthropic: { model: 'claude-3-haiku-20240307' },
+      gemini: { model: 'gemini-1.5-flash' },
+      ollama: { baseUrl: 'http://localhost:11434', model: 'llama3.2' },
+    },
+    destinations: {
+      documents: '/home/user/Documents',
+      finance: '/home/user/Documents/Finance',
+    },
+    rules,
+  });
+
+  const createMockFile = (overrides: Partial<FileAnalysis> = {}): FileAnalysis => ({
+    path: '/home/user/Downloads/scan.pdf',
+    filename: 'scan.pdf',
+    extension: 'pdf',
+    size: 1024,
+    created: new Date(),
+    modified: new Date(),
+    accessed: new Date(),
+    mimeType: 'application/pdf',
+    category: 'document',
+    ...overrides,
+  });
+
+  describe('boolean groups', () => {
+    const invoiceRule = {
+      name: 'Invoices (content)',
+      priority: 200,
+      match: {
+        extension: ['pdf'],
+        any: [
+          { contentContains: ['invoice'] },
+          { filename: ['*счет*'] },
+        ],
+        not: { location: '/home/user/Archive' },
+      },
+      action: {
+        moveTo: '/home/user/Documents/Finance/',
+      },
+    };
+
+    it('should match when one branch of any matches', () => {
+      const engine = new RuleEngine(createConfig([invoiceRule]));
+      const file = createMockFile({ textContent: 'INVOICE #42, total: 100' });
+
+      const match = engine.match(file, { useGlobalDestinations: true });
+
+      expect(match?.rule.name).toBe('Invoices (content)');
+      expect(match?.confidence).toBe(1);
+    });
+
+    it('should report which branch matched', () => {
+      const engine = new RuleEngine(createConfig([invoiceRule]));
+      const file = createMockFile({ filename: 'счет_март.pdf', path: '/home/user/Downloads/счет_март.pdf' });
+
+      const match = engine.match(file);
+      const anyGroup = match?.trace?.find(t => t.condition === 'any');
+
+      expect(anyGroup?.matched).toBe(true);
+      expect(anyGroup?.children?.map(c => c.matched)).toEqual([false, true]);
+    });
+
+    it('should not match when no branch of any matches', () => {
+      const engine = new RuleEngine(createConfig([invoiceRule]));
+      const file = createMockFile({ textContent: 'meeting notes' });
+
+      const match = engine.match(file);
+
+      expect(match?.rule.name).not.toBe('Invoices (content)');
+    });
+
+    it('should exclude files matched by not', () => {
+      const engine = new RuleEngine(createConfig([invoiceRule]));
+      const file = createMockFile({
+        path: '/home/user/Archive/2023/scan.pdf',
+        textContent: 'Invoice',
+      });
+
+      const match = engine.match(file);
+
+      expect(match?.rule.name).not.toBe('Invoices (content)');
+    });
+
+    it('should make soft conditions decisive inside all', () => {
+      const rule = {
+        name: 'Old PDFs',
+        priority: 200,
+        match: {
+          extension: ['pdf'],
+          all: [{ age: '> 30 days' }],
+        },
+        action: { moveTo: '/home/user/Archive/' },
+      };
+      const engine = new RuleEngine(createConfig([rule]));
+
+      const fresh = engine.match(createMockFile());
+      const old = engine.match(createMockFile({ modified: new Date(Date.now() - 60 * 24 * 60 * 60 * 1000) }));
+
+      expect(fresh?.rule.name).not.toBe('Old PDFs');
+      expect(old?.rule.name).toBe('Old PDFs');
+    });
+
+    it('should average branch confidence for all groups', () => {
+      const result = matchFile(createMockFile({ textContent: 'report' }), {
+        name: 'test',
+        priority: 50,
+        enabled: true,
+        match: {
+          all: [
+            { extension: ['pdf'], contentContains: ['invoice'] },
+            { type: 'document' },
+          ],
+        },
+        action: {},
+      });
+
+      expect(result.matched).toBe(true);
+      expect(result.confidence).toBe(0.75);
+    });
+  });
+
+  describe('unified pipeline', () => {
+    const rule = (overrides: Record<string, unknown> = {}) => ({
+      name: 'Big scans',
+      priority: 200,
+      enabled: true,
+      match: { extension: ['pdf'], minSize: '1MB' },
+      action: { moveTo: '{destinations.documents}/Scans/' },
+      ...overrides,
+    });
+
+    it('should treat size limits as required', () => {
+      const engine = new RuleEngine(createConfig([rule()]));
+
+      const small = engine.match(createMockFile(), { useGlobalDestinations: true });
+      const big = engine.match(createMockFile({ size: 5 * 1024 * 1024 }), { useGlobalDestinations: true });
+
+      expect(small?.rule.name).not.toBe('Big scans');
+      expect(big?.rule.name).toBe('Big scans');
+      expect(big?.action?.destination).toBe('/home/user/Documents/Scans/scan.pdf');
+    });
+
+    it('should skip disabled rules', () => {
+      const engine = new RuleEngine(createConfig([rule({ enabled: false })]));
+
+      const match = engine.match(createMockFile({ size: 5 * 1024 * 1024 }));
+
+      expect(match?.rule.name).not.toBe('Big scans');
+    });
+
+    it('should let rules.yaml override config rules and destinations', () => {
+      const engine = new RuleEngine(createConfig([rule()]), {
+        version: 1,
+        destinations: { documents: '/data/docs' },
+        rules: [rule({ action: { copyTo: '{destinations.documents}/' } })],
+      });
+
+      const match = engine.match(createMockFile({ size: 5 * 1024 * 1024 }), { useGlobalDestinations: true });
+
+      expect(match?.action).toMatchObject({ type: 'copy', destination: '/data/docs/scan.pdf' });
+    });
+
+    it('should resolve rename and tag actions', () => {
+      const engine = new RuleEngine(createConfig([
+        rule({ name: 'Rename', action: { rename: '{year}-{filename}' } }),
+        rule({ name: 'Tag', priority: 150, match: { extension: ['pdf'] }, action: { tag: ['scan', 'inbox'] } }),
+      ]));
+      const file = createMockFile({ size: 5 * 1024 * 1024, modified: new Date(2024, 2, 1) });
+
+      const [rename, tag] = engine.matchAll(file);
+
+      expect(rename.action).toMatchObject({ type: 'rename', destination: '/home/user/Downloads/2024-scan.pdf' });
+      expect(tag.action).toMatchObject({ type: 'tag', tags: ['scan', 'inbox'] });
+    });
+  });
+
+  describe('regex and path matching', () => {
+    it('should expose named regex groups as {match.<name>}', () => {
+      const engine = new RuleEngine(createConfig([{
+        name: 'Vendor invoices',
+        priority: 200,
+        enabled: true,
+        match: { filenameRegex: '^Invoice_(?<vendor>[A-Z]+)_(?<year>\\d{4})-(?<month>\\d{2})\\.pdf$' },
+        action: { moveTo: '{destinations.finance}/{match.vendor}/{match.year}/{match.month}/' },
+      }]));
+      const file = createMockFile({
+        path: '/home/user/Downloads/Invoice_ACME_2024-03.pdf',
+        filename: 'Invoice_ACME_2024-03.pdf',
+      });
+
+      const match = engine.match(file, { useGlobalDestinations: true });
+
+      expect(match?.action?.destination).toBe('/home/user/Documents/Finance/ACME/2024/03/Invoice_ACME_2024-03.pdf');
+    });
+
+    it('should match full paths with ** and respect case sensitivity', () => {
+      const rule = (caseSensitive: boolean) => ({
+        name: 'Project exports',
+        priority: 200,
+        enabled: true,
+        match: { pathGlob: ['/home/*/Projects/**/export/*.csv'], caseSensitive },
+        action: { moveTo: '/exports/' },
+      });
+      const file = (path: string) => createMockFile({ path, filename: path.split('/').pop()!, extension: 'csv' });
+
+      const insensitive = new RuleEngine(createConfig([rule(false)]));
+      const sensitive = new RuleEngine(createConfig([rule(true)]));
+
+      expect(insensitive.match(file('/home/user/Projects/a/b/export/data.csv'))?.rule.name).toBe('Project exports');
+      expect(insensitive.match(file('/home/user/Projects/export/data.csv'))?.rule.name).toBe('Project exports');
+      expect(insensitive.match(file('/home/user/Projects/a/data.csv'))?.rule.name).not.toBe('Project exports');
+      expect(insensitive.match(file('/home/user/projects/x/EXPORT/data.CSV'))?.rule.name).toBe('Project exports');
+      expect(sensitive.match(file('/home/user/projects/x/EXPORT/data.CSV'))?.rule.name).not.toBe('Project exports');
+    });
+
+    it('should pass caseSensitive into groups and take captures from the best any branch', () => {
+      const file = createMockFile({ filename: 'REPORT_2024.pdf', path: '/home/user/Downloads/REPORT_2024.pdf' });
+
+      expect(matchFile(file, { match: { caseSensitive: true, any: [{ filename: ['report*'] }] } }).matched).toBe(false);
+      expect(matchFile(file, { match: { caseSensitive: true, not: { filename: ['report*'] } } }).matched).toBe(true);
+      expect(matchFile(file, { match: { all: [{ filename: ['report*'] }] } }).matched).toBe(true);
+
+      const result = matchFile(file, {
+        match: {
+          any: [
+            { filenameRegex: '^(?<kind>[A-Z]+)_', age: '> 1000 days' },
+            { filenameRegex: '^(?<kind>[A-Z]+)_(?<year>\\d{4})' },
+          ],
+        },
+      });
+      expect(result.confidence).toBe(1);
+      expect(result.captures).toEqual({ kind: 'REPORT', year: '2024' });
+    });
+  });
+
+  describe('action chains', () => {
+    it('should resolve each step against the path left by the previous one', () => {
+      const engine = new RuleEngine(createConfig([{
+        name: 'Scan chain',
+        priority: 200,
+        enabled: true,
+        match: { extension: ['pdf'] },
+        action: {},
+        actions: [
+          { rename: '{year}-{filename}' },
+          { tag: ['scan'] },
+          { copyTo: '/backup/' },
+          { moveTo: '{destinations.documents}/' },
+        ],
+      }]));
+      const file = createMockFile({ modified: new Date(2024, 2, 1) });
+
+      const match = engine.match(file, { useGlobalDestinations: true });
+
+      expect(match?.steps?.map(s => s.type)).toEqual(['rename', 'tag', 'copy', 'move']);
+      expect(match?.steps?.[2].destination).toBe('/backup/2024-scan.pdf');
+      expect(match?.action?.destination).toBe('/home/user/Documents/2024-scan.pdf');
+    });
+  });
+
+  describe('rules.yaml tests', () => {
+    const rulesFile = parseRulesFromYaml(`
+rules:
+  - name: Camera photos
+    priority: 200
+    match:
+      extension: [jpg]
+      hasExif: true
+    action:
+      moveTo: "/photos/{exif.year}/"
+tests:
+  - name: photo goes to its year
+    global: true
+    file:
+      name: IMG_0001.jpg
+      size: 2MB
+      metadata:
+        dateTaken: "2021-06-01"
+    expect:
+      rule: Camera photos
+      destination: /photos/2021/IMG_0001.jpg
+  - global: true
+    file:
+      name: IMG_0002.jpg
+      metadata:
+        dateTaken: "2021-06-01"
+    expect:
+      rule: Camera photos
+      destination: /photos/2020/
+`);
+
+    it('should report passing and failing tests', () => {
+      const config = createConfig();
+      const suggester = new Suggester(new RuleEngine(config, rulesFile), config);
+
+      const results = runRuleTests(suggester, rulesFile.tests!);
+
+      expect(results.map(r => r.passed)).toEqual([true, false]);
+      expect(results[1].failures[0]).toContain('expected destination /photos/2020/');
+    });
+  });
+
+  describe('lint', () => {
+    const rule = (name: string, priority: number, match: Record<string, unknown>, action: Record<string, unknown> = { moveTo: '/out/' }) => ({
+      name,
+      priority,
+      enabled: true,
+      match,
+      action,
+    });
+
+    it('should report rules shadowed by a broader earlier rule', () => {
+      const issues = lintRules(createConfig([
+        rule('All PDFs', 300, { extension: ['pdf'] }),
+        rule('Invoice PDFs', 250, { extension: ['pdf'], filename: ['invoice*'] }),
+        rule('Big PDFs', 350, { extension: ['pdf', 'docx'], minSize: '10MB' }),
+      ]));
+
+      const shadowed = issues.filter(i => i.kind === 'shadowed').map(i => i.rule);
+      expect(shadowed).toContain('Invoice PDFs');
+      expect(shadowed).not.toContain('Big PDFs');
+    });
+
+    it('should report bad templates, ages and patterns', () => {
+      const issues = lintRules(createConfig([
+        rule('Broken', 300, {
+          extension: ['.PDF'],
+          filename: ['*.jpg'],
+          age: 'older than a month',
+        }, { moveTo: '{destinations.nowhere}/{yeer}/' }),
+      ]));
+
+      expect(issues.filter(i => i.rule === 'Broken').map(i => i.kind).sort()).toEqual([
+        'impossible-pattern',
+        'impossible-pattern',
+        'invalid-age',
+        'unknown-destination',
+        'unknown-variable',
+      ]);
+    });
+
+    it('should report duplicate names within a file', () => {
+      const issues = lintRules(createConfig([
+        rule('Twice', 300, { extension: ['txt'] }),
+        rule('Twice', 200, { extension: ['md'] }),
+      ]));
+
+      expect(issues.some(i => i.kind === 'duplicate-name' && i.rule === 'Twice')).toBe(true);
+    });
+  });
+
+  describe('coverage', () => {
+    it('should count claimed files, unmatched files, silent rules and overlaps', () => {
+      const engine = new RuleEngine(createConfig([
+        { name: 'PDFs', priority: 300, enabled: true, match: { extension: ['pdf'] }, action: { moveTo: '/pdf/' } },
+        { name: 'Scans', priority: 250, enabled: true, match: { filename: ['scan*'] }, action: { moveTo: '/scans/' } },
+        { name: 'Spreadsheets', priority: 250, enabled: true, match: { extension: ['ods'] }, action: { moveTo: '/sheets/' } },
+      ]));
+
+      const report = computeCoverage(engine, [
+        createMockFile(),
+        createMockFile({ path: '/home/user/Downloads/report.pdf', filename: 'report.pdf' }),
+        createMockFile({ path: '/home/user/Downloads/notes.xyz', filename: 'notes.xyz', extension: 'xyz', category: 'other' as FileAnalysis['category'] }),
+      ]);
+
+      const byName = Object.fromEntries(report.rules.map(r => [r.name, r]));
+      expect(byName['PDFs']).toMatchObject({ claimed: 2, matched: 2 });
+      expect(byName['Scans']).toMatchObject({ claimed: 0, matched: 1 });
+      expect(report.unmatched).toEqual(['/home/user/Downloads/notes.xyz']);
+      expect(report.neverFired).toContain('Spreadsheets');
+      expect(report.neverFired).not.toContain('Scans');
+      expect(report.overlaps[0].rules.slice(0, 2)).toEqual(['PDFs', 'Scans']);
+    });
+  });
+
+  describe('presets', () => {
+    it('should namespace preset rules and find conflicts', () => {
+      const preset = getPreset('downloads')!;
+      const rules = getPresetRules(preset);
+
+      expect(rules.every(r => r.name.startsWith('downloads/'))).toBe(true);
+
+      const conflicts = findPresetConflicts(preset, [
+        { name: 'Screenshots', priority: 10, enabled: true, match: { extension: ['png'] }, action: {} },
+        { name: 'Installers', priority: 100, enabled: true, match: { extension: ['exe'] }, action: {} },
+        { name: 'Notes', priority: 100, enabled: true, match: { extension: ['md'] }, action: {} },
+      ]);
+
+      expect(conflicts).toContainEqual({ presetRule: 'Screenshots', existingRule: 'Screenshots', reason: 'name' });
+      expect(conflicts).toContainEqual({ presetRule: 'Old installers (30+ days)', existingRule: 'Installers', reason: 'priority' });
+      expect(conflicts.some(c => c.existingRule === 'Notes')).toBe(false);
+    });
+
+    it('should save rules without dropping the rest of rules.yaml', () => {
+      const dir = mkdtempSync(join(tmpdir(), 'sortora-rules-'));
+      const file = join(dir, 'rules.yaml');
+      writeFileSync(file, '# my rules\ndestinations:\n  work: ~/Work\nrules: []\ntests: []\n');
+
+      try {
+        saveRulesFileRules(file, getPresetRules(getPreset('desktop')!));
+
+        const saved = parseRulesFile(file);
+        expect(saved.rules.length).toBe(getPreset('desktop')!.rules.length);
+        expect(saved.destinations).toEqual({ work: '~/Work' });
+        expect(readFileSync(file, 'utf-8')).toContain('# my rules');
+      } finally {
+        rmSync(dir, { recursive: true, force: true });
+      }
+    });
+  });
+});
@@ -0,0 +1,85 @@
+import { describe, it, expect, beforeEach, afterEach } from 'vitest';
+import { join } from 'path';
+import { mkdirSync, writeFileSync, rmSync, existsSync, readFileSync } from 'fs';
+import { tmpdir, platform } from 'os';
+import { Executor } from '../src/core/executor';
+import { Database } from '../src/storage/database';
+import { getTrashContents, restoreFromTrash, emptyTrash } from '../src/actions/delete';
+
+describe('trash', () => {
+  const testDir = join(tmpdir(), 'sortora-trash-test-' + Date.now());
+  const originalDataHome = process.env.XDG_DATA_HOME;
+  let db: Database;
+  let executor: Executor;
+
+  beforeEach(async () => {
+    mkdirSync(testDir, { recursive: true });
+    process.env.XDG_DATA_HOME = join(testDir, 'data');
+    db = new Database(join(testDir, 'test.db'));
+    await db.init();
+    executor = new Executor(db);
+  });
+
+  afterEach(() => {
+    db.close();
+    if (originalDataHome === undefined) {
+      delete process.env.XDG_DATA_HOME;
+    } else {
+      process.env.XDG_DATA_HOME = originalDataHome;
+    }
+    if (existsSync(testDir)) {
+      rmSync(testDir, { recursive: true, force: true });
+    }
+  });
+
+  it('should remember trashed files and restore them in a later run', async () => {
+    const file = join(testDir, 'my report.pdf');
+    writeFileSync(file, 'test content');
+
+    const result = await executor.delete(file, true);
+    const trashPath = result.trashInfo!.trashPath;
+
+    if (platform() === 'linux') {
+      const info = readFileSync(join(testDir, 'data/Trash/info', `${trashPath.split('/').pop()}.trashinfo`), 'utf-8');
+      expect(info).toContain('[Trash Info]');
+      expect(info).toContain(`Path=${file.replace(/ /g, '%20')}`);
+      expect(info).toMatch(/DeletionDate=\d{4}-\d\d-\d\dT\d\d:\d\d:\d\d/);
+    }
+
+    // A new database connection, as in the next sortora run
+    db.close();
+    db = new Database(join(testDir, 'test.db'));
+    await db.init();
+
+    const { files } = await getTrashContents(db);
+    expect(files).toHaveLength(1);
+    expect(files[0]).toMatchObject({ originalPath: file, size: 12, operationId: result.operationId });
+
+    const restored = await restoreFromTrash(db, files[0].id);
+    expect(restored.success).toBe(true);
+    expect(readFileSync(file, 'utf-8')).toBe('test content');
+    expect(db.getOperation(result.operationId!)?.undoneAt).not.toBeNull();
+    expect((await getTrashContents(db)).files).toHaveLength(0);
+  });
+
+  it('should only purge entries older than the cutoff', async () => {
+    const old = join(testDir, 'old.txt');
+    const recent = join(testDir, 'recent.txt');
+    writeFileSync(old, 'old');
+    writeFileSync(recent, 'recent');
+
+    const oldResult = await executor.delete(old, true);
+    await executor.delete(recent, true);
+    db.insertTrashEntry({
+      originalPath: old,
+      trashPath: oldResult.trashInfo!.trashPath,
+      deletedAt: Math.floor(Date.now() / 1000) - 40 * 24 * 60 * 60,
+    });
+
+    const result = await emptyTrash(db, { olderThan: new Date(Date.now() - 30 * 24 * 60 * 60 * 1000) });
+
+    expect(result.deleted).toBe(1);
+    expect(existsSync(oldResult.trashInfo!.trashPath)).toBe(false);
+    expect((await getTrashContents(db)).files.map(f => f.originalPath)).toEqual([recent]);
+  });
+});
@@ -0,0 +1,160 @@
+import { describe, it, expect, beforeEach, afterEach, vi } from 'vitest';
+import { join, basename } from 'path';
+import { mkdirSync, writeFileSync, rmSync, existsSync, renameSync, statSync } from 'fs';
+import { tmpdir } from 'os';
+import { Watcher } from '../src/core/watcher';
+import { Inbox } from '../src/core/inbox';
+import { Database } from '../src/storage/database';
+import { hashFile } from '../src/utils/file-hash';
+import type { Analyzer } from '../src/core/analyzer';
+import type { Config } from '../src/config';
+
+// The real analyzer loads the AI models
+vi.mock('../src/core/analyzer', () => ({
+  Analyzer: class {
+    async analyze(path: string) {
+      const stats = statSync(path);
+      return {
+        path,
+        filename: basename(path),
+        extension: 'txt',
+        size: stats.size,
+        created: stats.birthtime,
+        modified: stats.mtime,
+        accessed: stats.atime,
+        mimeType: 'text/plain',
+        category: 'document',
+      };
+    }
+  },
+}));
+
+describe('Watcher', () => {
+  const testDir = join(tmpdir(), 'sortora-watcher-test-' + Date.now());
+  const watchedDir = join(testDir, 'watched');
+  let db: Database;
+  let watcher: Watcher;
+
+  const config = {
+    settings: { mode: 'suggest', confirmDestructive: true, ignoreHidden: true, ignorePatterns: [] },
+    destinations: {},
+    rules: [
+      { name: 'Texts', priority: 200, match: { extension: ['txt'] }, action: { moveTo: join(testDir, 'Texts') + '/' } },
+    ],
+    learning: { demoteBelow: 0.5, minSamples: 5 },
+  } as unknown as Config;
+
+  // A file sortora already knows, with its size and hash recorded
+  const knownFile = async (path: string, content: string) => {
+    writeFileSync(path, content);
+    const stats = statSync(path);
+    db.cacheFullHash(path, stats.size, stats.mtimeMs, await hashFile(path));
+  };
+
+  const events = () => {
+    const seen: { event: string; args: unknown[] }[] = [];
+    for (const event of ['file', 'renamed', 'removed', 'directory', 'directorySkipped', 'directorySuggested', 'suggested'] as const) {
+      watcher.on(event, (...args: unknown[]) => seen.push({ event, args }));
+    }
+    return seen;
+  };
+
+  const waitFor = async (check: () => boolean, timeoutMs: number) => {
+    const started = Date.now();
+    while (!check() && Date.now() - started < timeoutMs) {
+      await new Promise(resolve => setTimeout(resolve, 100));
+    }
+  };
+
+  beforeEach(async () => {
+    mkdirSync(watchedDir, { recursive: true });
+    db = new Database(join(testDir, 'test.db'));
+    await db.init();
+    watcher = new Watcher(db, config, join(testDir, 'models'));
+  });
+
+  afterEach(() => {
+    watcher.stop();
+    db.close();
+    if (existsSync(testDir)) {
+      rmSync(testDir, { recursive: true, force: true });
+    }
+  });
+
+  it('should follow a file renamed by hand when the debounce is long', async () => {
+    await knownFile(join(watchedDir, 'draft.txt'), 'some text');
+    const seen = events();
+    await watcher.start(watchedDir, { debounceMs: 4000 });
+    await new Promise(resolve => setTimeout(resolve, 500));
+
+    renameSync(join(watchedDir, 'draft.txt'), join(watchedDir, 'final.txt'));
+    await waitFor(() => seen.length > 0, 14000);
+
+    expect(seen).toEqual([{ event: 'renamed', args: [join(watchedDir, 'draft.txt'), join(watchedDir, 'final.txt')] }]);
+    expect(db.getFileHashes(join(watchedDir, 'final.txt'))).not.toBeNull();
+  }, 25000);
+
+  it('should recognize a folder moved by hand instead of handling it as new', async () => {
+    const album = join(watchedDir, 'album');
+    mkdirSync(album);
+    mkdirSync(join(watchedDir, 'Trips'));
+    await knownFile(join(album, 'a.txt'), 'first');
+    await knownFile(join(album, 'b.txt'), 'second');
+    const seen = events();
+    await watcher.start(watchedDir, { debounceMs: 3000 });
+    await new Promise(resolve => setTimeout(resolve, 500));
+
+    renameSync(album, join(watchedDir, 'Trips', 'album'));
+    await waitFor(() => seen.filter(e => e.event === 'renamed').length === 2, 15000);
+    // Give the folder time to be handled
+    await new Promise(resolve => setTimeout(resolve, 1000));
+
+    expect(seen.map(e => e.event)).toEqual(['renamed', 'renamed']);
+    expect(db.getFileHashes(join(watchedDir, 'Trips', 'album', 'b.txt'))).not.toBeNull();
+  }, 25000);
+
+  it('should keep folder moves for the inbox and forget the folder once handled', async () => {
+    const seen = events();
+    await watcher.start(watchedDir, { debounceMs: 200 });
+    await new Promise(resolve => setTimeout(resolve, 500));
+
+    const notes = join(watchedDir, 'notes');
+    mkdirSync(notes);
+    writeFileSync(join(notes, 'a.txt'), 'first');
+    writeFileSync(join(notes, 'b.txt'), 'second');
+    await waitFor(() => seen.some(e => e.event === 'directorySuggested'), 10000);
+
+    expect(seen.map(e => e.event)).toEqual(['directory', 'directorySuggested']);
+    const inbox = new Inbox(db, {} as Analyzer);
+    const [entry] = inbox.list();
+    expect(entry).toMatchObject({ path: notes, destination: join(testDir, 'Texts', 'notes'), ruleName: 'Texts', directory: true });
+
+    // A file added later is a new file, not a reason to look at the folder again
+    writeFileSync(join(notes, 'c.txt'), 'third');
+    await waitFor(() => seen.some(e => e.event === 'file'), 10000);
+    expect(seen.map(e => e.event).slice(2)).toEqual(['file', 'suggested']);
+
+    watcher.stop();
+    expect((await inbox.accept(entry)).success).toBe(true);
+    expect(existsSync(join(testDir, 'Texts', 'notes', 'c.txt'))).toBe(true);
+  }, 25000);
+
+  it('should only use the rules listed for the folder', async () => {
+    const rule = (name: string, priority: number, extension: string) => (
+      { name, priority, match: { extension: [extension] }, action: { moveTo: join(testDir, name) + '/' } }
+    );
+    watcher = new Watcher(db, {
+      ...config,
+      rules: [rule('Markdown', 400, 'md'), rule('Notes', 300, 'txt'), rule('Texts', 200, 'txt')],
+    }, join(testDir, 'models'));
+    const seen = events();
+    await watcher.start(watchedDir, { debounceMs: 200, rules: ['Texts'] });
+    await new Promise(resolve => setTimeout(resolve, 500));
+
+    writeFileSync(join(watchedDir, 'todo.txt'), 'buy milk');
+    await waitFor(() => seen.some(e => e.event === 'suggested'), 10000);
+
+    const suggested = seen.find(e => e.event === 'suggested');
+    expect(suggested?.args[1]).toMatchObject({ ruleName: 'Texts', destination: join(testDir, 'Texts', 'todo.txt') });
+  }, 25000);
+});